@@ -0,0 +1,141 @@
+/**
+ * Deterministic fixture responses for the mock generation server
+ * The same payload always produces the same response, so UI states are reproducible.
+ */
+
+export type MockAction =
+  | "generate"
+  | "regenerate"
+  | "suggest_topics"
+  | "generate_leadmagnet"
+  | "refine_leadmagnet";
+
+export type MockPayload = Record<string, unknown>;
+
+export type FixtureBuilder = (payload: MockPayload, variant: number) => unknown;
+
+const str = (value: unknown, fallback = ""): string => (typeof value === "string" && value.trim() ? value.trim() : fallback);
+
+const HOOKS = [
+  "Most people get this completely wrong.",
+  "I learned this the hard way.",
+  "Here's what nobody tells you:",
+];
+
+const EMOJIS = ["🚀", "💡", "🔥"];
+
+const hashtagsFor = (...words: string[]) => {
+  const tags = words
+    .flatMap(word => word.split(/[^A-Za-z0-9]+/))
+    .filter(word => word.length > 3)
+    .slice(0, 3)
+    .map(word => `#${word.charAt(0).toUpperCase()}${word.slice(1).toLowerCase()}`);
+  return [...new Set([...tags, "#LinkedIn", "#Growth"])].slice(0, 5).join(" ");
+};
+
+const postFixture = (topic: string, category: string, tone: string, variant: number) => {
+  const hook = HOOKS[variant % HOOKS.length];
+  const emoji = EMOJIS[variant % EMOJIS.length];
+
+  return [
+    `${hook} ${emoji}`,
+    "",
+    `${topic} is one of those things everyone talks about, but few actually do well.`,
+    "",
+    `After years of working on it, here are the three lessons that stuck with me:`,
+    "",
+    `1. Start smaller than you think.`,
+    `2. Measure what actually matters.`,
+    `3. Share what you learn along the way.`,
+    "",
+    `This is a ${tone.toLowerCase()} take for the "${category}" category, generated by the local mock server.`,
+    "",
+    `What would you add to the list?`,
+    "",
+    hashtagsFor(topic, category),
+  ].join("\n");
+};
+
+const leadMagnetFixture = (payload: MockPayload, variant: number) => {
+  const resourceType = str(payload.resourceType, "Resource");
+  const outline = str(payload.resourceOutline, "Everything you need to get started")
+    .split("\n")
+    .map(line => line.replace(/^[•\-*]\s*/, "").trim())
+    .filter(Boolean)
+    .slice(0, 4);
+  const engagement = (payload.engagementOptions || {}) as Record<string, unknown>;
+
+  const ctas = [
+    engagement.connect && "✅ Connect with me (so I can DM you)",
+    engagement.like && "✅ Like this post",
+    engagement.repost && "✅ Repost to help your network",
+    engagement.comment && `✅ Comment "${str(engagement.commentKeyword, "SEND")}" below`,
+  ].filter(Boolean);
+
+  return [
+    `I just put together a free ${resourceType} ${EMOJIS[variant % EMOJIS.length]}`,
+    "",
+    "Inside you'll find:",
+    ...outline.map(line => `→ ${line}`),
+    "",
+    ...(ctas.length > 0 ? ["Want it? Here's how to get it:", ...ctas, ""] : []),
+    "(Generated by the local mock server)",
+    "",
+    "#LeadMagnet #FreeResource #Growth",
+  ].join("\n");
+};
+
+export const DEFAULT_FIXTURES: Record<MockAction, FixtureBuilder> = {
+  generate: (payload, variant) => {
+    const topic = str(payload.topic, "Your topic");
+    const category = str(payload.category, "General");
+    const tone = str(payload.tone, "Casual");
+    const count = typeof payload.variants === "number" ? payload.variants : 1;
+
+    if (count <= 1) {
+      return { content: postFixture(topic, category, tone, variant) };
+    }
+
+    const angles = Array.isArray(payload.angles) ? payload.angles.map(angle => str(angle)) : [];
+    return {
+      variants: Array.from({ length: count }, (_, index) => ({
+        angle: angles[index] || `Variant ${index + 1}`,
+        content: postFixture(topic, category, tone, variant + index),
+      })),
+    };
+  },
+
+  regenerate: (payload, variant) => {
+    const original = (payload.originalRequest || {}) as MockPayload;
+    const content = postFixture(str(original.topic, "Your topic"), str(original.category, "General"), str(original.tone, "Casual"), variant + 1);
+    return {
+      content: `${content}\n\n(Refined for: ${str(payload.changeRequest, "no change request")})`,
+    };
+  },
+
+  suggest_topics: (payload) => {
+    const description = str(payload.description, "your niche");
+    const tones = ["Authoritative", "Casual", "Narrative", "Descriptive", "Humorous"];
+    return {
+      ideas: [
+        "The biggest mistake I see in",
+        "3 lessons from a year of",
+        "What nobody tells you about",
+        "A simple framework for",
+        "Why I changed my mind on",
+      ].map((prefix, index) => ({
+        title: `${prefix} ${description}`,
+        topic: `${prefix} ${description} — practical takeaways for ${str(payload.category, "your audience")}`,
+        tone: tones[index % tones.length],
+      })),
+    };
+  },
+
+  generate_leadmagnet: (payload, variant) => ({
+    content: leadMagnetFixture(payload, variant),
+  }),
+
+  refine_leadmagnet: (payload, variant) => ({
+    content: `${leadMagnetFixture(payload, variant + 1)}\n\n(Refined for: ${str(payload.changeRequest, "no change request")})`,
+  }),
+};
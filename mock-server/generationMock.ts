@@ -0,0 +1,236 @@
+/**
+ * Local stand-in for the n8n generation webhooks
+ *
+ * Serves every webhook action the app sends from deterministic fixtures, with configurable
+ * latency and error injection. Mounted into the Vite dev/preview servers by generationMockPlugin,
+ * or usable in any Node HTTP server through createGenerationMockHandler.
+ *
+ * Per-request overrides can be embedded in any string field of the payload (e.g. the topic):
+ *   [[mock:status=503]]    respond with that HTTP status
+ *   [[mock:latency=5000]]  delay the response by that many milliseconds
+ *   [[mock:invalid]]       respond with a body that does not match the response schema
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import { DEFAULT_FIXTURES, type FixtureBuilder, type MockAction, type MockPayload } from "./fixtures";
+
+export const MOCK_BASE_PATH = "/__mock/webhooks";
+
+// Mirrors the three webhook env vars the app reads
+export const MOCK_ENDPOINTS = {
+  VITE_WEBHOOK_URL: `${MOCK_BASE_PATH}/post`,
+  VITE_ASK_AI_WEBHOOK_URL: `${MOCK_BASE_PATH}/ask-ai`,
+  VITE_LEAD_MAGNET_WEBHOOK_URL: `${MOCK_BASE_PATH}/lead-magnet`,
+} as const;
+
+const ENDPOINT_ACTIONS: Record<string, MockAction[]> = {
+  [MOCK_ENDPOINTS.VITE_WEBHOOK_URL]: ["generate", "regenerate"],
+  [MOCK_ENDPOINTS.VITE_ASK_AI_WEBHOOK_URL]: ["suggest_topics"],
+  [MOCK_ENDPOINTS.VITE_LEAD_MAGNET_WEBHOOK_URL]: ["generate_leadmagnet", "refine_leadmagnet"],
+};
+
+export interface GenerationMockOptions {
+  /** Fixed delay, or a [min, max] range drawn from the seeded generator */
+  latencyMs?: number | [number, number];
+  /** Fraction of requests (0-1) that fail with errorStatus */
+  errorRate?: number;
+  errorStatus?: number;
+  /** Seed for latency and error injection, so failure sequences are reproducible */
+  seed?: number;
+  /** Replace the response for individual actions */
+  fixtures?: Partial<Record<MockAction, FixtureBuilder>>;
+  log?: boolean;
+}
+
+type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+// Small seeded PRNG (mulberry32)
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const DIRECTIVE_PATTERN = /\[\[mock:(\w+)(?:=([^\]]+))?\]\]/g;
+
+interface Directives {
+  status?: number;
+  latency?: number;
+  invalid?: boolean;
+}
+
+const collectStrings = (value: unknown): string[] => {
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.flatMap(collectStrings);
+  if (value && typeof value === "object") return Object.values(value).flatMap(collectStrings);
+  return [];
+};
+
+const readDirectives = (payload: MockPayload): Directives => {
+  const directives: Directives = {};
+  for (const text of collectStrings(payload)) {
+    for (const [, name, value] of text.matchAll(DIRECTIVE_PATTERN)) {
+      if (name === "status" && value) directives.status = Number(value);
+      if (name === "latency" && value) directives.latency = Number(value);
+      if (name === "invalid") directives.invalid = true;
+    }
+  }
+  return directives;
+};
+
+const stripDirectives = (value: unknown): unknown => {
+  if (typeof value === "string") return value.replace(DIRECTIVE_PATTERN, "").trim();
+  if (Array.isArray(value)) return value.map(stripDirectives);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, stripDirectives(item)]));
+  }
+  return value;
+};
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createGenerationMockHandler(options: GenerationMockOptions = {}): Middleware {
+  const random = createRandom(options.seed ?? 42);
+  const fixtures = { ...DEFAULT_FIXTURES, ...options.fixtures };
+  const errorStatus = options.errorStatus ?? 500;
+
+  const pickLatency = () => {
+    const latency = options.latencyMs ?? 0;
+    if (Array.isArray(latency)) {
+      const [min, max] = latency;
+      return Math.round(min + random() * (max - min));
+    }
+    return latency;
+  };
+
+  return (req, res, next) => {
+    const path = (req.url || "").split("?")[0];
+    const allowedActions = ENDPOINT_ACTIONS[path];
+    if (!allowedActions) {
+      next();
+      return;
+    }
+
+    const handle = async () => {
+      if (req.method === "OPTIONS") {
+        res.statusCode = 204;
+        res.end();
+        return;
+      }
+      if (req.method !== "POST") {
+        sendJson(res, 405, { error: "Method not allowed" });
+        return;
+      }
+
+      let payload: MockPayload;
+      try {
+        payload = JSON.parse(await readBody(req));
+      } catch {
+        sendJson(res, 400, { error: "Request body must be JSON" });
+        return;
+      }
+
+      const action = payload.action as MockAction;
+      if (!allowedActions.includes(action)) {
+        sendJson(res, 400, { error: `Unsupported action "${String(payload.action)}" for ${path}` });
+        return;
+      }
+
+      const directives = readDirectives(payload);
+      const cleanPayload = stripDirectives(payload) as MockPayload;
+      // Draw both values on every request so the seeded sequence does not depend on directives
+      const latency = pickLatency();
+      const injectFailure = random() < (options.errorRate ?? 0);
+
+      await delay(directives.latency ?? latency);
+
+      const status = directives.status ?? (injectFailure ? errorStatus : 200);
+      if (options.log) {
+        console.log(`[generation-mock] ${action} -> ${status}`);
+      }
+
+      if (status >= 400) {
+        sendJson(res, status, { error: `Injected ${status} for ${action}` });
+        return;
+      }
+
+      if (directives.invalid) {
+        sendJson(res, status, { unexpected: true });
+        return;
+      }
+
+      const variant = hashString(JSON.stringify(cleanPayload)) % 997;
+      sendJson(res, status, fixtures[action](cleanPayload, variant));
+    };
+
+    handle().catch(error => sendJson(res, 500, { error: String(error) }));
+  };
+}
+
+/**
+ * Vite plugin: serves the mock webhooks and points the app's webhook env vars at them
+ */
+export function generationMockPlugin(options: GenerationMockOptions = {}): Plugin {
+  const handler = createGenerationMockHandler(options);
+
+  return {
+    name: "generation-mock",
+    config: () => ({
+      define: Object.fromEntries(
+        Object.entries(MOCK_ENDPOINTS).map(([envVar, path]) => [`import.meta.env.${envVar}`, JSON.stringify(path)])
+      ),
+    }),
+    configureServer(server) {
+      server.middlewares.use(handler);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(handler);
+    },
+  };
+}
+
+/**
+ * Options from MOCK_GENERATION_* environment variables
+ */
+export function generationMockOptionsFromEnv(env: Record<string, string | undefined>): GenerationMockOptions {
+  const latency = env.MOCK_GENERATION_LATENCY_MS;
+  const range = latency?.split("-").map(Number);
+
+  return {
+    latencyMs: range && range.length === 2 ? [range[0], range[1]] : Number(latency || 0),
+    errorRate: Number(env.MOCK_GENERATION_ERROR_RATE || 0),
+    errorStatus: env.MOCK_GENERATION_ERROR_STATUS ? Number(env.MOCK_GENERATION_ERROR_STATUS) : undefined,
+    seed: env.MOCK_GENERATION_SEED ? Number(env.MOCK_GENERATION_SEED) : undefined,
+    log: true,
+  };
+}
@@ -10,6 +10,9 @@ import CreatePrompt from "./pages/CreatePrompt";
 import LeadMagnet from "./pages/LeadMagnet";
 import PostLibrary from "./pages/PostLibrary";
 import ContentCalendar from "./pages/ContentCalendar";
+import PromptTemplates from "./pages/PromptTemplates";
+import Campaigns from "./pages/Campaigns";
+import CampaignDetail from "./pages/CampaignDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +31,9 @@ const App = () => (
             <Route path="/lead-magnet" element={<LeadMagnet />} />
             <Route path="/post-library" element={<PostLibrary />} />
             <Route path="/content-calendar" element={<ContentCalendar />} />
+            <Route path="/campaigns" element={<Campaigns />} />
+            <Route path="/campaigns/:campaignId" element={<CampaignDetail />} />
+            <Route path="/prompt-templates" element={<PromptTemplates />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </Layout>
@@ -1,4 +1,4 @@
-import { Calendar, Edit, Gift, Library, Home, BookOpen } from "lucide-react"
+import { Calendar, Edit, Gift, Library, Home, BookOpen, FileCode, Flag } from "lucide-react"
 import { NavLink, useLocation } from "react-router-dom"
 import { MilitaryLogo } from "./ui/ghost-logo"
 
@@ -21,13 +21,16 @@ const items = [
   { title: "Lead Magnet AI", url: "/lead-magnet", icon: Gift },
   { title: "Post Library", url: "/post-library", icon: Library },
   { title: "Content Calendar", url: "/content-calendar", icon: Calendar },
+  { title: "Campaigns", url: "/campaigns", icon: Flag },
+  { title: "Prompt Templates", url: "/prompt-templates", icon: FileCode },
 ]
 
 export function AppSidebar() {
   const location = useLocation()
   const currentPath = location.pathname
 
-  const isActive = (path: string) => currentPath === path
+  // Campaign pages live under /campaigns/:id
+  const isActive = (path: string) => currentPath === path || (path !== "/" && currentPath.startsWith(`${path}/`))
 
   return (
     <Sidebar className="w-64 border-r border-border">
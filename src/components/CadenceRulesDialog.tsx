@@ -0,0 +1,241 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, parse } from "date-fns";
+import { Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CadenceService } from "@/lib/cadenceService";
+import { findCadenceRule } from "@/lib/cadence";
+import { PLATFORM_RULES, PREVIEW_PLATFORMS } from "@/lib/platformPreview";
+
+interface CadenceRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface RuleDraft {
+  minGap: string;
+  maxPerDay: string;
+}
+
+const PLATFORM_OPTIONS = PREVIEW_PLATFORMS.map(platform => PLATFORM_RULES[platform].label);
+const ALL_PLATFORMS = "all";
+
+const toLimit = (value: string) => {
+  const number = parseInt(value, 10);
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+export function CadenceRulesDialog({ open, onOpenChange }: CadenceRulesDialogProps) {
+  const [drafts, setDrafts] = useState<Record<string, RuleDraft>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [blackoutDate, setBlackoutDate] = useState("");
+  const [blackoutPlatform, setBlackoutPlatform] = useState(ALL_PLATFORMS);
+  const [blackoutLabel, setBlackoutLabel] = useState("");
+  const [isAddingBlackout, setIsAddingBlackout] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: loadedRules, isLoading: isLoadingRules } = useQuery({
+    queryKey: ["cadence-rules"],
+    queryFn: () => CadenceService.listRules(),
+    enabled: open,
+  });
+  const rules = loadedRules ?? [];
+
+  const { data: blackouts = [] } = useQuery({
+    queryKey: ["blackout-dates"],
+    queryFn: () => CadenceService.listBlackouts(),
+    enabled: open,
+  });
+
+  // Reset the form to the stored rules whenever the dialog opens or they are saved
+  useEffect(() => {
+    if (!open || !loadedRules) return;
+    setDrafts(Object.fromEntries(PLATFORM_OPTIONS.map(platform => {
+      const rule = findCadenceRule(loadedRules, platform);
+      return [platform, { minGap: rule?.min_gap_minutes?.toString() ?? "", maxPerDay: rule?.max_posts_per_day?.toString() ?? "" }];
+    })));
+  }, [open, loadedRules]);
+
+  // Open schedule dialogs re-check against the new rules
+  const refreshCadence = () => {
+    queryClient.invalidateQueries({ queryKey: ["cadence-rules"] });
+    queryClient.invalidateQueries({ queryKey: ["blackout-dates"] });
+    queryClient.invalidateQueries({ queryKey: ["cadence-check"] });
+  };
+
+  const updateDraft = (platform: string, field: keyof RuleDraft, value: string) =>
+    setDrafts(prev => ({ ...prev, [platform]: { ...prev[platform], [field]: value } }));
+
+  const handleSaveRules = async () => {
+    setIsSaving(true);
+    try {
+      // A platform with both limits cleared has no rule at all
+      await Promise.all(PLATFORM_OPTIONS.map(platform => {
+        const minGap = toLimit(drafts[platform]?.minGap ?? "");
+        const maxPerDay = toLimit(drafts[platform]?.maxPerDay ?? "");
+        const existing = findCadenceRule(rules, platform);
+        if (minGap === null && maxPerDay === null) {
+          return existing ? CadenceService.deleteRule(existing.id) : undefined;
+        }
+        return CadenceService.saveRule({
+          platform: existing?.platform ?? platform,
+          min_gap_minutes: minGap,
+          max_posts_per_day: maxPerDay,
+        });
+      }));
+      refreshCadence();
+      toast({ title: "Cadence rules saved", description: "Scheduling now warns when a post breaks them." });
+    } catch (error) {
+      console.error("Error saving cadence rules:", error);
+      toast({ title: "Error", description: "Failed to save cadence rules.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddBlackout = async () => {
+    setIsAddingBlackout(true);
+    try {
+      await CadenceService.addBlackout({
+        date: blackoutDate,
+        platform: blackoutPlatform === ALL_PLATFORMS ? null : blackoutPlatform,
+        label: blackoutLabel.trim() || null,
+      });
+      setBlackoutDate("");
+      setBlackoutLabel("");
+      refreshCadence();
+    } catch (error) {
+      console.error("Error adding blackout date:", error);
+      toast({ title: "Error", description: "Failed to add blackout date.", variant: "destructive" });
+    } finally {
+      setIsAddingBlackout(false);
+    }
+  };
+
+  const handleDeleteBlackout = async (id: string) => {
+    try {
+      await CadenceService.deleteBlackout(id);
+      refreshCadence();
+    } catch (error) {
+      console.error("Error deleting blackout date:", error);
+      toast({ title: "Error", description: "Failed to delete blackout date.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-hidden flex flex-col bg-popover backdrop-blur-md border shadow-lg">
+        <DialogHeader>
+          <DialogTitle>Cadence Rules</DialogTitle>
+          <DialogDescription>
+            Scheduling warns when a post breaks these rules and suggests times that fit. Leave a field empty for no limit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-6 py-2 pr-2">
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_120px_120px] gap-3 text-xs font-medium text-muted-foreground">
+              <span>Platform</span>
+              <span>Min gap (min)</span>
+              <span>Max per day</span>
+            </div>
+            {isLoadingRules ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              PLATFORM_OPTIONS.map(platform => (
+                <div key={platform} className="grid grid-cols-[1fr_120px_120px] gap-3 items-center">
+                  <Label htmlFor={`gap-${platform}`} className="text-sm">{platform}</Label>
+                  <Input
+                    id={`gap-${platform}`}
+                    type="number"
+                    min={1}
+                    value={drafts[platform]?.minGap ?? ""}
+                    onChange={(e) => updateDraft(platform, "minGap", e.target.value)}
+                    placeholder="None"
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    value={drafts[platform]?.maxPerDay ?? ""}
+                    onChange={(e) => updateDraft(platform, "maxPerDay", e.target.value)}
+                    placeholder="None"
+                    aria-label={`Max ${platform} posts per day`}
+                  />
+                </div>
+              ))
+            )}
+            <Button onClick={handleSaveRules} disabled={isSaving || isLoadingRules} size="sm" className="gap-2">
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save rules
+            </Button>
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <h4 className="text-sm font-semibold">Blackout dates</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="blackout-date" className="text-sm">Date</Label>
+                <Input id="blackout-date" type="date" value={blackoutDate} onChange={(e) => setBlackoutDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-sm">Platform</Label>
+                <Select value={blackoutPlatform} onValueChange={setBlackoutPlatform}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PLATFORMS}>All platforms</SelectItem>
+                    {PLATFORM_OPTIONS.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={blackoutLabel}
+                onChange={(e) => setBlackoutLabel(e.target.value)}
+                placeholder="Reason, e.g. Company holiday"
+                maxLength={255}
+              />
+              <Button variant="outline" onClick={handleAddBlackout} disabled={isAddingBlackout || !blackoutDate} className="gap-2 flex-shrink-0">
+                {isAddingBlackout ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                Add
+              </Button>
+            </div>
+
+            {blackouts.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">No blackout dates</p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {blackouts.map(blackout => (
+                  <div key={blackout.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium">
+                        {format(parse(blackout.date, "yyyy-MM-dd", new Date()), "EEE, MMM d, yyyy")}
+                        <span className="text-muted-foreground font-normal"> · {blackout.platform || "All platforms"}</span>
+                      </div>
+                      {blackout.label && <div className="text-xs text-muted-foreground truncate">{blackout.label}</div>}
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteBlackout(blackout.id)} aria-label="Delete blackout date">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
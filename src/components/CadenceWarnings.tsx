@@ -0,0 +1,49 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { SUGGESTION_HORIZON_DAYS } from "@/lib/cadence";
+import { formatInTimeZone } from "@/lib/timezones";
+import { cn } from "@/lib/utils";
+import { CadenceCheck } from "@/types/cadence";
+
+interface CadenceWarningsProps {
+  check: CadenceCheck | undefined;
+  // Zone the suggestion buttons read in; defaults to the workspace zone the check ran in
+  timeZone?: string;
+  onPickSuggestion: (date: Date) => void;
+  className?: string;
+}
+
+/**
+ * Cadence rule warnings for a schedule, with buttons for nearby times that satisfy every rule
+ */
+export function CadenceWarnings({ check, timeZone, onPickSuggestion, className }: CadenceWarningsProps) {
+  if (!check || check.violations.length === 0) return null;
+
+  const zone = timeZone ?? check.timeZone;
+
+  return (
+    <div className={cn("p-3 rounded-lg border border-amber-500/50 bg-amber-500/10 text-sm space-y-2", className)}>
+      <div className="flex items-center gap-2 font-medium text-amber-600 dark:text-amber-400">
+        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+        This breaks your cadence rules
+      </div>
+      <ul className="list-disc pl-6 space-y-1 text-muted-foreground">
+        {check.violations.map(violation => (
+          <li key={violation.kind}>{violation.message}</li>
+        ))}
+      </ul>
+      {check.suggestions.length > 0 ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-muted-foreground">Try instead:</span>
+          {check.suggestions.map(date => (
+            <Button key={date.getTime()} type="button" variant="outline" size="sm" onClick={() => onPickSuggestion(date)}>
+              {formatInTimeZone(date, zone, "EEE, MMM d 'at' h:mm a")}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">No free time satisfies every rule in the next {SUGGESTION_HORIZON_DAYS} days.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, format, isBefore, parse } from "date-fns";
+import { Copy, Download, Link2, Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarFeedService } from "@/lib/calendarFeedService";
+import { ContentService } from "@/lib/contentService";
+import { downloadICalendar, postsToICalendar } from "@/lib/icalendar";
+import { combineDateAndTime } from "@/lib/timezones";
+
+interface CalendarExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Zoned start and end of the visible period, used as the default range
+  defaultStart: Date;
+  defaultEnd: Date;
+  timeZone: string;
+}
+
+const DATE_INPUT_FORMAT = "yyyy-MM-dd";
+
+export function CalendarExportDialog({ open, onOpenChange, defaultStart, defaultEnd, timeZone }: CalendarExportDialogProps) {
+  const defaultFrom = format(defaultStart, DATE_INPUT_FORMAT);
+  const defaultTo = format(defaultEnd, DATE_INPUT_FORMAT);
+  const [from, setFrom] = useState(defaultFrom);
+  const [to, setTo] = useState(defaultTo);
+  const [isExporting, setIsExporting] = useState(false);
+  const [feedLabel, setFeedLabel] = useState("");
+  const [isCreatingFeed, setIsCreatingFeed] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // Reset to the visible period each time the dialog opens; the dates are strings so the
+  // Date objects the calendar recreates on every render don't wipe the user's range
+  useEffect(() => {
+    if (open) {
+      setFrom(defaultFrom);
+      setTo(defaultTo);
+    }
+  }, [open, defaultFrom, defaultTo]);
+
+  const { data: feeds = [], isLoading: isLoadingFeeds } = useQuery({
+    queryKey: ["calendar-feeds"],
+    queryFn: () => CalendarFeedService.listFeeds(),
+    enabled: open,
+  });
+
+  const refreshFeeds = () => queryClient.invalidateQueries({ queryKey: ["calendar-feeds"] });
+
+  const handleDownload = async () => {
+    const fromDay = parse(from, DATE_INPUT_FORMAT, new Date());
+    const toDay = parse(to, DATE_INPUT_FORMAT, new Date());
+    if (isNaN(fromDay.getTime()) || isNaN(toDay.getTime()) || isBefore(toDay, fromDay)) {
+      toast({ title: "Invalid range", description: "Pick a start date on or before the end date.", variant: "destructive" });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      // Whole days in the calendar's zone: midnight on the first day up to midnight after the last
+      const start = combineDateAndTime(fromDay, "00:00", timeZone);
+      const end = new Date(combineDateAndTime(addDays(toDay, 1), "00:00", timeZone).getTime() - 1);
+      const posts = await ContentService.getScheduledPosts(start, end);
+      downloadICalendar(postsToICalendar(posts), `content-calendar-${from}-to-${to}`);
+      toast({ title: "Calendar exported", description: `${posts.length} scheduled post${posts.length === 1 ? "" : "s"} exported.` });
+    } catch (error) {
+      console.error("Error exporting calendar:", error);
+      toast({ title: "Error", description: "Failed to export the calendar.", variant: "destructive" });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleCreateFeed = async () => {
+    setIsCreatingFeed(true);
+    try {
+      await CalendarFeedService.createFeed(feedLabel);
+      setFeedLabel("");
+      refreshFeeds();
+    } catch (error) {
+      console.error("Error creating calendar feed:", error);
+      toast({ title: "Error", description: "Failed to create the calendar feed.", variant: "destructive" });
+    } finally {
+      setIsCreatingFeed(false);
+    }
+  };
+
+  const handleRevokeFeed = async (id: string) => {
+    if (!confirm("Revoke this feed? Calendars subscribed to it stop updating.")) return;
+    try {
+      await CalendarFeedService.revokeFeed(id);
+      refreshFeeds();
+    } catch (error) {
+      console.error("Error revoking calendar feed:", error);
+      toast({ title: "Error", description: "Failed to revoke the calendar feed.", variant: "destructive" });
+    }
+  };
+
+  const copyFeedUrl = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(CalendarFeedService.getFeedUrl(token));
+      toast({ title: "Copied!", description: "Paste the URL into your calendar app's \"subscribe\" option." });
+    } catch {
+      toast({ title: "Copy Failed", description: "Failed to copy to clipboard", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-hidden flex flex-col bg-popover backdrop-blur-md border shadow-lg">
+        <DialogHeader>
+          <DialogTitle>Export Calendar</DialogTitle>
+          <DialogDescription>
+            Download the schedule as an .ics file or subscribe to a live feed from Google Calendar, Outlook or Apple Calendar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-6 py-2 pr-2">
+          <div className="space-y-3">
+            <h4 className="text-sm font-semibold">Download .ics</h4>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="export-from" className="text-sm">From</Label>
+                <Input id="export-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="export-to" className="text-sm">To</Label>
+                <Input id="export-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+            </div>
+            <Button onClick={handleDownload} disabled={isExporting || !from || !to} size="sm" className="gap-2">
+              {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              Download
+            </Button>
+          </div>
+
+          <div className="space-y-3 border-t pt-4">
+            <h4 className="text-sm font-semibold">Subscription feeds</h4>
+            <p className="text-xs text-muted-foreground">
+              Anyone with a feed URL can see the schedule. Revoke a feed to cut off access.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                value={feedLabel}
+                onChange={(e) => setFeedLabel(e.target.value)}
+                placeholder="Label, e.g. Marketing team"
+                maxLength={100}
+              />
+              <Button variant="outline" onClick={handleCreateFeed} disabled={isCreatingFeed} className="gap-2 flex-shrink-0">
+                {isCreatingFeed ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                New feed
+              </Button>
+            </div>
+
+            {isLoadingFeeds ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : feeds.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-2">No feeds yet</p>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {feeds.map(feed => (
+                  <div key={feed.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate flex items-center gap-2">
+                        <Link2 className="h-3.5 w-3.5 flex-shrink-0" />
+                        {feed.label || "Untitled feed"}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {feed.last_accessed_at
+                          ? `Last synced ${format(new Date(feed.last_accessed_at), "MMM d 'at' h:mm a")}`
+                          : "Never synced"}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1 flex-shrink-0">
+                      <Button variant="ghost" size="sm" asChild>
+                        <a href={CalendarFeedService.getFeedUrl(feed.token, "webcal")}>Subscribe</a>
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => copyFeedUrl(feed.token)} aria-label="Copy feed URL">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleRevokeFeed(feed.id)} aria-label="Revoke feed">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+import { DragEvent, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { format, isBefore, isSameDay, set, startOfDay } from "date-fns";
+import { ContentPost } from "@/types/content";
+import { SlotOccurrence } from "@/types/postingSlot";
+import { PLATFORM_RULES, PreviewPlatform } from "@/lib/platformPreview";
+import { fromZonedDate, toZonedDate } from "@/lib/timezones";
+import { cn } from "@/lib/utils";
+
+interface CalendarTimeGridProps {
+  // Zoned dates in timeZone (see lib/timezones)
+  days: Date[];
+  posts: ContentPost[];
+  timeZone: string;
+  // Free recurring slots with zoned dates, drawn as dashed placeholders in their platform lane
+  freeSlots?: SlotOccurrence[];
+  // Receives the real instant for the slot
+  onReschedule: (post: ContentPost, target: Date) => void;
+  onViewPost: (post: ContentPost) => void;
+}
+
+interface Lane {
+  key: string;
+  label: string;
+  color: string;
+}
+
+const HOUR_HEIGHT = 48;
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+// Chips are at least this tall so posts a few minutes apart stay clickable
+const CHIP_HEIGHT = 22;
+const DEFAULT_SCROLL_HOUR = 8;
+const UNASSIGNED_LANE: Lane = { key: "unassigned", label: "No platform", color: "hsl(var(--muted-foreground))" };
+
+const laneKeyFor = (post: ContentPost) => (post.platform ? post.platform.toLowerCase() : UNASSIGNED_LANE.key);
+
+const laneFor = (key: string): Lane => {
+  if (key === UNASSIGNED_LANE.key) return UNASSIGNED_LANE;
+  const rules = PLATFORM_RULES[key as PreviewPlatform];
+  return rules
+    ? { key, label: rules.label, color: rules.linkColor }
+    : { key, label: key.charAt(0).toUpperCase() + key.slice(1), color: "hsl(var(--primary))" };
+};
+
+const minutesIntoDay = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+/**
+ * Hourly grid for the week and day views; each day column is split into one lane per platform
+ */
+export function CalendarTimeGrid({ days, posts, timeZone, freeSlots = [], onReschedule, onViewPost }: CalendarTimeGridProps) {
+  const zonedNow = useCallback(() => toZonedDate(new Date(), timeZone), [timeZone]);
+  const zonedDate = (value: string) => toZonedDate(new Date(value), timeZone);
+  const [now, setNow] = useState(zonedNow);
+  const [draggingPostId, setDraggingPostId] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setNow(zonedNow());
+    const timer = window.setInterval(() => setNow(zonedNow()), 60_000);
+    return () => window.clearInterval(timer);
+  }, [zonedNow]);
+
+  // Open on the working day, or a little before the current hour when today is visible.
+  // days is a new array on every render, so the effect keys on what it shows instead.
+  const firstDayKey = days[0]?.toDateString();
+  const showsToday = days.some(day => isSameDay(day, now));
+  useEffect(() => {
+    if (!scrollRef.current) return;
+    const hour = showsToday ? Math.max(0, zonedNow().getHours() - 1) : DEFAULT_SCROLL_HOUR;
+    scrollRef.current.scrollTop = hour * HOUR_HEIGHT;
+  }, [firstDayKey, days.length, showsToday, zonedNow]);
+
+  const lanes = useMemo(() => {
+    const keys = Array.from(new Set([
+      ...posts.map(laneKeyFor),
+      ...freeSlots.map(({ slot }) => slot.platform.toLowerCase()),
+    ])).sort((a, b) =>
+      a === UNASSIGNED_LANE.key ? 1 : b === UNASSIGNED_LANE.key ? -1 : a.localeCompare(b)
+    );
+    return keys.length > 0 ? keys.map(laneFor) : [UNASSIGNED_LANE];
+  }, [posts, freeSlots]);
+
+  const postsFor = (day: Date, lane: Lane) =>
+    posts
+      .filter(post => post.scheduled_date && isSameDay(zonedDate(post.scheduled_date), day) && laneKeyFor(post) === lane.key)
+      .sort((a, b) => new Date(a.scheduled_date!).getTime() - new Date(b.scheduled_date!).getTime());
+
+  const slotsFor = (day: Date, lane: Lane) =>
+    freeSlots.filter(({ slot, date }) => isSameDay(date, day) && slot.platform.toLowerCase() === lane.key);
+
+  const handleDragStart = (event: DragEvent, post: ContentPost) => {
+    event.dataTransfer.setData("text/plain", post.id);
+    event.dataTransfer.effectAllowed = "move";
+    setDraggingPostId(post.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingPostId(null);
+    setDropTargetKey(null);
+  };
+
+  const handleDragOver = (event: DragEvent, key: string, slot: Date) => {
+    // Slots that already started can't take a post; leaving the default keeps the "no drop" cursor
+    if (isBefore(slot, now)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    if (dropTargetKey !== key) setDropTargetKey(key);
+  };
+
+  const handleDrop = (event: DragEvent, slot: Date) => {
+    event.preventDefault();
+    const post = posts.find(item => item.id === event.dataTransfer.getData("text/plain"));
+    handleDragEnd();
+    if (post) onReschedule(post, fromZonedDate(slot, timeZone));
+  };
+
+  const showLaneHeaders = days.length === 1 && lanes.length > 1;
+
+  return (
+    <div className="space-y-3">
+      {/* Lane legend */}
+      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+        {lanes.map(lane => (
+          <span key={lane.key} className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: lane.color }} />
+            {lane.label}
+          </span>
+        ))}
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        {/* Day headers */}
+        <div className="flex border-b bg-muted/30">
+          <div className="w-14 flex-shrink-0" />
+          {days.map(day => (
+            <div key={day.toISOString()} className="flex-1 min-w-0 border-l">
+              <div className={cn("p-2 text-center text-sm font-medium", isSameDay(day, now) ? "text-primary font-bold" : "text-muted-foreground")}>
+                <span className="hidden sm:inline">{format(day, days.length === 1 ? "EEEE, MMM d" : "EEE d")}</span>
+                <span className="sm:hidden">{format(day, days.length === 1 ? "EEE, MMM d" : "EEEEE")}</span>
+              </div>
+              {showLaneHeaders && (
+                <div className="flex border-t">
+                  {lanes.map(lane => (
+                    <div key={lane.key} className="flex-1 min-w-0 px-2 py-1 text-xs text-center truncate border-l first:border-l-0" style={{ color: lane.color }}>
+                      {lane.label}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div ref={scrollRef} className="max-h-[600px] overflow-y-auto">
+          <div className="flex relative" style={{ height: HOURS.length * HOUR_HEIGHT }}>
+            {/* Hour labels */}
+            <div className="w-14 flex-shrink-0">
+              {HOURS.map(hour => (
+                <div key={hour} className="text-[10px] text-muted-foreground text-right pr-2 -translate-y-1.5" style={{ height: HOUR_HEIGHT }}>
+                  {hour > 0 && format(set(new Date(), { hours: hour, minutes: 0 }), "h a")}
+                </div>
+              ))}
+            </div>
+
+            {days.map(day => {
+              const dayStart = startOfDay(day);
+              return (
+                <div key={day.toISOString()} className={cn("flex-1 min-w-0 border-l relative", isSameDay(day, now) && "bg-primary/5")}>
+                  {/* Hour slots are the drop targets */}
+                  {HOURS.map(hour => {
+                    const slot = set(dayStart, { hours: hour });
+                    const slotKey = `${format(day, "yyyy-MM-dd")}-${hour}`;
+                    const isPast = isBefore(slot, now);
+                    return (
+                      <div
+                        key={hour}
+                        onDragOver={(event) => handleDragOver(event, slotKey, slot)}
+                        onDragLeave={() => dropTargetKey === slotKey && setDropTargetKey(null)}
+                        onDrop={(event) => handleDrop(event, slot)}
+                        className={cn(
+                          "border-b border-border/50 transition-colors",
+                          draggingPostId && isPast && "bg-muted/40",
+                          dropTargetKey === slotKey && "bg-primary/10 outline-dashed outline-1 outline-primary -outline-offset-1"
+                        )}
+                        style={{ height: HOUR_HEIGHT }}
+                      />
+                    );
+                  })}
+
+                  {/* Platform lanes; chips let drag events through to the slots while a drag is running */}
+                  <div className={cn("absolute inset-0 flex", draggingPostId ? "pointer-events-none" : "pointer-events-none [&>*>*]:pointer-events-auto")}>
+                    {lanes.map(lane => (
+                      <div key={lane.key} className="flex-1 min-w-0 relative">
+                        {slotsFor(day, lane).map(({ slot, date }) => (
+                          <div
+                            key={`${slot.id}-${date.getTime()}`}
+                            title={`Free ${slot.platform} slot at ${format(date, "h:mm a")}`}
+                            className="absolute left-0.5 right-0.5 rounded px-1 text-[11px] leading-[20px] truncate border border-dashed text-muted-foreground"
+                            style={{ top: (minutesIntoDay(date) / 60) * HOUR_HEIGHT, height: CHIP_HEIGHT, borderColor: lane.color }}
+                          >
+                            {format(date, "h:mm")} free
+                          </div>
+                        ))}
+                        {postsFor(day, lane).map((post, index, lanePosts) => {
+                          const scheduled = zonedDate(post.scheduled_date!);
+                          const top = (minutesIntoDay(scheduled) / 60) * HOUR_HEIGHT;
+                          const previous = lanePosts[index - 1];
+                          const overlapsPrevious =
+                            previous && top - (minutesIntoDay(zonedDate(previous.scheduled_date!)) / 60) * HOUR_HEIGHT < CHIP_HEIGHT;
+                          return (
+                            <div
+                              key={post.id}
+                              draggable
+                              onDragStart={(event) => handleDragStart(event, post)}
+                              onDragEnd={handleDragEnd}
+                              onClick={() => onViewPost(post)}
+                              title={`${format(scheduled, "h:mm a")} · ${post.title || "Untitled"}`}
+                              className={cn(
+                                "absolute left-0.5 right-0.5 rounded px-1 text-[11px] leading-[20px] truncate cursor-grab active:cursor-grabbing",
+                                "bg-card border shadow-sm hover:bg-accent transition-colors",
+                                draggingPostId === post.id && "opacity-40"
+                              )}
+                              style={{
+                                top,
+                                height: CHIP_HEIGHT,
+                                borderLeft: `3px solid ${lane.color}`,
+                                marginLeft: overlapsPrevious ? 6 : undefined,
+                                zIndex: index + 1,
+                              }}
+                            >
+                              <span className="font-medium">{format(scheduled, "h:mm")}</span>{" "}
+                              <span className="text-muted-foreground">{post.title || "Untitled"}</span>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+
+                  {/* Current time */}
+                  {isSameDay(day, now) && (
+                    <div
+                      className="absolute left-0 right-0 z-30 pointer-events-none flex items-center"
+                      style={{ top: (minutesIntoDay(now) / 60) * HOUR_HEIGHT }}
+                    >
+                      <div className="h-2 w-2 -ml-1 rounded-full bg-red-500" />
+                      <div className="h-px flex-1 bg-red-500" />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
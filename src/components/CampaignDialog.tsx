@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { CampaignService } from "@/lib/campaignService";
+import { CAMPAIGN_PLATFORMS, isValidCampaignDay } from "@/lib/campaigns";
+import { Campaign, SaveCampaignRequest } from "@/types/campaign";
+
+interface CampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Edit this campaign; create a new one when absent
+  campaign?: Campaign | null;
+  onSaved: (campaign: Campaign) => void;
+}
+
+const EMPTY_FORM: SaveCampaignRequest = { name: "", goal: "", start_date: "", end_date: "", target_platforms: [] };
+
+export function CampaignDialog({ open, onOpenChange, campaign, onSaved }: CampaignDialogProps) {
+  const [form, setForm] = useState<SaveCampaignRequest>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the campaign being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm(campaign
+      ? { name: campaign.name, goal: campaign.goal ?? "", start_date: campaign.start_date, end_date: campaign.end_date, target_platforms: campaign.target_platforms }
+      : EMPTY_FORM);
+  }, [open, campaign]);
+
+  const validationError = !form.name.trim()
+    ? "Give the campaign a name."
+    : !isValidCampaignDay(form.start_date) || !isValidCampaignDay(form.end_date)
+      ? "Pick a start and end date."
+      : form.end_date < form.start_date
+        ? "The campaign can't end before it starts."
+        : null;
+
+  const togglePlatform = (platform: string, checked: boolean) =>
+    setForm(prev => ({
+      ...prev,
+      target_platforms: checked
+        ? [...prev.target_platforms, platform]
+        : prev.target_platforms.filter(existing => existing !== platform),
+    }));
+
+  const handleSave = async () => {
+    if (validationError) return;
+    setIsSaving(true);
+    try {
+      const request = { ...form, goal: form.goal?.trim() || null };
+      const saved = campaign
+        ? await CampaignService.updateCampaign(campaign.id, request)
+        : await CampaignService.createCampaign(request);
+      toast({ title: campaign ? "Campaign updated" : "Campaign created", description: `"${saved.name}" was saved.` });
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving campaign:", error);
+      toast({ title: "Error", description: "Failed to save campaign.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] bg-popover backdrop-blur-md border shadow-lg">
+        <DialogHeader>
+          <DialogTitle>{campaign ? "Edit Campaign" : "New Campaign"}</DialogTitle>
+          <DialogDescription>Group the posts of a multi-week push and track them together.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="campaign-name">Name</Label>
+            <Input
+              id="campaign-name"
+              value={form.name}
+              maxLength={255}
+              onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              placeholder="Q4 product launch"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="campaign-goal">Goal</Label>
+            <Textarea
+              id="campaign-goal"
+              value={form.goal ?? ""}
+              onChange={(e) => setForm(prev => ({ ...prev, goal: e.target.value }))}
+              placeholder="What should this campaign achieve?"
+              rows={3}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-start">Starts</Label>
+              <Input
+                id="campaign-start"
+                type="date"
+                value={form.start_date}
+                max={form.end_date || undefined}
+                onChange={(e) => setForm(prev => ({ ...prev, start_date: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="campaign-end">Ends</Label>
+              <Input
+                id="campaign-end"
+                type="date"
+                value={form.end_date}
+                min={form.start_date || undefined}
+                onChange={(e) => setForm(prev => ({ ...prev, end_date: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Target platforms</Label>
+            <div className="flex flex-wrap gap-4">
+              {CAMPAIGN_PLATFORMS.map(platform => (
+                <div key={platform} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`campaign-platform-${platform}`}
+                    checked={form.target_platforms.includes(platform)}
+                    onCheckedChange={(checked) => togglePlatform(platform, checked === true)}
+                  />
+                  <Label htmlFor={`campaign-platform-${platform}`} className="text-sm font-normal">{platform}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !!validationError} title={validationError ?? undefined} className="gap-2">
+            {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+            {campaign ? "Save changes" : "Create campaign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+import { eachDayOfInterval, endOfMonth, endOfWeek, format, isSameDay, isSameMonth, startOfWeek } from "date-fns";
+import { CAMPAIGN_STATUS_STYLES, campaignMonths, campaignPostDate, isOutsideCampaign } from "@/lib/campaigns";
+import { cn } from "@/lib/utils";
+import { Campaign } from "@/types/campaign";
+import { ContentPost } from "@/types/content";
+
+interface CampaignMiniCalendarProps {
+  campaign: Campaign;
+  posts: ContentPost[];
+  timeZone: string;
+  zonedToday: Date;
+  onViewPost: (post: ContentPost) => void;
+}
+
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+/**
+ * Month grids covering the campaign, its days shaded, each dated post a dot coloured by status
+ */
+export function CampaignMiniCalendar({ campaign, posts, timeZone, zonedToday, onViewPost }: CampaignMiniCalendarProps) {
+  const datedPosts = posts
+    .map(post => ({ post, date: campaignPostDate(post, timeZone) }))
+    .filter((entry): entry is { post: ContentPost; date: Date } => entry.date !== null);
+
+  return (
+    <div className="grid gap-6 sm:grid-cols-2 xl:grid-cols-3">
+      {campaignMonths(campaign).map(month => (
+        <div key={month.toISOString()} className="space-y-2">
+          <h4 className="text-sm font-medium">{format(month, "MMMM yyyy")}</h4>
+          <div className="grid grid-cols-7 gap-1 text-center text-xs">
+            {WEEKDAYS.map((day, index) => (
+              <span key={index} className="text-muted-foreground">{day}</span>
+            ))}
+            {eachDayOfInterval({ start: startOfWeek(month), end: endOfWeek(endOfMonth(month)) }).map(day => {
+              if (!isSameMonth(day, month)) return <span key={day.toISOString()} />;
+              const dayPosts = datedPosts.filter(entry => isSameDay(entry.date, day));
+              return (
+                <div
+                  key={day.toISOString()}
+                  className={cn(
+                    "flex min-h-10 flex-col items-center gap-0.5 rounded p-0.5",
+                    !isOutsideCampaign(campaign, day) && "bg-primary/10",
+                    isSameDay(day, zonedToday) && "ring-1 ring-primary"
+                  )}
+                >
+                  <span className={cn(isOutsideCampaign(campaign, day) && "text-muted-foreground")}>{format(day, "d")}</span>
+                  {dayPosts.length > 0 && (
+                    <div className="flex flex-wrap justify-center gap-0.5">
+                      {dayPosts.map(({ post, date }) => (
+                        <button
+                          key={post.id}
+                          type="button"
+                          onClick={() => onViewPost(post)}
+                          title={`${post.title || "Untitled Post"} · ${CAMPAIGN_STATUS_STYLES[post.status].label} · ${format(date, "h:mm a")}`}
+                          aria-label={`View ${post.title || "Untitled Post"}`}
+                          className={cn("h-2 w-2 rounded-full hover:ring-2 hover:ring-primary", CAMPAIGN_STATUS_STYLES[post.status].className)}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
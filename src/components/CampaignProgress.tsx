@@ -0,0 +1,48 @@
+import { CAMPAIGN_STATUS_STYLES, campaignCompletion } from "@/lib/campaigns";
+import { cn } from "@/lib/utils";
+import { CampaignStatusCounts } from "@/types/campaign";
+import { ContentPost } from "@/types/content";
+
+interface CampaignProgressProps {
+  counts: CampaignStatusCounts;
+  showLegend?: boolean;
+  className?: string;
+}
+
+const SEGMENT_ORDER: ContentPost['status'][] = ["published", "scheduled", "failed", "draft", "archived"];
+
+/**
+ * A campaign's posts as one bar split by status, with the share already published
+ */
+export function CampaignProgress({ counts, showLegend = true, className }: CampaignProgressProps) {
+  const total = SEGMENT_ORDER.reduce((sum, status) => sum + counts[status], 0);
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-muted-foreground">{total} post{total === 1 ? "" : "s"}</span>
+        <span className="font-medium">{campaignCompletion(counts)}% published</span>
+      </div>
+      <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+        {SEGMENT_ORDER.filter(status => counts[status] > 0).map(status => (
+          <div
+            key={status}
+            className={CAMPAIGN_STATUS_STYLES[status].className}
+            style={{ width: `${(counts[status] / total) * 100}%` }}
+            title={`${CAMPAIGN_STATUS_STYLES[status].label}: ${counts[status]}`}
+          />
+        ))}
+      </div>
+      {showLegend && total > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {SEGMENT_ORDER.filter(status => counts[status] > 0).map(status => (
+            <span key={status} className="flex items-center gap-1.5">
+              <span className={cn("h-2 w-2 rounded-full", CAMPAIGN_STATUS_STYLES[status].className)} />
+              {CAMPAIGN_STATUS_STYLES[status].label} {counts[status]}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
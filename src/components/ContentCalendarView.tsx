@@ -1,30 +1,111 @@
 import { useState, useEffect } from "react"
-import { ChevronLeft, ChevronRight, Calendar, Clock, Edit, Trash2 } from "lucide-react"
+import { useSearchParams } from "react-router-dom"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { ChevronLeft, ChevronRight, Calendar, CalendarDays, CalendarRange, Clock, Edit, Trash2, Undo2, Repeat, Globe, Download, Gauge, Ban, Flag } from "lucide-react"
 import { ContentPost } from "@/types/content"
+import { PostingSlot, SlotOccurrence } from "@/types/postingSlot"
 import { ContentService } from "@/lib/contentService"
+import { PostingSlotService } from "@/lib/postingSlotService"
+import { CadenceService } from "@/lib/cadenceService"
+import { freeOccurrences } from "@/lib/postingQueue"
+import { fromZonedDate, getTimeZoneAbbreviation, toZonedDate } from "@/lib/timezones"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "@/hooks/use-toast"
-import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isSameMonth, addMonths, subMonths, startOfWeek, endOfWeek } from "date-fns"
+import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isSameMonth, addMonths, startOfWeek, endOfWeek, startOfDay, endOfDay, isBefore, set, addWeeks, addDays } from "date-fns"
 import { cn } from "@/lib/utils"
 import PostDetailModal from "./PostDetailModal"
+import { CalendarTimeGrid } from "./CalendarTimeGrid"
+import { PostingSlotsDialog } from "./PostingSlotsDialog"
+import { CalendarExportDialog } from "./CalendarExportDialog"
+import { FailedPostsAlert } from "./FailedPostsAlert"
+import { CadenceRulesDialog } from "./CadenceRulesDialog"
+import { TimeZoneSelect } from "./TimeZoneSelect"
+import { usePostRescheduling } from "@/hooks/use-post-rescheduling"
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone"
+import { useCampaigns } from "@/hooks/use-campaigns"
+
+type ViewMode = 'calendar' | 'week' | 'day' | 'timeline'
+
+// Shortcuts are ignored while the user is typing
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && !!target.closest('input, textarea, select, [contenteditable="true"]')
+
+const getVisibleRange = (date: Date, viewMode: ViewMode) => {
+  switch (viewMode) {
+    case 'week':
+      return { start: startOfWeek(date), end: endOfWeek(date) }
+    case 'day':
+      return { start: startOfDay(date), end: endOfDay(date) }
+    default:
+      return { start: startOfMonth(date), end: endOfMonth(date) }
+  }
+}
+
+const shiftPeriod = (date: Date, viewMode: ViewMode, amount: number) => {
+  switch (viewMode) {
+    case 'week':
+      return addWeeks(date, amount)
+    case 'day':
+      return addDays(date, amount)
+    default:
+      return addMonths(date, amount)
+  }
+}
+
+const formatPeriod = (date: Date, viewMode: ViewMode) => {
+  switch (viewMode) {
+    case 'week': {
+      const { start, end } = getVisibleRange(date, viewMode)
+      return isSameMonth(start, end)
+        ? `${format(start, 'MMM d')} – ${format(end, 'd, yyyy')}`
+        : `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+    }
+    case 'day':
+      return format(date, 'EEE, MMM d, yyyy')
+    default:
+      return format(date, 'MMMM yyyy')
+  }
+}
 
 export default function ContentCalendarView() {
+  const { timeZone: workspaceTimeZone, isSet: isWorkspaceTimeZoneSet, setWorkspaceTimeZone } = useWorkspaceTimeZone()
+  // The calendar renders in this zone; it follows the workspace zone until the user picks another
+  const [displayTimeZone, setDisplayTimeZone] = useState<string | null>(null)
+  const timeZone = displayTimeZone ?? workspaceTimeZone
+  // Dates below are zoned (see lib/timezones): their local fields read as wall-clock time in timeZone
+  const zonedNow = () => toZonedDate(new Date(), timeZone)
+  const zoned = (value: string | Date) => toZonedDate(new Date(value), timeZone)
+
   const [selectedDate, setSelectedDate] = useState(new Date())
   const [posts, setPosts] = useState<ContentPost[]>([])
   const [loading, setLoading] = useState(true)
-  const [viewMode, setViewMode] = useState<'calendar' | 'timeline'>('calendar')
+  const [viewMode, setViewMode] = useState<ViewMode>('calendar')
   const [selectedPost, setSelectedPost] = useState<ContentPost | null>(null)
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false)
+  const [draggingPostId, setDraggingPostId] = useState<string | null>(null)
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null)
+  const { reschedule, undo, canUndo } = usePostRescheduling(setPosts, timeZone)
+  const [slots, setSlots] = useState<PostingSlot[]>([])
+  const [isSlotsDialogOpen, setIsSlotsDialogOpen] = useState(false)
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
+  const [isCadenceDialogOpen, setIsCadenceDialogOpen] = useState(false)
+  // ?post=<id> deep links (from calendar feed events) open that post
+  const [searchParams, setSearchParams] = useSearchParams()
+  const linkedPostId = searchParams.get('post')
+  // ?campaign=<id> narrows the calendar to one campaign's posts
+  const campaignFilter = searchParams.get('campaign')
+  const { campaigns } = useCampaigns()
+  const queryClient = useQueryClient()
 
   const loadScheduledPosts = async () => {
     try {
       setLoading(true)
-      const startOfMonthDate = startOfMonth(selectedDate)
-      const endOfMonthDate = endOfMonth(selectedDate)
-      const scheduledPosts = await ContentService.getScheduledPosts(startOfMonthDate, endOfMonthDate)
+      const { start, end } = getVisibleRange(selectedDate, viewMode)
+      const scheduledPosts = await ContentService.getScheduledPosts(fromZonedDate(start, timeZone), fromZonedDate(end, timeZone))
       setPosts(scheduledPosts)
     } catch (error) {
       console.error('Error loading scheduled posts:', error)
@@ -40,21 +121,151 @@ export default function ContentCalendarView() {
 
   useEffect(() => {
     loadScheduledPosts()
-  }, [selectedDate])
+  }, [selectedDate, viewMode, timeZone])
+
+  // Edits in the detail modal can move a post in or out of the failed list
+  const handlePostsChanged = () => {
+    loadScheduledPosts()
+    queryClient.invalidateQueries({ queryKey: ['failed-posts'] })
+  }
+
+  // Also re-runs when the zone loads, so the calendar lands on the post's day in that zone
+  useEffect(() => {
+    if (!linkedPostId) return
+    ContentService.getPostById(linkedPostId)
+      .then(post => {
+        if (!post) {
+          toast({ title: "Post not found", description: "It may have been deleted.", variant: "destructive" })
+          return
+        }
+        if (post.scheduled_date) setSelectedDate(toZonedDate(new Date(post.scheduled_date), timeZone))
+        setSelectedPost(post)
+        setIsDetailModalOpen(true)
+      })
+      .catch(error => console.error('Error loading linked post:', error))
+  }, [linkedPostId, timeZone])
+
+  const loadSlots = async () => {
+    try {
+      setSlots(await PostingSlotService.listSlots())
+    } catch (error) {
+      // Slots only add placeholders; the calendar still works without them
+      console.error('Error loading posting slots:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadSlots()
+  }, [])
+
+  // Free slot occurrences from now on, shown as placeholders; slots repeat in the workspace zone
+  const getFreeSlots = (zonedStart: Date, zonedEnd: Date): SlotOccurrence[] => {
+    const now = new Date()
+    const start = fromZonedDate(zonedStart, timeZone)
+    const end = fromZonedDate(zonedEnd, timeZone)
+    if (isBefore(end, now)) return []
+    return freeOccurrences(slots, posts, isBefore(start, now) ? now : start, end, workspaceTimeZone)
+      .map(occurrence => ({ ...occurrence, date: zoned(occurrence.date) }))
+  }
+
+  // Blackout dates are marked on the month grid; the rules themselves are checked when scheduling
+  const { data: blackouts = [] } = useQuery({
+    queryKey: ['blackout-dates'],
+    queryFn: () => CadenceService.listBlackouts(),
+  })
+
+  // Free slots are still computed from every post, since a slot taken by another campaign isn't free
+  const visiblePosts = campaignFilter ? posts.filter(post => post.campaign_id === campaignFilter) : posts
+
+  const setCampaignFilter = (campaignId: string | null) => {
+    setSearchParams(params => {
+      if (campaignId) params.set('campaign', campaignId)
+      else params.delete('campaign')
+      return params
+    }, { replace: true })
+  }
 
   const getPostsForDate = (date: Date): ContentPost[] => {
-    return posts.filter(post => {
+    return visiblePosts.filter(post => {
       if (!post.scheduled_date) return false
-      return isSameDay(new Date(post.scheduled_date), date)
+      return isSameDay(zoned(post.scheduled_date), date)
     })
   }
 
+  // Ctrl/Cmd+Z undoes the last move, unless the user is typing or the detail modal is open
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.key.toLowerCase() !== 'z' || event.shiftKey) return
+      if (isDetailModalOpen || isTypingTarget(event.target)) return
+      if (!canUndo) return
+      event.preventDefault()
+      undo()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [canUndo, undo, isDetailModalOpen])
+
+  // Arrow keys move between periods, T jumps to today, M/W/D/L switch views
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.metaKey || event.ctrlKey || event.altKey) return
+      if (isDetailModalOpen || isTypingTarget(event.target)) return
+      const views: Record<string, ViewMode> = { m: 'calendar', w: 'week', d: 'day', l: 'timeline' }
+      const key = event.key.toLowerCase()
+
+      if (event.key === 'ArrowLeft' || event.key === 'ArrowRight') {
+        event.preventDefault()
+        setSelectedDate(date => shiftPeriod(date, viewMode, event.key === 'ArrowLeft' ? -1 : 1))
+      } else if (key === 't') {
+        setSelectedDate(toZonedDate(new Date(), timeZone))
+      } else if (views[key]) {
+        setViewMode(views[key])
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [viewMode, isDetailModalOpen, timeZone])
+
+  const draggingPost = posts.find(post => post.id === draggingPostId)
+
+  // Dropping on a day keeps the post's time of day
+  const dropTargetFor = (post: ContentPost, day: Date) => {
+    const current = post.scheduled_date ? zoned(post.scheduled_date) : set(day, { hours: 12 })
+    return set(day, { hours: current.getHours(), minutes: current.getMinutes(), seconds: 0, milliseconds: 0 })
+  }
+
+  const handleDragStart = (event: React.DragEvent, post: ContentPost) => {
+    event.dataTransfer.setData('text/plain', post.id)
+    event.dataTransfer.effectAllowed = 'move'
+    setDraggingPostId(post.id)
+  }
+
+  const handleDragEnd = () => {
+    setDraggingPostId(null)
+    setDropTargetKey(null)
+  }
+
+  const handleDragOver = (event: React.DragEvent, key: string, target: Date | null) => {
+    // Not calling preventDefault leaves the browser's "no drop" cursor in place
+    if (!target || isBefore(target, zonedNow())) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'move'
+    if (dropTargetKey !== key) setDropTargetKey(key)
+  }
+
+  const handleDrop = (event: React.DragEvent, target: Date | null) => {
+    event.preventDefault()
+    const post = posts.find(item => item.id === event.dataTransfer.getData('text/plain'))
+    handleDragEnd()
+    if (post && target) reschedule(post, fromZonedDate(target, timeZone))
+  }
+
   const handleDeletePost = async (postId: string) => {
     try {
-      await ContentService.deletePost(postId)
+      await ContentService.trashPost(postId)
       toast({
-        title: "Success",
-        description: "Post deleted successfully.",
+        title: "Moved to trash",
+        description: "Restore it from the Trash in the Post Library.",
       })
       loadScheduledPosts()
     } catch (error) {
@@ -67,6 +278,24 @@ export default function ContentCalendarView() {
     }
   }
 
+  const handleSetWorkspaceTimeZone = async () => {
+    try {
+      await setWorkspaceTimeZone(timeZone)
+      setDisplayTimeZone(null)
+      toast({
+        title: "Workspace timezone updated",
+        description: `New schedules and posting slots now use ${timeZone}.`,
+      })
+    } catch (error) {
+      console.error('Error updating workspace timezone:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update the workspace timezone.",
+        variant: "destructive",
+      })
+    }
+  }
+
   const handleViewPost = (post: ContentPost) => {
     setSelectedPost(post)
     setIsDetailModalOpen(true)
@@ -96,31 +325,66 @@ export default function ContentCalendarView() {
         {/* Calendar Grid */}
         {dateRange.map((date, index) => {
           const dayPosts = getPostsForDate(date)
+          const daySlots = getFreeSlots(startOfDay(date), endOfDay(date))
           const isCurrentMonth = isSameMonth(date, selectedDate)
-          const isToday = isSameDay(date, new Date())
+          const isToday = isSameDay(date, zonedNow())
+          const dayKey = format(date, 'yyyy-MM-dd')
+          const dropTarget = draggingPost ? dropTargetFor(draggingPost, date) : null
+          const isPastDay = isBefore(date, startOfDay(zonedNow()))
+          const dayBlackouts = blackouts.filter(blackout => blackout.date === dayKey)
           
           return (
             <div
               key={index}
+              onDragOver={(event) => handleDragOver(event, dayKey, dropTarget)}
+              onDragLeave={() => dropTargetKey === dayKey && setDropTargetKey(null)}
+              onDrop={(event) => handleDrop(event, dropTarget)}
               className={cn(
-                "min-h-[80px] md:min-h-[120px] p-1 md:p-2 border rounded-lg relative",
+                "min-h-[80px] md:min-h-[120px] p-1 md:p-2 border rounded-lg relative transition-colors",
                 isCurrentMonth ? "bg-card" : "bg-muted/50",
-                isToday && "ring-2 ring-primary"
+                isToday && "ring-2 ring-primary",
+                draggingPost && isPastDay && "opacity-50",
+                dropTargetKey === dayKey && "bg-primary/10 border-primary border-dashed"
               )}
             >
-              <div className={cn(
-                "text-sm font-medium mb-1",
-                isCurrentMonth ? "text-foreground" : "text-muted-foreground",
-                isToday && "text-primary font-bold"
-              )}>
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedDate(date)
+                  setViewMode('day')
+                }}
+                className={cn(
+                  "text-sm font-medium mb-1 hover:underline",
+                  isCurrentMonth ? "text-foreground" : "text-muted-foreground",
+                  isToday && "text-primary font-bold"
+                )}
+              >
                 {format(date, 'd')}
-              </div>
+              </button>
+
+              {dayBlackouts.length > 0 && (
+                <div
+                  className="flex items-center gap-1 text-[10px] text-muted-foreground mb-1 truncate"
+                  title={dayBlackouts.map(blackout => `${blackout.platform || 'All platforms'}${blackout.label ? `: ${blackout.label}` : ''}`).join('\n')}
+                >
+                  <Ban className="h-3 w-3 flex-shrink-0" />
+                  <span className="truncate">{dayBlackouts[0].label || 'Blackout'}</span>
+                </div>
+              )}
               
               <div className="space-y-1">
                 {dayPosts.slice(0, 2).map((post) => (
                   <Popover key={post.id}>
                     <PopoverTrigger asChild>
-                      <div className="text-xs p-1 bg-primary/10 text-primary rounded cursor-pointer hover:bg-primary/20 transition-colors truncate">
+                      <div
+                        draggable
+                        onDragStart={(event) => handleDragStart(event, post)}
+                        onDragEnd={handleDragEnd}
+                        className={cn(
+                          "text-xs p-1 bg-primary/10 text-primary rounded cursor-grab active:cursor-grabbing hover:bg-primary/20 transition-colors truncate",
+                          draggingPostId === post.id && "opacity-40"
+                        )}
+                      >
                         {post.title}
                       </div>
                     </PopoverTrigger>
@@ -155,6 +419,15 @@ export default function ContentCalendarView() {
                     +{dayPosts.length - 2} more
                   </div>
                 )}
+                {dayPosts.length < 2 && daySlots.slice(0, 2 - dayPosts.length).map(({ slot, date: slotDate }) => (
+                  <div
+                    key={`${slot.id}-${slotDate.getTime()}`}
+                    title={`Free ${slot.platform} slot`}
+                    className="hidden md:block text-xs p-1 border border-dashed rounded text-muted-foreground truncate"
+                  >
+                    {format(slotDate, 'HH:mm')} · {slot.platform}
+                  </div>
+                ))}
               </div>
             </div>
           )
@@ -163,8 +436,22 @@ export default function ContentCalendarView() {
     )
   }
 
+  const renderTimeGridView = () => {
+    const { start, end } = getVisibleRange(selectedDate, viewMode)
+    return (
+      <CalendarTimeGrid
+        days={eachDayOfInterval({ start, end })}
+        posts={visiblePosts}
+        timeZone={timeZone}
+        freeSlots={getFreeSlots(start, end)}
+        onReschedule={reschedule}
+        onViewPost={handleViewPost}
+      />
+    )
+  }
+
   const renderTimelineView = () => {
-    const sortedPosts = [...posts].sort((a, b) => {
+    const sortedPosts = [...visiblePosts].sort((a, b) => {
       if (!a.scheduled_date || !b.scheduled_date) return 0
       return new Date(a.scheduled_date).getTime() - new Date(b.scheduled_date).getTime()
     })
@@ -185,7 +472,7 @@ export default function ContentCalendarView() {
                   </p>
                   <div className="flex flex-wrap items-center gap-3 text-sm">
                     <span className="text-muted-foreground">
-                      {post.scheduled_date && format(new Date(post.scheduled_date), 'MMM d, yyyy at h:mm a')}
+                      {post.scheduled_date && `${format(zoned(post.scheduled_date), 'MMM d, yyyy at h:mm a')} ${getTimeZoneAbbreviation(timeZone, new Date(post.scheduled_date))}`}
                     </span>
                     <Badge variant="secondary">{post.content_type.replace('_', ' ')}</Badge>
                   </div>
@@ -266,7 +553,25 @@ export default function ContentCalendarView() {
                   className="flex items-center gap-2"
                 >
                   <Calendar className="h-4 w-4" />
-                  <span className="hidden sm:inline">Calendar</span>
+                  <span className="hidden sm:inline">Month</span>
+                </Button>
+                <Button
+                  variant={viewMode === 'week' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setViewMode('week')}
+                  className="flex items-center gap-2"
+                >
+                  <CalendarRange className="h-4 w-4" />
+                  <span className="hidden sm:inline">Week</span>
+                </Button>
+                <Button
+                  variant={viewMode === 'day' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setViewMode('day')}
+                  className="flex items-center gap-2"
+                >
+                  <CalendarDays className="h-4 w-4" />
+                  <span className="hidden sm:inline">Day</span>
                 </Button>
                 <Button
                   variant={viewMode === 'timeline' ? 'default' : 'outline'}
@@ -279,38 +584,119 @@ export default function ContentCalendarView() {
                 </Button>
               </div>
 
-              {/* Month Navigation */}
+              <Button variant="outline" size="sm" onClick={() => setIsExportDialogOpen(true)} className="flex items-center gap-2 sm:order-last">
+                <Download className="h-4 w-4" />
+                <span className="hidden sm:inline">Export</span>
+              </Button>
+
+              <Button variant="outline" size="sm" onClick={() => setIsCadenceDialogOpen(true)} className="flex items-center gap-2 sm:order-last">
+                <Gauge className="h-4 w-4" />
+                <span className="hidden sm:inline">Cadence</span>
+              </Button>
+
+              <Button variant="outline" size="sm" onClick={() => setIsSlotsDialogOpen(true)} className="flex items-center gap-2 sm:order-last">
+                <Repeat className="h-4 w-4" />
+                <span className="hidden sm:inline">Posting slots</span>
+              </Button>
+
+              {canUndo && (
+                <Button variant="ghost" size="sm" onClick={undo} className="flex items-center gap-2 sm:order-last">
+                  <Undo2 className="h-4 w-4" />
+                  <span className="hidden sm:inline">Undo move</span>
+                </Button>
+              )}
+
+              {/* Period Navigation */}
               <div className="flex items-center gap-2">
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setSelectedDate(subMonths(selectedDate, 1))}
+                  onClick={() => setSelectedDate(shiftPeriod(selectedDate, viewMode, -1))}
+                  title="Previous (←)"
                 >
                   <ChevronLeft className="h-4 w-4" />
                 </Button>
-                <h2 className="text-lg font-semibold min-w-[140px] text-center">
-                  {format(selectedDate, 'MMMM yyyy')}
-                </h2>
+                <button
+                  type="button"
+                  onClick={() => setSelectedDate(zonedNow())}
+                  title="Go to today (T)"
+                  className="text-lg font-semibold min-w-[180px] text-center hover:text-primary transition-colors"
+                >
+                  {formatPeriod(selectedDate, viewMode)}
+                </button>
                 <Button
                   variant="outline"
                   size="sm"
-                  onClick={() => setSelectedDate(addMonths(selectedDate, 1))}
+                  onClick={() => setSelectedDate(shiftPeriod(selectedDate, viewMode, 1))}
+                  title="Next (→)"
                 >
                   <ChevronRight className="h-4 w-4" />
                 </Button>
               </div>
             </div>
+
+            {/* Time Zone */}
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-4 pt-4 border-t">
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Globe className="h-4 w-4" />
+                <span>Showing times in</span>
+              </div>
+              <TimeZoneSelect value={timeZone} onValueChange={setDisplayTimeZone} className="h-9 sm:w-[280px]" />
+              {(timeZone !== workspaceTimeZone || !isWorkspaceTimeZoneSet) && (
+                <Button variant="ghost" size="sm" onClick={handleSetWorkspaceTimeZone}>
+                  Make workspace default
+                </Button>
+              )}
+              {timeZone !== workspaceTimeZone && (
+                <span className="text-xs text-muted-foreground">Workspace default: {workspaceTimeZone}</span>
+              )}
+              <div className="flex items-center gap-2 sm:ml-auto">
+                <Flag className="h-4 w-4 text-muted-foreground" />
+                <Select value={campaignFilter ?? 'all'} onValueChange={(value) => setCampaignFilter(value === 'all' ? null : value)}>
+                  <SelectTrigger className="h-9 sm:w-[200px]" aria-label="Campaign">
+                    <SelectValue placeholder="All campaigns" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+                    <SelectItem value="all">All campaigns</SelectItem>
+                    {campaigns.map(campaign => (
+                      <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
+        <FailedPostsAlert timeZone={timeZone} onViewPost={handleViewPost} onRetried={loadScheduledPosts} />
+
         {/* Calendar/Timeline View */}
         <Card className="border-0 bg-card/50 backdrop-blur-sm shadow-lg">
           <CardContent className="p-4 md:p-6">
-            {viewMode === 'calendar' ? renderCalendarView() : renderTimelineView()}
+            {viewMode === 'calendar' && renderCalendarView()}
+            {(viewMode === 'week' || viewMode === 'day') && renderTimeGridView()}
+            {viewMode === 'timeline' && renderTimelineView()}
           </CardContent>
         </Card>
       </div>
 
+      <PostingSlotsDialog
+        open={isSlotsDialogOpen}
+        onOpenChange={setIsSlotsDialogOpen}
+        slots={slots}
+        onSlotsChange={loadSlots}
+      />
+
+      <CadenceRulesDialog open={isCadenceDialogOpen} onOpenChange={setIsCadenceDialogOpen} />
+
+      <CalendarExportDialog
+        open={isExportDialogOpen}
+        onOpenChange={setIsExportDialogOpen}
+        defaultStart={getVisibleRange(selectedDate, viewMode).start}
+        defaultEnd={getVisibleRange(selectedDate, viewMode).end}
+        timeZone={timeZone}
+      />
+
       {/* Post Detail Modal */}
       <PostDetailModal
         post={selectedPost}
@@ -318,9 +704,13 @@ export default function ContentCalendarView() {
         onClose={() => {
           setIsDetailModalOpen(false)
           setSelectedPost(null)
+          if (linkedPostId) {
+            searchParams.delete('post')
+            setSearchParams(searchParams, { replace: true })
+          }
         }}
-        onUpdate={loadScheduledPosts}
-        onDelete={loadScheduledPosts}
+        onUpdate={handlePostsChanged}
+        onDelete={handlePostsChanged}
       />
     </div>
   )
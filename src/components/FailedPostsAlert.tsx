@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, Loader2, RotateCcw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ContentService } from "@/lib/contentService";
+import { formatScheduledTime } from "@/lib/timezones";
+import { ContentPost } from "@/types/content";
+
+interface FailedPostsAlertProps {
+  timeZone: string;
+  onViewPost: (post: ContentPost) => void;
+  // Called after a post is handed back to the worker, so the calendar can show it again
+  onRetried: () => void;
+}
+
+/**
+ * Posts the publishing worker gave up on, with a way to retry them
+ */
+export function FailedPostsAlert({ timeZone, onViewPost, onRetried }: FailedPostsAlertProps) {
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: failedPosts = [] } = useQuery({
+    queryKey: ["failed-posts"],
+    queryFn: () => ContentService.getPostsByStatus("failed"),
+  });
+
+  const handleRetry = async (post: ContentPost) => {
+    setRetryingId(post.id);
+    try {
+      await ContentService.retryPublish(post.id);
+      queryClient.invalidateQueries({ queryKey: ["failed-posts"] });
+      onRetried();
+      toast({ title: "Publishing retried", description: `"${post.title || "Untitled"}" is back in the publishing queue.` });
+    } catch (error) {
+      console.error("Error retrying publish:", error);
+      toast({ title: "Error", description: "Failed to retry publishing.", variant: "destructive" });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (failedPosts.length === 0) return null;
+
+  return (
+    <Alert variant="destructive" className="mb-6 bg-card/50">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {failedPosts.length} post{failedPosts.length === 1 ? "" : "s"} failed to publish
+      </AlertTitle>
+      <AlertDescription>
+        <div className="divide-y divide-destructive/20 mt-2">
+          {failedPosts.map(post => (
+            <div key={post.id} className="flex items-center justify-between gap-3 py-2">
+              <button type="button" onClick={() => onViewPost(post)} className="min-w-0 text-left hover:underline">
+                <div className="font-medium truncate text-foreground">
+                  {post.platform && <span className="text-muted-foreground">[{post.platform}] </span>}
+                  {post.title || "Untitled"}
+                </div>
+                <div className="text-xs truncate">
+                  {post.scheduled_date && `${formatScheduledTime(new Date(post.scheduled_date), post.scheduled_timezone || timeZone)} · `}
+                  {post.last_publish_error || "Unknown error"}
+                </div>
+              </button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleRetry(post)}
+                disabled={retryingId === post.id}
+                className="gap-2 flex-shrink-0"
+              >
+                {retryingId === post.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                Retry
+              </Button>
+            </div>
+          ))}
+        </div>
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,28 @@
+import { HIGHLIGHT_END, HIGHLIGHT_START } from "@/lib/searchQuery"
+import { cn } from "@/lib/utils"
+
+interface HighlightedSnippetProps {
+  snippet: string
+  className?: string
+}
+
+const HIGHLIGHT_PATTERN = new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_END}`, "g")
+
+export function HighlightedSnippet({ snippet, className }: HighlightedSnippetProps) {
+  // split() with a capture group alternates plain text and matched text
+  const parts = snippet.split(HIGHLIGHT_PATTERN)
+
+  return (
+    <p className={cn("text-sm text-muted-foreground", className)}>
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark key={index} className="bg-primary/20 text-foreground rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </p>
+  )
+}
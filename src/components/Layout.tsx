@@ -7,7 +7,8 @@ const routeTitles: { [key: string]: string } = {
   "/create-post": "Create Post",
   "/lead-magnet": "Lead Magnet AI", 
   "/post-library": "Post Library",
-  "/content-calendar": "Content Calendar"
+  "/content-calendar": "Content Calendar",
+  "/prompt-templates": "Prompt Templates"
 }
 
 interface LayoutProps {
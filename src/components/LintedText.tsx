@@ -0,0 +1,53 @@
+import { useMemo } from "react";
+import { lintPost } from "@/lib/postLinter";
+import { cn } from "@/lib/utils";
+
+interface LintedTextProps {
+  content: string;
+  category?: string;
+  className?: string;
+}
+
+type Segment = { text: string; message?: string; severity?: "error" | "warning" };
+
+// Renders post text with a wavy underline under every range a lint rule flagged
+export function LintedText({ content, category, className }: LintedTextProps) {
+  const segments = useMemo(() => {
+    const marks = lintPost(content, { category })
+      .flatMap(issue => issue.ranges.map(range => ({ ...range, message: issue.message, severity: issue.severity })))
+      .sort((a, b) => a.start - b.start);
+
+    const result: Segment[] = [];
+    let cursor = 0;
+    for (const mark of marks) {
+      // Overlapping ranges keep the first flag
+      if (mark.start < cursor) continue;
+      if (mark.start > cursor) result.push({ text: content.slice(cursor, mark.start) });
+      result.push({ text: content.slice(mark.start, mark.end), message: mark.message, severity: mark.severity });
+      cursor = mark.end;
+    }
+    if (cursor < content.length) result.push({ text: content.slice(cursor) });
+    return result;
+  }, [content, category]);
+
+  return (
+    <div className={cn("whitespace-pre-wrap", className)}>
+      {segments.map((segment, index) =>
+        segment.message ? (
+          <span
+            key={index}
+            title={segment.message}
+            className={cn(
+              "underline decoration-wavy underline-offset-4",
+              segment.severity === "error" ? "decoration-destructive" : "decoration-yellow-500"
+            )}
+          >
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </div>
+  );
+}
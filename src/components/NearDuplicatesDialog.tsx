@@ -0,0 +1,137 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Eye, Loader2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ContentService } from "@/lib/contentService";
+import { DEFAULT_SIMILARITY_THRESHOLD, findNearDuplicatePairs } from "@/lib/similarity";
+import { ContentPost } from "@/types/content";
+import { TextDiffView } from "./TextDiffView";
+
+interface NearDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onViewPost: (post: ContentPost) => void;
+  // Called after a post is moved to the trash from the report
+  onChanged: () => void;
+}
+
+const THRESHOLD_OPTIONS = [0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+
+const pairKey = (first: ContentPost, second: ContentPost) => `${first.id}:${second.id}`;
+
+/**
+ * Library report of post pairs whose content is nearly the same
+ */
+export function NearDuplicatesDialog({ open, onOpenChange, onViewPost, onChanged }: NearDuplicatesDialogProps) {
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [expandedPair, setExpandedPair] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: posts, isLoading, refetch } = useQuery({
+    queryKey: ["similarity-library"],
+    queryFn: () => ContentService.getAllPosts(),
+    enabled: open,
+  });
+
+  const pairs = useMemo(() => (posts ? findNearDuplicatePairs(posts, threshold) : []), [posts, threshold]);
+
+  const handleTrash = async (post: ContentPost) => {
+    try {
+      await ContentService.trashPost(post.id);
+      toast({ title: "Moved to trash", description: `"${post.title || "Untitled Post"}" can be restored from the Trash.` });
+      refetch();
+      onChanged();
+    } catch (error) {
+      console.error("Error moving post to trash:", error);
+      toast({ title: "Error", description: "Failed to delete post.", variant: "destructive" });
+    }
+  };
+
+  const renderPost = (post: ContentPost) => (
+    <div className="min-w-0 flex-1 space-y-1">
+      <div className="truncate font-medium">{post.title || "Untitled Post"}</div>
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Badge variant="outline" className="h-5 text-xs">{post.status}</Badge>
+        {post.platform && <span className="capitalize">{post.platform}</span>}
+      </div>
+      <div className="flex gap-1">
+        <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => onViewPost(post)} aria-label="View post">
+          <Eye className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-destructive hover:text-destructive" onClick={() => handleTrash(post)} aria-label="Move post to trash">
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-hidden flex flex-col bg-popover backdrop-blur-md border shadow-lg">
+        <DialogHeader>
+          <DialogTitle>Near-duplicate Posts</DialogTitle>
+          <DialogDescription>
+            Pairs of posts that share most of their wording. Similarity is the share of three-word phrases the two posts have in common.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-3 text-sm text-muted-foreground">
+          <span>Show pairs at least</span>
+          <Select value={String(threshold)} onValueChange={(value) => setThreshold(Number(value))}>
+            <SelectTrigger className="w-[100px] h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+              {THRESHOLD_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{Math.round(option * 100)}%</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span>similar</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto py-2 pr-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : pairs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              No near-duplicates at this threshold across {posts?.length ?? 0} posts.
+            </p>
+          ) : (
+            <div className="divide-y rounded-lg border text-sm">
+              {pairs.map(({ first, second, similarity }) => {
+                const key = pairKey(first, second);
+                return (
+                  <div key={key} className="space-y-3 p-3">
+                    <div className="flex items-start gap-4">
+                      <Badge variant="secondary" className="mt-0.5 flex-shrink-0">{Math.round(similarity * 100)}%</Badge>
+                      {renderPost(first)}
+                      {renderPost(second)}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex-shrink-0"
+                        onClick={() => setExpandedPair(expandedPair === key ? null : key)}
+                      >
+                        {expandedPair === key ? "Hide diff" : "Diff"}
+                      </Button>
+                    </div>
+                    {expandedPair === key && (
+                      <TextDiffView before={first.content} after={second.content} className="max-h-72 overflow-y-auto" />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
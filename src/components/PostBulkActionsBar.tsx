@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { Archive, CircleDot, Flag, ListPlus, Loader2, RotateCcw, Share2, Tag, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useCampaigns } from "@/hooks/use-campaigns";
+import { useToast } from "@/hooks/use-toast";
+import { CampaignService } from "@/lib/campaignService";
+import { ContentService } from "@/lib/contentService";
+import { PostingSlotService } from "@/lib/postingSlotService";
+import { ContentPost } from "@/types/content";
+import { TagInput } from "./TagInput";
+
+interface PostBulkActionsBarProps {
+  selectedPosts: ContentPost[];
+  // The Trash only offers restore and permanent delete
+  inTrash?: boolean;
+  onClearSelection: () => void;
+  // Called after any bulk change so the library reloads
+  onChanged: () => void;
+}
+
+// Scheduling needs a date per post, so it goes through "Schedule into slots" instead
+const STATUS_OPTIONS: { value: ContentPost['status']; label: string }[] = [
+  { value: 'draft', label: 'Draft' },
+  { value: 'published', label: 'Published' },
+  { value: 'archived', label: 'Archived' },
+];
+
+const PLATFORM_OPTIONS = [
+  { value: 'linkedin', label: 'LinkedIn' },
+  { value: 'twitter', label: 'Twitter' },
+  { value: 'facebook', label: 'Facebook' },
+  { value: 'instagram', label: 'Instagram' },
+];
+
+const plural = (count: number) => `${count} post${count === 1 ? "" : "s"}`;
+
+/**
+ * Floating toolbar for the Post Library selection; every action is one request for all selected posts
+ */
+export function PostBulkActionsBar({ selectedPosts, inTrash = false, onClearSelection, onChanged }: PostBulkActionsBarProps) {
+  const [runningAction, setRunningAction] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState<string[]>([]);
+  const { toast } = useToast();
+  const { campaigns, refreshCampaigns } = useCampaigns();
+
+  const ids = selectedPosts.map(post => post.id);
+  const selectionTags = Array.from(new Set(selectedPosts.flatMap(post => post.tags || []))).sort();
+
+  const run = async (action: string, perform: () => Promise<string>) => {
+    setRunningAction(action);
+    try {
+      const description = await perform();
+      toast({ title: "Bulk update complete", description });
+      onChanged();
+    } catch (error) {
+      console.error(`Error running bulk ${action}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "The bulk action failed.",
+        variant: "destructive",
+      });
+    } finally {
+      setRunningAction(null);
+    }
+  };
+
+  const handleStatus = (status: ContentPost['status']) =>
+    run("status", async () => {
+      // Same rule as the detail modal: only scheduled posts keep a schedule
+      await ContentService.updatePosts(ids, { status, scheduled_date: null, scheduled_timezone: null });
+      return `${plural(ids.length)} set to ${status}.`;
+    });
+
+  const handlePlatform = (platform: string, label: string) =>
+    run("platform", async () => {
+      await ContentService.updatePosts(ids, { platform });
+      return `${plural(ids.length)} moved to ${label}.`;
+    });
+
+  const handleTags = (change: "add" | "remove", tags: string[]) =>
+    run("tags", async () => {
+      await ContentService.updatePostsTags(ids, { [change]: tags });
+      if (change === "add") setTagInput([]);
+      return `${change === "add" ? "Added" : "Removed"} ${tags.map(tag => `"${tag}"`).join(", ")} ${change === "add" ? "to" : "from"} ${plural(ids.length)}.`;
+    });
+
+  const handleCampaign = (campaignId: string | null, name?: string) =>
+    run("campaign", async () => {
+      await CampaignService.assignPosts(ids, campaignId);
+      refreshCampaigns();
+      return campaignId ? `Added ${plural(ids.length)} to "${name}".` : `Removed ${plural(ids.length)} from their campaign.`;
+    });
+
+  const handleSchedule = () =>
+    run("schedule", async () => {
+      const { scheduled, unscheduled } = await PostingSlotService.queuePosts(selectedPosts);
+      if (scheduled.length === 0) {
+        throw new Error("No free posting slots for the selected platforms. Add slots from the Content Calendar.");
+      }
+      return unscheduled.length > 0
+        ? `Scheduled ${plural(scheduled.length)}; ${plural(unscheduled.length)} found no free slot.`
+        : `Scheduled ${plural(scheduled.length)} into the next free slots.`;
+    });
+
+  const handleTrash = () =>
+    run("trash", async () => {
+      await ContentService.trashPosts(ids);
+      onClearSelection();
+      return `Moved ${plural(ids.length)} to the trash.`;
+    });
+
+  const handleRestore = () =>
+    run("restore", async () => {
+      await ContentService.restorePosts(ids);
+      onClearSelection();
+      return `Restored ${plural(ids.length)}.`;
+    });
+
+  const handleDeletePermanently = async () => {
+    if (!confirm(`Permanently delete ${plural(ids.length)}? This cannot be undone.`)) return;
+    await run("delete", async () => {
+      await ContentService.deletePostsPermanently(ids);
+      onClearSelection();
+      return `Permanently deleted ${plural(ids.length)}.`;
+    });
+  };
+
+  if (selectedPosts.length === 0) return null;
+
+  const isBusy = runningAction !== null;
+  const spinnerOr = (action: string, icon: JSX.Element) =>
+    runningAction === action ? <Loader2 className="h-4 w-4 animate-spin" /> : icon;
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-4xl">
+      <div className="flex flex-wrap items-center gap-2 rounded-xl border bg-popover/95 backdrop-blur-md shadow-2xl px-4 py-3 futuristic-border">
+        <span className="text-sm font-medium mr-2">{selectedPosts.length} selected</span>
+
+        {inTrash ? (
+          <>
+            <Button variant="outline" size="sm" onClick={handleRestore} disabled={isBusy} className="gap-2">
+              {spinnerOr("restore", <RotateCcw className="h-4 w-4" />)}
+              Restore
+            </Button>
+
+            <Button variant="outline" size="sm" onClick={handleDeletePermanently} disabled={isBusy} className="gap-2 text-destructive hover:text-destructive">
+              {spinnerOr("delete", <Trash2 className="h-4 w-4" />)}
+              Delete forever
+            </Button>
+          </>
+        ) : (
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isBusy} className="gap-2">
+                  {spinnerOr("status", <CircleDot className="h-4 w-4" />)}
+                  Status
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="bg-popover backdrop-blur-md border shadow-lg">
+                {STATUS_OPTIONS.map(option => (
+                  <DropdownMenuItem key={option.value} onClick={() => handleStatus(option.value)}>
+                    {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isBusy} className="gap-2">
+                  {spinnerOr("platform", <Share2 className="h-4 w-4" />)}
+                  Platform
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="bg-popover backdrop-blur-md border shadow-lg">
+                {PLATFORM_OPTIONS.map(option => (
+                  <DropdownMenuItem key={option.value} onClick={() => handlePlatform(option.value, option.label)}>
+                    {option.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isBusy} className="gap-2">
+                  {spinnerOr("tags", <Tag className="h-4 w-4" />)}
+                  Tags
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-80 space-y-3 bg-popover backdrop-blur-md border shadow-lg">
+                <div className="space-y-2">
+                  <TagInput value={tagInput} onChange={setTagInput} placeholder="Tags to add or remove" />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={() => handleTags("add", tagInput)} disabled={isBusy || tagInput.length === 0}>
+                      Add to all
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => handleTags("remove", tagInput)} disabled={isBusy || tagInput.length === 0}>
+                      Remove from all
+                    </Button>
+                  </div>
+                </div>
+                {selectionTags.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-xs text-muted-foreground">Click a tag to remove it from the selection</p>
+                    <div className="flex flex-wrap gap-1">
+                      {selectionTags.map(tag => (
+                        <Badge
+                          key={tag}
+                          variant="secondary"
+                          className="cursor-pointer"
+                          onClick={() => !isBusy && handleTags("remove", [tag])}
+                        >
+                          {tag} ×
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </PopoverContent>
+            </Popover>
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={isBusy} className="gap-2">
+                  {spinnerOr("campaign", <Flag className="h-4 w-4" />)}
+                  Campaign
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent className="bg-popover backdrop-blur-md border shadow-lg">
+                {campaigns.length === 0 ? (
+                  <DropdownMenuItem disabled>No campaigns yet</DropdownMenuItem>
+                ) : (
+                  campaigns.map(campaign => (
+                    <DropdownMenuItem key={campaign.id} onClick={() => handleCampaign(campaign.id, campaign.name)}>
+                      {campaign.name}
+                    </DropdownMenuItem>
+                  ))
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => handleCampaign(null)}>Remove from campaign</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+
+            <Button variant="outline" size="sm" onClick={handleSchedule} disabled={isBusy} className="gap-2">
+              {spinnerOr("schedule", <ListPlus className="h-4 w-4" />)}
+              Schedule into slots
+            </Button>
+
+            <Button variant="outline" size="sm" onClick={() => handleStatus('archived')} disabled={isBusy} className="gap-2">
+              <Archive className="h-4 w-4" />
+              Archive
+            </Button>
+
+            <Button variant="outline" size="sm" onClick={handleTrash} disabled={isBusy} className="gap-2 text-destructive hover:text-destructive">
+              {spinnerOr("trash", <Trash2 className="h-4 w-4" />)}
+              Move to trash
+            </Button>
+          </>
+        )}
+
+        <Button variant="ghost" size="sm" onClick={onClearSelection} className="ml-auto" aria-label="Clear selection">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
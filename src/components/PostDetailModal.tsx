@@ -1,6 +1,15 @@
-import { useState, useEffect } from "react";
-import { ContentPost } from "@/types/content";
+import { useState, useEffect, useRef } from "react";
+import { ContentPost, EditHistoryEntry } from "@/types/content";
 import { ContentService } from "@/lib/contentService";
+import { PostingSlotService } from "@/lib/postingSlotService";
+import { combineDateAndTime, formatInTimeZone, formatScheduledTime, getTimeZoneAbbreviation, toZonedDate } from "@/lib/timezones";
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone";
+import { useCadenceCheck } from "@/hooks/use-cadence-check";
+import { useTags } from "@/hooks/use-tags";
+import { TimeZoneSelect } from "./TimeZoneSelect";
+import { CadenceWarnings } from "./CadenceWarnings";
+import { TagBadge } from "./TagBadge";
+import { TagInput } from "./TagInput";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,9 +19,14 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
-import { Copy, Calendar as CalendarIcon, Clock, Edit, Save, X, Trash2 } from "lucide-react";
-import { format } from "date-fns";
+import { Copy, Calendar as CalendarIcon, Clock, Edit, Save, X, Trash2, History, ListPlus, RotateCcw, ExternalLink, AlertTriangle, Flag } from "lucide-react";
+import { Link } from "react-router-dom";
+import { format, startOfDay } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
+import { useCampaigns } from "@/hooks/use-campaigns";
+import { PostHistoryPanel } from "./PostHistoryPanel";
+import { PostLintPanel } from "./PostLintPanel";
+import { LEAD_MAGNET_CATEGORY } from "@/lib/promptutils";
 // Force rebuild to fix Dialog reference issue
 
 interface PostDetailModalProps {
@@ -25,34 +39,70 @@ interface PostDetailModalProps {
 
 export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDelete }: PostDetailModalProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [editedPost, setEditedPost] = useState<Partial<ContentPost>>({});
   const [currentPost, setCurrentPost] = useState<ContentPost | null>(null);
   const [scheduledDate, setScheduledDate] = useState<Date>();
   const [scheduledTime, setScheduledTime] = useState("");
+  // Date and time fields are wall-clock values in this zone
+  const [scheduleTimeZone, setScheduleTimeZone] = useState<string | null>(null);
+  const { timeZone: workspaceTimeZone } = useWorkspaceTimeZone();
+  const postTimeZone = scheduleTimeZone ?? workspaceTimeZone;
+  const contentRef = useRef<HTMLTextAreaElement>(null);
   const { toast } = useToast();
+  const { tagColor } = useTags();
+  const { campaigns, refreshCampaigns } = useCampaigns();
 
   useEffect(() => {
     if (post) {
+      setShowHistory(false);
+      setIsEditing(false);
       setCurrentPost(post);
       setEditedPost({
         title: post.title,
         content: post.content,
         status: post.status,
         platform: post.platform,
-        tags: post.tags
+        tags: post.tags,
+        campaign_id: post.campaign_id ?? null
       });
-      if (post.scheduled_date) {
-        const date = new Date(post.scheduled_date);
-        setScheduledDate(date);
-        setScheduledTime(format(date, "HH:mm"));
-      } else {
-        setScheduledDate(undefined);
-        setScheduledTime("");
-      }
     }
   }, [post]);
 
+  // The date and time fields are filled in a pinned zone, so saving them unchanged keeps the instant.
+  // Posts scheduled before zones were stored fall back to the workspace zone, which may still be
+  // loading; refill whenever the form isn't being edited so they pick up the loaded zone.
+  useEffect(() => {
+    if (!currentPost || isEditing) return;
+    const zone = currentPost.scheduled_timezone ?? workspaceTimeZone;
+    setScheduleTimeZone(zone);
+    if (currentPost.scheduled_date) {
+      const date = toZonedDate(new Date(currentPost.scheduled_date), zone);
+      setScheduledDate(date);
+      setScheduledTime(format(date, "HH:mm"));
+    } else {
+      setScheduledDate(undefined);
+      setScheduledTime("");
+    }
+  }, [currentPost, workspaceTimeZone, isEditing]);
+
+  const { check: cadenceCheck } = useCadenceCheck(
+    post && isEditing && editedPost.status === 'scheduled' && editedPost.platform && scheduledDate && scheduledTime
+      ? { postId: post.id, platform: editedPost.platform, date: combineDateAndTime(scheduledDate, scheduledTime, postTimeZone) }
+      : null
+  );
+
+  const applySuggestedTime = (date: Date) => {
+    const zoned = toZonedDate(date, postTimeZone);
+    setScheduledDate(startOfDay(zoned));
+    setScheduledTime(format(zoned, "HH:mm"));
+  };
+
+  const lintCategory = currentPost?.content_type === 'lead_magnet'
+    ? LEAD_MAGNET_CATEGORY
+    : currentPost?.source_data?.category;
+
   const handleSave = async () => {
     if (!post || !editedPost.title || !editedPost.content) {
       toast({
@@ -78,9 +128,7 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
       let finalScheduledDate: string | null = null;
       
       if (editedPost.status === 'scheduled' && scheduledDate && scheduledTime) {
-        const [hours, minutes] = scheduledTime.split(':').map(Number);
-        const combinedDate = new Date(scheduledDate);
-        combinedDate.setHours(hours, minutes, 0, 0);
+        const combinedDate = combineDateAndTime(scheduledDate, scheduledTime, postTimeZone);
         
         // Validate future date
         if (combinedDate <= new Date()) {
@@ -103,21 +151,44 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
         status: editedPost.status!,
         platform: editedPost.platform,
         tags: editedPost.tags,
+        campaign_id: editedPost.campaign_id,
         scheduled_date: finalScheduledDate,
+        scheduled_timezone: finalScheduledDate ? postTimeZone : undefined,
         updated_at: new Date().toISOString()
       };
       setCurrentPost(updatedStatePost);
 
+      const basePost = currentPost || post;
+      const changedFields = [
+        editedPost.title !== basePost.title && "title",
+        editedPost.content !== basePost.content && "content",
+        editedPost.status !== basePost.status && "status",
+        editedPost.platform !== basePost.platform && "platform",
+        (editedPost.tags || []).join(",") !== (basePost.tags || []).join(",") && "tags",
+        editedPost.campaign_id !== (basePost.campaign_id ?? null) && "campaign",
+        (finalScheduledDate !== (basePost.scheduled_date ? new Date(basePost.scheduled_date).toISOString() : null) ||
+          (finalScheduledDate && postTimeZone !== basePost.scheduled_timezone)) && "schedule"
+      ].filter(Boolean);
+      const changes = changedFields.length > 0 ? `Updated ${changedFields.join(", ")}` : "Saved without changes";
+
       const updateData = {
         title: editedPost.title,
-        content: editedPost.content,
         status: editedPost.status,
         platform: editedPost.platform,
         tags: editedPost.tags,
-        scheduled_date: finalScheduledDate
+        campaign_id: editedPost.campaign_id,
+        scheduled_date: finalScheduledDate,
+        scheduled_timezone: finalScheduledDate ? postTimeZone : null,
+        // Rescheduling a failed post gives the publishing worker a fresh set of attempts
+        ...(basePost.status === 'failed' && editedPost.status === 'scheduled' && {
+          publish_attempts: 0,
+          last_publish_error: null,
+          next_publish_attempt_at: null
+        })
       };
 
-      const updatedPost = await ContentService.updatePost(post.id, updateData);
+      // Every save is recorded as a revision in edit_history
+      const updatedPost = await ContentService.addEditToHistory(post.id, changes, editedPost.content, updateData);
       
       // Final update with API response data
       setCurrentPost(updatedPost);
@@ -128,6 +199,7 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
       });
 
       setIsEditing(false);
+      if (changedFields.includes("campaign") || changedFields.includes("status")) refreshCampaigns();
       onUpdate?.();
     } catch (error) {
       toast({
@@ -140,17 +212,45 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
     }
   };
 
-  const handleDelete = async () => {
+  const handleRestore = async (revision: EditHistoryEntry) => {
     if (!post) return;
 
-    if (!confirm("Are you sure you want to delete this post?")) return;
+    setIsLoading(true);
+    try {
+      const restoredPost = await ContentService.restoreRevision(post.id, revision);
+      setCurrentPost(restoredPost);
+      setEditedPost(prev => ({
+        ...prev,
+        title: restoredPost.title,
+        content: restoredPost.content
+      }));
+
+      toast({
+        title: "Version restored",
+        description: `Restored the version from ${format(new Date(revision.timestamp), "PPP 'at' HH:mm")}`,
+      });
+
+      onUpdate?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to restore version",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!post) return;
 
     setIsLoading(true);
     try {
-      await ContentService.deletePost(post.id);
+      await ContentService.trashPost(post.id);
       toast({
-        title: "Success",
-        description: "Post deleted successfully",
+        title: "Moved to trash",
+        description: "Restore it from the Trash in the Post Library.",
       });
       onDelete?.();
       onClose();
@@ -165,6 +265,58 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
     }
   };
 
+  const handleAddToQueue = async () => {
+    if (!currentPost) return;
+
+    setIsLoading(true);
+    try {
+      const { post: queued, occurrence } = await PostingSlotService.queuePost(currentPost);
+      setCurrentPost(queued);
+      setEditedPost(prev => ({ ...prev, status: queued.status, platform: queued.platform }));
+      const zoned = toZonedDate(occurrence.date, occurrence.timeZone);
+      setScheduleTimeZone(occurrence.timeZone);
+      setScheduledDate(zoned);
+      setScheduledTime(format(zoned, "HH:mm"));
+      toast({
+        title: "Added to queue",
+        description: `Scheduled for the ${occurrence.slot.platform} slot on ${formatScheduledTime(occurrence.date, occurrence.timeZone)}`,
+      });
+      onUpdate?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add post to the queue",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRetryPublish = async () => {
+    if (!currentPost) return;
+
+    setIsLoading(true);
+    try {
+      const retried = await ContentService.retryPublish(currentPost.id);
+      setCurrentPost(retried);
+      setEditedPost(prev => ({ ...prev, status: retried.status }));
+      toast({
+        title: "Publishing retried",
+        description: "The post is back in the publishing queue",
+      });
+      onUpdate?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to retry publishing",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleCopy = async () => {
     if (!post?.content) return;
     
@@ -188,6 +340,7 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
       case 'published': return 'default';
       case 'scheduled': return 'secondary';
       case 'draft': return 'outline';
+      case 'failed': return 'destructive';
       case 'archived': return 'destructive';
       default: return 'outline';
     }
@@ -201,7 +354,7 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
         <DialogHeader className="flex-shrink-0">
           <div className="flex items-center justify-between">
             <DialogTitle className="text-xl">
-              {isEditing ? "Edit Post" : currentPost?.title || "Untitled Post"}
+              {isEditing ? "Edit Post" : showHistory ? "Version History" : currentPost?.title || "Untitled Post"}
             </DialogTitle>
             <Badge variant={getStatusBadgeVariant(currentPost?.status || post.status)}>
               {currentPost?.status || post.status}
@@ -210,7 +363,9 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
         </DialogHeader>
 
         <div className="flex-1 overflow-y-auto space-y-6 pr-2">
-          {isEditing ? (
+          {showHistory && !isEditing && currentPost ? (
+            <PostHistoryPanel post={currentPost} onRestore={handleRestore} isRestoring={isLoading} />
+          ) : isEditing ? (
             <div className="space-y-4">
               <div>
                 <Label htmlFor="title">Title</Label>
@@ -226,11 +381,19 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
                 <Label htmlFor="content">Content</Label>
                 <Textarea
                   id="content"
+                  ref={contentRef}
                   value={editedPost.content || ""}
                   onChange={(e) => setEditedPost(prev => ({ ...prev, content: e.target.value }))}
                   placeholder="Enter post content"
                   className="min-h-[200px] resize-none"
                 />
+                <PostLintPanel
+                  content={editedPost.content || ""}
+                  category={lintCategory}
+                  onApplyFix={(content) => setEditedPost(prev => ({ ...prev, content }))}
+                  textareaRef={contentRef}
+                  className="mt-3"
+                />
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -254,6 +417,8 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
                       <SelectItem value="draft">Draft</SelectItem>
                       <SelectItem value="scheduled">Scheduled</SelectItem>
                       <SelectItem value="published">Published</SelectItem>
+                      {/* Only the publishing worker sets this status */}
+                      {editedPost.status === 'failed' && <SelectItem value="failed" disabled>Failed</SelectItem>}
                       <SelectItem value="archived">Archived</SelectItem>
                     </SelectContent>
                   </Select>
@@ -345,18 +510,44 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
                 </div>
               </div>
 
+              {editedPost.status === 'scheduled' && (
+                <div>
+                  <Label htmlFor="schedule-timezone">Time Zone</Label>
+                  <TimeZoneSelect id="schedule-timezone" value={postTimeZone} onValueChange={setScheduleTimeZone} />
+                </div>
+              )}
+
+              {editedPost.status === 'scheduled' && (
+                <CadenceWarnings check={cadenceCheck} timeZone={postTimeZone} onPickSuggestion={applySuggestedTime} />
+              )}
+
               <div>
-                <Label htmlFor="tags">Tags (comma-separated)</Label>
-                <Input
+                <Label htmlFor="tags">Tags</Label>
+                <TagInput
                   id="tags"
-                  value={editedPost.tags?.join(", ") || ""}
-                  onChange={(e) => setEditedPost(prev => ({ 
-                    ...prev, 
-                    tags: e.target.value.split(",").map(tag => tag.trim()).filter(Boolean)
-                  }))}
+                  value={editedPost.tags || []}
+                  onChange={(tags) => setEditedPost(prev => ({ ...prev, tags }))}
                   placeholder="social media, marketing, content"
                 />
               </div>
+
+              <div>
+                <Label htmlFor="campaign">Campaign</Label>
+                <Select
+                  value={editedPost.campaign_id ?? "none"}
+                  onValueChange={(value) => setEditedPost(prev => ({ ...prev, campaign_id: value === "none" ? null : value }))}
+                >
+                  <SelectTrigger id="campaign">
+                    <SelectValue placeholder="No campaign" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No campaign</SelectItem>
+                    {campaigns.map(campaign => (
+                      <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
           ) : (
             <div className="space-y-6">
@@ -379,26 +570,76 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
                   <h3 className="text-sm font-medium mb-2">Tags</h3>
                   <div className="flex flex-wrap gap-2">
                     {currentPost.tags.map((tag, index) => (
-                      <Badge key={index} variant="secondary">
-                        {tag}
-                      </Badge>
+                      <TagBadge key={index} name={tag} color={tagColor(tag)} />
                     ))}
                   </div>
                 </div>
               )}
 
+              {currentPost?.campaign_id && (
+                <div>
+                  <h3 className="text-sm font-medium mb-1">Campaign</h3>
+                  <Link
+                    to={`/campaigns/${currentPost.campaign_id}`}
+                    onClick={onClose}
+                    className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                  >
+                    <Flag className="h-3.5 w-3.5" />
+                    {campaigns.find(campaign => campaign.id === currentPost.campaign_id)?.name ?? "View campaign"}
+                  </Link>
+                </div>
+              )}
+
               {currentPost?.scheduled_date && (
                 <div>
                   <h3 className="text-sm font-medium mb-1">Scheduled For</h3>
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
                     <CalendarIcon className="h-4 w-4" />
-                    {format(new Date(currentPost.scheduled_date), "PPP")}
+                    {formatInTimeZone(new Date(currentPost.scheduled_date), postTimeZone, "PPP")}
                     <Clock className="h-4 w-4 ml-2" />
-                    {format(new Date(currentPost.scheduled_date), "HH:mm")}
+                    {formatInTimeZone(new Date(currentPost.scheduled_date), postTimeZone, "HH:mm")}
+                    <span className="text-xs">{getTimeZoneAbbreviation(postTimeZone, new Date(currentPost.scheduled_date))}</span>
                   </div>
                 </div>
               )}
 
+              {currentPost?.status === 'published' && (currentPost.published_at || currentPost.external_url) && (
+                <div>
+                  <h3 className="text-sm font-medium mb-1">Published</h3>
+                  <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                    {currentPost.published_at && format(new Date(currentPost.published_at), "PPP 'at' HH:mm")}
+                    {currentPost.external_url && (
+                      <a
+                        href={currentPost.external_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-1 text-primary hover:underline"
+                      >
+                        View on {currentPost.platform || "platform"}
+                        <ExternalLink className="h-3.5 w-3.5" />
+                      </a>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {currentPost?.last_publish_error && (currentPost.status === 'failed' || currentPost.status === 'scheduled') && (
+                <div className="rounded-lg border border-destructive/50 p-3 text-sm">
+                  <h3 className="font-medium mb-1 flex items-center gap-2 text-destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    {currentPost.status === 'failed'
+                      ? `Publishing failed after ${currentPost.publish_attempts || 1} attempt${currentPost.publish_attempts === 1 ? "" : "s"}`
+                      : `Publishing attempt ${currentPost.publish_attempts || 1} failed`}
+                  </h3>
+                  <p className="text-muted-foreground">{currentPost.last_publish_error}</p>
+                  {currentPost.status === 'scheduled' && currentPost.next_publish_attempt_at && (
+                    <p className="text-muted-foreground mt-1">
+                      Retrying at {formatInTimeZone(new Date(currentPost.next_publish_attempt_at), postTimeZone, "HH:mm")}
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div>
                 <h3 className="text-sm font-medium mb-1">Created</h3>
                 <p className="text-sm text-muted-foreground">
@@ -439,6 +680,22 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
               <Trash2 className="h-4 w-4" />
               Delete
             </Button>
+            {!isEditing && (
+              <Button
+                variant={showHistory ? "secondary" : "outline"}
+                size="sm"
+                onClick={() => setShowHistory(!showHistory)}
+                className="flex items-center gap-2"
+              >
+                <History className="h-4 w-4" />
+                History
+                {(currentPost?.edit_history?.length || 0) > 0 && (
+                  <Badge variant="secondary" className="px-1.5 py-0 text-xs">
+                    {currentPost?.edit_history.length}
+                  </Badge>
+                )}
+              </Button>
+            )}
           </div>
 
           <div className="flex gap-2">
@@ -462,6 +719,28 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
               </>
             ) : (
               <div className="flex gap-2">
+                {(currentPost?.status || post.status) === 'draft' && (
+                  <Button
+                    variant="outline"
+                    onClick={handleAddToQueue}
+                    disabled={isLoading}
+                    className="flex items-center gap-2"
+                  >
+                    <ListPlus className="h-4 w-4" />
+                    Add to Queue
+                  </Button>
+                )}
+                {(currentPost?.status || post.status) === 'failed' && (
+                  <Button
+                    variant="outline"
+                    onClick={handleRetryPublish}
+                    disabled={isLoading}
+                    className="flex items-center gap-2"
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Retry Publishing
+                  </Button>
+                )}
                 {(currentPost?.status || post.status) !== 'scheduled' && (
                   <Button
                     variant="outline"
@@ -476,7 +755,10 @@ export default function PostDetailModal({ post, isOpen, onClose, onUpdate, onDel
                   </Button>
                 )}
                 <Button
-                  onClick={() => setIsEditing(true)}
+                  onClick={() => {
+                    setShowHistory(false);
+                    setIsEditing(true);
+                  }}
                   className="flex items-center gap-2"
                 >
                   <Edit className="h-4 w-4" />
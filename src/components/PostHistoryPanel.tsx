@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { ContentPost, EditHistoryEntry } from "@/types/content";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { TextDiffView } from "./TextDiffView";
+
+interface PostHistoryPanelProps {
+  post: ContentPost;
+  onRestore: (revision: EditHistoryEntry) => void;
+  isRestoring?: boolean;
+}
+
+type CompareTarget = "previous" | "original";
+
+export function PostHistoryPanel({ post, onRestore, isRestoring }: PostHistoryPanelProps) {
+  // Newest first; indexes below refer to this reversed list
+  const revisions = [...(post.edit_history || [])].reverse();
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [compareTo, setCompareTo] = useState<CompareTarget>("previous");
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [post.edit_history?.length]);
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <History className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No revisions yet</h3>
+        <p className="text-muted-foreground">Every save from now on is recorded here</p>
+      </div>
+    );
+  }
+
+  const selected = revisions[selectedIndex];
+  const previous = revisions[selectedIndex + 1];
+  const isCurrent = selected.content === post.content && (selected.title ?? post.title) === post.title;
+  const baseline = compareTo === "original"
+    ? post.original_content ?? revisions[revisions.length - 1].content
+    : previous?.content ?? "";
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+      <div className="space-y-1 md:max-h-[55vh] md:overflow-y-auto pr-1">
+        {revisions.map((revision, index) => (
+          <button
+            key={`${revision.timestamp}-${index}`}
+            type="button"
+            onClick={() => setSelectedIndex(index)}
+            className={cn(
+              "w-full text-left rounded-lg border p-3 transition-colors",
+              index === selectedIndex ? "border-primary bg-primary/10" : "hover:bg-muted/50"
+            )}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium">
+                {format(new Date(revision.timestamp), "MMM d, HH:mm")}
+              </span>
+              {index === 0 && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Latest</Badge>}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{revision.changes}</p>
+            {revision.restored_from && (
+              <p className="text-xs text-primary mt-1">
+                From {format(new Date(revision.restored_from), "MMM d, HH:mm")}
+              </p>
+            )}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-4 min-w-0">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <ToggleGroup
+            type="single"
+            value={compareTo}
+            onValueChange={(value) => value && setCompareTo(value as CompareTarget)}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="previous" size="sm" disabled={!previous}>
+              vs previous
+            </ToggleGroupItem>
+            <ToggleGroupItem value="original" size="sm">
+              vs original
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onRestore(selected)}
+            disabled={isRestoring || isCurrent}
+            className="flex items-center gap-2"
+          >
+            <RotateCcw className="h-4 w-4" />
+            {isCurrent ? "Current version" : "Restore this version"}
+          </Button>
+        </div>
+
+        {selected.title && (
+          <p className="text-sm">
+            <span className="text-muted-foreground">Title: </span>
+            {selected.title}
+          </p>
+        )}
+
+        {compareTo === "previous" && !previous ? (
+          <div className="bg-muted p-4 rounded-lg whitespace-pre-wrap text-sm leading-relaxed">
+            {selected.content}
+          </div>
+        ) : (
+          <TextDiffView before={baseline} after={selected.content} />
+        )}
+      </div>
+    </div>
+  );
+}
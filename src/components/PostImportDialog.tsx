@@ -0,0 +1,309 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle, CheckCircle2, Copy, Loader2, Upload, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone";
+import { ContentService } from "@/lib/contentService";
+import { ColumnMapping, guessColumnMapping, IMPORT_FIELDS, ImportField, ImportRow, ImportSource, parseImportFile, validateImport } from "@/lib/postImport";
+
+interface PostImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type ImportStep = "upload" | "map" | "review";
+
+const UNMAPPED = "__none__";
+
+const rowTitle = (row: ImportRow) => row.post?.title || row.post?.content.slice(0, 60) || "Untitled";
+
+export function PostImportDialog({ open, onOpenChange, onImported }: PostImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [fileName, setFileName] = useState("");
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [keepSchedules, setKeepSchedules] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const { toast } = useToast();
+  const { timeZone } = useWorkspaceTimeZone();
+
+  // Duplicate detection compares against everything already in the library
+  const { data: existingPosts, isLoading: isLoadingExisting } = useQuery({
+    queryKey: ["post-import-existing"],
+    queryFn: () => ContentService.getAllPosts(),
+    enabled: open && step !== "upload",
+  });
+
+  const rows = useMemo(
+    () => (source && existingPosts && step === "review" ? validateImport(source, mapping, existingPosts, { timeZone, keepSchedules }) : []),
+    [source, mapping, existingPosts, step, timeZone, keepSchedules]
+  );
+  const validRows = rows.filter(row => row.post);
+  const duplicateRows = validRows.filter(row => row.duplicateOf);
+  const invalidRows = rows.filter(row => !row.post);
+  const rowsToImport = validRows.filter(row => includeDuplicates || !row.duplicateOf);
+  // Rows scheduled in the file for a date that is still ahead
+  const hasFutureSchedules = validRows.some(row => row.post!.status === "scheduled" || row.demoted === "unscheduled");
+
+  const reset = () => {
+    setStep("upload");
+    setFileName("");
+    setSource(null);
+    setMapping({});
+    setFileError(null);
+    setIncludeDuplicates(false);
+    setKeepSchedules(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileError(null);
+    try {
+      const parsed = parseImportFile(file.name, await file.text());
+      if (parsed.records.length === 0) {
+        throw new Error("The file has no posts in it.");
+      }
+      setFileName(file.name);
+      setSource(parsed);
+      setMapping(guessColumnMapping(parsed.columns));
+      // Our own exports already use the post field names
+      setStep(parsed.isContentHubExport ? "review" : "map");
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : "The file could not be read.");
+    }
+  };
+
+  const updateMapping = (field: ImportField, column: string) =>
+    setMapping(prev => ({ ...prev, [field]: column === UNMAPPED ? undefined : column }));
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      const imported = await ContentService.importPosts(rowsToImport.map(row => row.post!));
+      const skipped = rows.length - imported.length;
+      toast({
+        title: "Import complete",
+        description: `Imported ${imported.length} post${imported.length === 1 ? "" : "s"}${skipped > 0 ? `; skipped ${skipped} row${skipped === 1 ? "" : "s"}` : ""}.`,
+      });
+      onImported();
+      handleOpenChange(false);
+    } catch (error) {
+      console.error("Error importing posts:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import posts.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const sampleValue = (column: string | undefined) => {
+    if (!column || !source) return "";
+    const value = source.records.find(record => record[column] !== undefined && record[column] !== "")?.[column];
+    const text = typeof value === "string" ? value : JSON.stringify(value ?? "");
+    return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-hidden flex flex-col bg-popover backdrop-blur-md border shadow-lg">
+        <DialogHeader>
+          <DialogTitle>Import Posts</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a JSON export or a CSV file. Nothing is saved until you confirm the import."}
+            {step === "map" && `Match the columns in ${fileName} to post fields.`}
+            {step === "review" && `Check the ${rows.length} row${rows.length === 1 ? "" : "s"} from ${fileName} before importing.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto py-2 pr-2">
+          {step === "upload" && (
+            <div className="space-y-3">
+              <Label
+                htmlFor="import-file"
+                className="flex flex-col items-center justify-center gap-2 rounded-lg border border-dashed p-8 cursor-pointer hover:bg-muted/50"
+              >
+                <Upload className="h-8 w-8 text-muted-foreground" />
+                <span className="text-sm font-medium">Choose a .json or .csv file</span>
+                <span className="text-xs text-muted-foreground">JSON exports from the Post Library keep history and source data</span>
+              </Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".json,.csv,application/json,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+              {fileError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <XCircle className="h-4 w-4 flex-shrink-0" />
+                  {fileError}
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === "map" && source && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-[160px_1fr_1fr] gap-3 text-xs font-medium text-muted-foreground">
+                <span>Post field</span>
+                <span>Column</span>
+                <span>First value</span>
+              </div>
+              {IMPORT_FIELDS.map(({ field, label, ...rest }) => (
+                <div key={field} className="grid grid-cols-[160px_1fr_1fr] gap-3 items-center">
+                  <Label className="text-sm">
+                    {label}
+                    {"required" in rest && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select value={mapping[field] ?? UNMAPPED} onValueChange={(column) => updateMapping(field, column)}>
+                    <SelectTrigger className="h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+                      <SelectItem value={UNMAPPED}>Don't import</SelectItem>
+                      {source.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="text-xs text-muted-foreground truncate">{sampleValue(mapping[field])}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {step === "review" && (
+            isLoadingExisting ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="secondary" className="gap-1">
+                    <CheckCircle2 className="h-3 w-3" />
+                    {validRows.length - duplicateRows.length} ready
+                  </Badge>
+                  {duplicateRows.length > 0 && (
+                    <Badge variant="outline" className="gap-1">
+                      <Copy className="h-3 w-3" />
+                      {duplicateRows.length} duplicate{duplicateRows.length === 1 ? "" : "s"}
+                    </Badge>
+                  )}
+                  {invalidRows.length > 0 && (
+                    <Badge variant="destructive" className="gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      {invalidRows.length} with errors
+                    </Badge>
+                  )}
+                </div>
+
+                {duplicateRows.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="include-duplicates"
+                      checked={includeDuplicates}
+                      onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+                    />
+                    <Label htmlFor="include-duplicates" className="text-sm">Import duplicates anyway</Label>
+                  </div>
+                )}
+
+                {hasFutureSchedules && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="keep-schedules"
+                      checked={keepSchedules}
+                      onCheckedChange={(checked) => setKeepSchedules(checked === true)}
+                    />
+                    <Label htmlFor="keep-schedules" className="text-sm">
+                      Keep future schedules (otherwise scheduled posts come in as drafts and won't be published)
+                    </Label>
+                  </div>
+                )}
+
+                <div className="divide-y rounded-lg border text-sm">
+                  {rows.map(row => (
+                    <div key={row.rowNumber} className="flex gap-3 px-3 py-2">
+                      <span className="w-14 flex-shrink-0 text-xs text-muted-foreground pt-0.5">
+                        {source?.format === "csv" ? "Line" : "Item"} {row.rowNumber}
+                      </span>
+                      <div className="min-w-0 flex-1">
+                        {row.post ? (
+                          <>
+                            <div className="truncate font-medium">{rowTitle(row)}</div>
+                            {row.duplicateOf && (
+                              <div className="text-xs text-amber-600 dark:text-amber-400">
+                                Same content as {row.duplicateOf.source === "library" ? "a post in the library" : "an earlier row"}
+                                {row.duplicateOf.title ? ` ("${row.duplicateOf.title}")` : ""}
+                              </div>
+                            )}
+                            {row.demoted && (
+                              <div className="text-xs text-muted-foreground">
+                                {row.demoted === "overdue"
+                                  ? "Scheduled date has passed; imported as a draft"
+                                  : "Scheduled in the file; imported as a draft"}
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          <ul className="space-y-0.5 text-xs text-destructive">
+                            {row.errors.map(error => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                      {row.post && (
+                        <Badge variant="outline" className="h-5 flex-shrink-0 text-xs">{row.post.status}</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )
+          )}
+        </div>
+
+        {step !== "upload" && (
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => (step === "review" && !source?.isContentHubExport ? setStep("map") : reset())} disabled={isImporting}>
+              Back
+            </Button>
+            {step === "map" ? (
+              <Button onClick={() => setStep("review")} disabled={!mapping.content}>
+                Review rows
+              </Button>
+            ) : (
+              <Button onClick={handleImport} disabled={isImporting || isLoadingExisting || rowsToImport.length === 0} className="gap-2">
+                {isImporting && <Loader2 className="h-4 w-4 animate-spin" />}
+                Import {rowsToImport.length} post{rowsToImport.length === 1 ? "" : "s"}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,73 +1,178 @@
-import { useState, useEffect } from "react"
-import { Search, MoreHorizontal, Copy, Edit, Trash2, FileText, MessageCircle, Eye, Calendar as CalendarIcon } from "lucide-react"
+import { useState, useEffect, useRef } from "react"
+import { useSearchParams } from "react-router-dom"
+import { keepPreviousData, useInfiniteQuery, useQuery, useQueryClient } from "@tanstack/react-query"
+import { Search, MoreHorizontal, Copy, Edit, Trash2, FileText, MessageCircle, Eye, Loader2, HelpCircle, Calendar as CalendarIcon, RotateCcw, ArrowLeft, Download, Upload, CopyCheck, Tags } from "lucide-react"
 import { ContentPost } from "@/types/content"
+import { PostLibraryFilters } from "@/types/savedView"
 import { ContentService } from "@/lib/contentService"
+import { downloadBlob, exportPosts, PostExportFormat } from "@/lib/postExport"
+import { DEFAULT_TRASH_RETENTION_DAYS, WorkspaceSettingsService } from "@/lib/workspaceSettingsService"
+import { useDebounce } from "@/hooks/use-debounce"
+import { useTags } from "@/hooks/use-tags"
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone"
+import { SEARCH_SYNTAX_HELP } from "@/lib/searchQuery"
+import { countActiveFilters, defaultSortFor, filtersFromSearchParams, filtersToListParams, filtersToSearchParams, SORT_OPTIONS } from "@/lib/libraryFilters"
+import { formatInTimeZone, getBrowserTimeZone } from "@/lib/timezones"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { toast } from "@/hooks/use-toast"
-import { format } from "date-fns"
+import { addDays, differenceInCalendarDays, format } from "date-fns"
 import { cn } from "@/lib/utils"
 import PostDetailModal from "./PostDetailModal"
+import { HighlightedSnippet } from "./HighlightedSnippet"
+import { PostBulkActionsBar } from "./PostBulkActionsBar"
+import { PostImportDialog } from "./PostImportDialog"
+import { NearDuplicatesDialog } from "./NearDuplicatesDialog"
+import { PostLibraryFiltersPanel } from "./PostLibraryFiltersPanel"
+import { SavedViewsMenu } from "./SavedViewsMenu"
+import { TagBadge } from "./TagBadge"
+import { TagCloud } from "./TagCloud"
+import { TagManagerDialog } from "./TagManagerDialog"
+
+const TRASH_RETENTION_KEY = ["workspace-settings", "trash-retention"]
+const RETENTION_OPTIONS = [7, 14, 30, 60, 90]
+
+const EXPORT_FORMATS: { value: PostExportFormat; label: string }[] = [
+  { value: "json", label: "JSON (full backup)" },
+  { value: "csv", label: "CSV" },
+  { value: "markdown", label: "Markdown (.zip)" }
+]
 
 export default function PostLibraryContent() {
-  const [posts, setPosts] = useState<ContentPost[]>([])
-  const [filteredPosts, setFilteredPosts] = useState<ContentPost[]>([])
-  const [loading, setLoading] = useState(true)
-  const [searchQuery, setSearchQuery] = useState("")
-  const [statusFilter, setStatusFilter] = useState<string>("all")
-  const [typeFilter, setTypeFilter] = useState<string>("all")
+  // Filters live in the URL so a filtered library can be bookmarked, shared and restored with back/forward
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = filtersFromSearchParams(searchParams)
+  const showTrash = !!filters.trash
+  const [searchQuery, setSearchQuery] = useState(filters.search ?? "")
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false)
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
   const [selectedPost, setSelectedPost] = useState<ContentPost | null>(null)
   const [isDetailModalOpen, setIsDetailModalOpen] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  const queryClient = useQueryClient()
+  const { timeZone } = useWorkspaceTimeZone()
+  const { tags: knownTags, tagColor, refreshTags } = useTags()
+  const debouncedSearch = useDebounce(searchQuery)
+  // The search text last written to or read from the URL, so typing and URL changes don't echo back
+  const syncedSearch = useRef(filters.search ?? "")
 
-  const loadPosts = async () => {
-    try {
-      setLoading(true)
-      const allPosts = await ContentService.getAllPosts()
-      setPosts(allPosts)
-      setFilteredPosts(allPosts)
-    } catch (error) {
-      console.error('Error loading posts:', error)
+  const updateFilters = (changes: Partial<PostLibraryFilters>) =>
+    setSearchParams(prev => filtersToSearchParams({ ...filtersFromSearchParams(prev), ...changes }), { replace: true })
+
+  const applyFilters = (next: PostLibraryFilters) =>
+    setSearchParams(filtersToSearchParams(next), { replace: true })
+
+  useEffect(() => {
+    const search = debouncedSearch.trim()
+    if (search === syncedSearch.current) return
+    syncedSearch.current = search
+    setSearchParams(prev => filtersToSearchParams({ ...filtersFromSearchParams(prev), search: search || undefined }), { replace: true })
+  }, [debouncedSearch, setSearchParams])
+
+  // Back/forward and saved views change the search in the URL; mirror it into the input
+  const urlSearch = filters.search ?? ""
+  useEffect(() => {
+    if (urlSearch === syncedSearch.current) return
+    syncedSearch.current = urlSearch
+    setSearchQuery(urlSearch)
+  }, [urlSearch])
+
+  const listParams = filtersToListParams(filters, timeZone)
+
+  const toggleTagFilter = (name: string) => {
+    const current = filters.tags ?? []
+    const next = current.some(tag => tag.toLowerCase() === name.toLowerCase())
+      ? current.filter(tag => tag.toLowerCase() !== name.toLowerCase())
+      : [...current, name]
+    updateFilters({ tags: next.length > 0 ? next : undefined })
+  }
+
+  // Keep the tag filter pointing at tags that were renamed, merged or deleted in the tag manager
+  const handleTagsReplaced = (names: string[], replacement: string | null) => {
+    const replaced = new Set(names.map(name => name.toLowerCase()))
+    const current = filters.tags ?? []
+    if (current.some(tag => replaced.has(tag.toLowerCase()))) {
+      const next = Array.from(new Set(current.flatMap(tag =>
+        replaced.has(tag.toLowerCase()) ? (replacement ? [replacement] : []) : [tag]
+      )))
+      updateFilters({ tags: next.length > 0 ? next : undefined })
+    }
+    loadPosts()
+  }
+
+  const {
+    data,
+    isLoading: loading,
+    isError,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: ['post-library', listParams],
+    queryFn: ({ pageParam }) => ContentService.listPosts({ ...listParams, cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    placeholderData: keepPreviousData
+  })
+
+  const { data: retentionDays = DEFAULT_TRASH_RETENTION_DAYS } = useQuery({
+    queryKey: TRASH_RETENTION_KEY,
+    queryFn: () => WorkspaceSettingsService.getTrashRetentionDays(),
+    staleTime: 5 * 60 * 1000
+  })
+
+  const filteredPosts = data?.pages.flatMap(page => page.posts) ?? []
+  const totalCount = data?.pages[0]?.totalCount ?? null
+  const highlights: Record<string, string> = Object.assign({}, ...(data?.pages.map(page => page.highlights || {}) ?? []))
+  const isSearching = !!listParams.search
+  const selectedPosts = filteredPosts.filter(post => selectedIds.has(post.id))
+  const allLoadedSelected = filteredPosts.length > 0 && selectedPosts.length === filteredPosts.length
+  const listKey = JSON.stringify(listParams)
+
+  // A selection only makes sense within the list it was made in
+  useEffect(() => {
+    setSelectedIds(new Set())
+  }, [listKey])
+
+  useEffect(() => {
+    if (isError) {
       toast({
         title: "Error",
         description: "Failed to load posts. Please try again.",
         variant: "destructive",
       })
-    } finally {
-      setLoading(false)
     }
-  }
+  }, [isError])
 
+  // Infinite scroll: fetch the next page when the sentinel below the grid comes into view
   useEffect(() => {
-    loadPosts()
-  }, [])
+    const node = loadMoreRef.current
+    if (!node || !hasNextPage) return
 
-  useEffect(() => {
-    let filtered = posts
-
-    // Apply search filter
-    if (searchQuery.trim()) {
-      filtered = filtered.filter(post => 
-        (post.title || '').toLowerCase().includes(searchQuery.toLowerCase()) ||
-        post.content.toLowerCase().includes(searchQuery.toLowerCase())
-      )
-    }
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage()
+      }
+    }, { rootMargin: "200px" })
 
-    // Apply status filter
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(post => post.status === statusFilter)
-    }
+    observer.observe(node)
+    return () => observer.disconnect()
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage])
 
-    // Apply type filter
-    if (typeFilter !== "all") {
-      filtered = filtered.filter(post => post.content_type === typeFilter)
-    }
-
-    setFilteredPosts(filtered)
-  }, [posts, searchQuery, statusFilter, typeFilter])
+  // Post changes can change tag usage counts too
+  const loadPosts = () => {
+    queryClient.invalidateQueries({ queryKey: ['post-library'] })
+    refreshTags()
+  }
 
   const handleCopyContent = async (content: string) => {
     try {
@@ -86,17 +191,97 @@ export default function PostLibraryContent() {
     }
   }
 
+  const toggleSelected = (postId: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev)
+      if (checked) next.add(postId)
+      else next.delete(postId)
+      return next
+    })
+  }
+
+  const toggleSelectAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(filteredPosts.map(post => post.id)) : new Set())
+  }
+
+  // Exports the selection when there is one, otherwise every post matching the filters
+  const handleExport = async (exportFormat: PostExportFormat) => {
+    setIsExporting(true)
+    try {
+      const posts = selectedPosts.length > 0 ? selectedPosts : await ContentService.listAllPosts(listParams)
+      if (posts.length === 0) {
+        toast({
+          title: "Nothing to export",
+          description: "No posts match the current filters.",
+        })
+        return
+      }
+      const { blob, extension } = exportPosts(posts, exportFormat)
+      downloadBlob(blob, `posts-${format(new Date(), 'yyyy-MM-dd')}.${extension}`)
+      toast({
+        title: "Export ready",
+        description: `Exported ${posts.length} post${posts.length === 1 ? "" : "s"}.`,
+      })
+    } catch (error) {
+      console.error('Error exporting posts:', error)
+      toast({
+        title: "Error",
+        description: "Failed to export posts. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
   const handleViewPost = (post: ContentPost) => {
     setSelectedPost(post)
     setIsDetailModalOpen(true)
   }
 
-  const handleDeletePost = async (postId: string) => {
+  const handleTrashPost = async (postId: string) => {
+    try {
+      await ContentService.trashPost(postId)
+      toast({
+        title: "Moved to trash",
+        description: `It will be permanently deleted after ${retentionDays} days.`,
+      })
+      loadPosts()
+    } catch (error) {
+      console.error('Error moving post to trash:', error)
+      toast({
+        title: "Error",
+        description: "Failed to delete post. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRestorePost = async (postId: string) => {
     try {
-      await ContentService.deletePost(postId)
+      await ContentService.restorePosts([postId])
       toast({
         title: "Success",
-        description: "Post deleted successfully.",
+        description: "Post restored.",
+      })
+      loadPosts()
+    } catch (error) {
+      console.error('Error restoring post:', error)
+      toast({
+        title: "Error",
+        description: "Failed to restore post. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleDeletePermanently = async (postId: string) => {
+    if (!confirm("Permanently delete this post? This cannot be undone.")) return
+    try {
+      await ContentService.deletePostsPermanently([postId])
+      toast({
+        title: "Success",
+        description: "Post permanently deleted.",
       })
       loadPosts()
     } catch (error) {
@@ -109,6 +294,48 @@ export default function PostLibraryContent() {
     }
   }
 
+  const handleEmptyTrash = async () => {
+    if (!confirm("Permanently delete every post in the trash? This cannot be undone.")) return
+    try {
+      await ContentService.emptyTrash()
+      toast({
+        title: "Success",
+        description: "Trash emptied.",
+      })
+      loadPosts()
+    } catch (error) {
+      console.error('Error emptying trash:', error)
+      toast({
+        title: "Error",
+        description: "Failed to empty the trash. Please try again.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRetentionChange = async (value: string) => {
+    try {
+      const days = parseInt(value, 10)
+      await WorkspaceSettingsService.setTrashRetentionDays(days)
+      queryClient.setQueryData(TRASH_RETENTION_KEY, days)
+    } catch (error) {
+      console.error('Error updating trash retention:', error)
+      toast({
+        title: "Error",
+        description: "Failed to update trash retention.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  // The Trash sorts by deletion time; that sort means nothing for live posts
+  const toggleTrash = () => {
+    updateFilters({ trash: !showTrash || undefined, sort: undefined })
+  }
+
+  const daysUntilPurge = (post: ContentPost) =>
+    Math.max(0, differenceInCalendarDays(addDays(new Date(post.deleted_at!), retentionDays), new Date()))
+
   const handleDuplicatePost = async (postId: string) => {
     try {
       await ContentService.duplicatePost(postId)
@@ -132,6 +359,7 @@ export default function PostLibraryContent() {
       case 'published': return 'default'
       case 'scheduled': return 'secondary'
       case 'draft': return 'outline'
+      case 'failed': return 'destructive'
       case 'archived': return 'destructive'
       default: return 'outline'
     }
@@ -158,7 +386,8 @@ export default function PostLibraryContent() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-background/80 data-grid bg-noise">
-      <div className="container max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Extra bottom padding keeps the last row clear of the bulk actions bar */}
+      <div className={cn("container max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8", selectedPosts.length > 0 && "pb-28")}>
         {/* Header Section */}
         <div className="relative overflow-hidden mb-8">
           <div className="relative overflow-hidden z-0">
@@ -167,9 +396,49 @@ export default function PostLibraryContent() {
             Post Library
           </h1>
           <div className="h-px bg-gradient-to-r from-primary to-transparent mb-4"></div>
-          <p className="text-lg text-muted-foreground">
-            Manage and organize all your content posts
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-lg text-muted-foreground">
+              {showTrash ? "Deleted posts can be restored until they are purged" : "Manage and organize all your content posts"}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <SavedViewsMenu filters={filters} onApply={applyFilters} />
+              {!showTrash && (
+                <>
+                  <Button variant="outline" onClick={() => setIsDuplicatesOpen(true)} className="gap-2 futuristic-border">
+                    <CopyCheck className="h-4 w-4" />
+                    Duplicates
+                  </Button>
+                  <Button variant="outline" onClick={() => setIsTagManagerOpen(true)} className="gap-2 futuristic-border">
+                    <Tags className="h-4 w-4" />
+                    Tags
+                  </Button>
+                  <Button variant="outline" onClick={() => setIsImportOpen(true)} className="gap-2 futuristic-border">
+                    <Upload className="h-4 w-4" />
+                    Import
+                  </Button>
+                </>
+              )}
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" disabled={isExporting} className="gap-2 futuristic-border">
+                    {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                    {selectedPosts.length > 0 ? `Export ${selectedPosts.length} selected` : "Export"}
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end" className="bg-popover backdrop-blur-md border shadow-lg">
+                  {EXPORT_FORMATS.map(option => (
+                    <DropdownMenuItem key={option.value} onClick={() => handleExport(option.value)}>
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button variant="outline" onClick={toggleTrash} className="gap-2 futuristic-border">
+                {showTrash ? <ArrowLeft className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                {showTrash ? "Back to posts" : "Trash"}
+              </Button>
+            </div>
+          </div>
         </div>
 
         {/* Main Content */}
@@ -181,15 +450,30 @@ export default function PostLibraryContent() {
                 <div className="relative flex-1">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
                   <Input
-                    placeholder="Search posts..."
+                    placeholder='Search posts... ("exact phrase", prefix*, -exclude)'
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-10 h-11 futuristic-border"
+                    className="pl-10 pr-10 h-11 futuristic-border"
                   />
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <HelpCircle className="absolute right-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4 cursor-help" />
+                    </TooltipTrigger>
+                    <TooltipContent align="end" className="max-w-xs">
+                      <div className="space-y-1 text-xs">
+                        {SEARCH_SYNTAX_HELP.map(({ example, description }) => (
+                          <div key={example} className="flex justify-between gap-4">
+                            <code className="font-mono">{example}</code>
+                            <span className="text-muted-foreground">{description}</span>
+                          </div>
+                        ))}
+                      </div>
+                    </TooltipContent>
+                  </Tooltip>
                 </div>
                 
                 <div className="flex flex-col sm:flex-row gap-3 lg:gap-4">
-                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                  <Select value={filters.status ?? "all"} onValueChange={(value) => updateFilters({ status: value === "all" ? undefined : value as ContentPost['status'] })}>
                     <SelectTrigger className="w-full sm:w-[160px] h-11 futuristic-border">
                       <SelectValue placeholder="Status" />
                     </SelectTrigger>
@@ -198,11 +482,12 @@ export default function PostLibraryContent() {
                       <SelectItem value="draft">Draft</SelectItem>
                       <SelectItem value="published">Published</SelectItem>
                       <SelectItem value="scheduled">Scheduled</SelectItem>
+                      <SelectItem value="failed">Failed</SelectItem>
                       <SelectItem value="archived">Archived</SelectItem>
                     </SelectContent>
                   </Select>
 
-                  <Select value={typeFilter} onValueChange={setTypeFilter}>
+                  <Select value={filters.content_type ?? "all"} onValueChange={(value) => updateFilters({ content_type: value === "all" ? undefined : value as ContentPost['content_type'] })}>
                     <SelectTrigger className="w-full sm:w-[160px] h-11 futuristic-border">
                       <SelectValue placeholder="Type" />
                     </SelectTrigger>
@@ -212,20 +497,110 @@ export default function PostLibraryContent() {
                       <SelectItem value="lead_magnet">Lead Magnet</SelectItem>
                     </SelectContent>
                   </Select>
+
+                  <Select value={filters.platform ?? "all"} onValueChange={(value) => updateFilters({ platform: value === "all" ? undefined : value })}>
+                    <SelectTrigger className="w-full sm:w-[160px] h-11 futuristic-border">
+                      <SelectValue placeholder="Platform" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover backdrop-blur-md border shadow-lg futuristic-border">
+                      <SelectItem value="all">All Platforms</SelectItem>
+                      <SelectItem value="linkedin">LinkedIn</SelectItem>
+                      <SelectItem value="twitter">Twitter</SelectItem>
+                      <SelectItem value="facebook">Facebook</SelectItem>
+                      <SelectItem value="instagram">Instagram</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={filters.sort ?? defaultSortFor(showTrash)} onValueChange={(value) => updateFilters({ sort: value })} disabled={isSearching}>
+                    <SelectTrigger className="w-full sm:w-[180px] h-11 futuristic-border">
+                      {isSearching ? <span>Best match</span> : <SelectValue placeholder="Sort" />}
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover backdrop-blur-md border shadow-lg futuristic-border">
+                      {SORT_OPTIONS.filter(option => !option.trashOnly || showTrash).map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <PostLibraryFiltersPanel
+                    filters={filters}
+                    activeCount={countActiveFilters(filters)}
+                    onChange={updateFilters}
+                    onClear={() => applyFilters({ search: filters.search, sort: filters.sort, trash: filters.trash })}
+                  />
                 </div>
               </div>
+              {!showTrash && knownTags.length > 0 && (
+                <div className="mt-4 border-t pt-4">
+                  <TagCloud tags={knownTags} selected={filters.tags ?? []} onToggle={toggleTagFilter} />
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          {showTrash && (
+            <Card className="border-0 bg-card/50 backdrop-blur-sm shadow-lg">
+              <CardContent className="p-4 flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                  <span>Posts in the trash are permanently deleted after</span>
+                  <Select value={String(retentionDays)} onValueChange={handleRetentionChange}>
+                    <SelectTrigger className="w-[110px] h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+                      {RETENTION_OPTIONS.map(days => (
+                        <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleEmptyTrash}
+                  disabled={filteredPosts.length === 0}
+                  className="gap-2 text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Empty trash
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {totalCount !== null && filteredPosts.length > 0 && (
+            <div className="flex items-center gap-3 text-sm text-muted-foreground">
+              <Checkbox
+                id="select-all-posts"
+                checked={allLoadedSelected ? true : selectedPosts.length > 0 ? "indeterminate" : false}
+                onCheckedChange={(checked) => toggleSelectAll(checked === true)}
+                aria-label="Select all loaded posts"
+              />
+              <label htmlFor="select-all-posts" className="cursor-pointer">
+                {selectedPosts.length > 0
+                  ? `${selectedPosts.length} of ${filteredPosts.length} loaded posts selected`
+                  : `Showing ${filteredPosts.length} of ${totalCount} posts`}
+              </label>
+            </div>
+          )}
+
           {/* Posts List */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredPosts.map((post) => (
               <Card 
                 key={post.id} 
-                className="border-0 bg-card/50 backdrop-blur-sm shadow-lg animate-data-pulse"
+                className={cn(
+                  "border-0 bg-card/50 backdrop-blur-sm shadow-lg animate-data-pulse",
+                  selectedIds.has(post.id) && "ring-2 ring-primary"
+                )}
               >
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                  <div className="flex items-center gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Checkbox
+                      checked={selectedIds.has(post.id)}
+                      onCheckedChange={(checked) => toggleSelected(post.id, checked === true)}
+                      aria-label={`Select ${post.title || 'Untitled Post'}`}
+                    />
                     <div className="text-primary flex-shrink-0">
                       {getTypeIcon(post.content_type)}
                     </div>
@@ -245,53 +620,87 @@ export default function PostLibraryContent() {
                       </Button>
                     </DropdownMenuTrigger>
                     <DropdownMenuContent align="end" className="bg-popover backdrop-blur-md border shadow-lg">
-                      <DropdownMenuItem onClick={(e) => {
-                        e.stopPropagation()
-                        handleCopyContent(post.content)
-                      }}>
-                        <Copy className="mr-2 h-4 w-4" />
-                        Copy Content
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={(e) => {
-                        e.stopPropagation()
-                        handleViewPost(post)
-                      }}>
-                        <Edit className="mr-2 h-4 w-4" />
-                        Edit
-                      </DropdownMenuItem>
-                      <DropdownMenuItem onClick={(e) => {
-                        e.stopPropagation()
-                        handleDuplicatePost(post.id)
-                      }}>
-                        <Copy className="mr-2 h-4 w-4" />
-                        Duplicate
-                      </DropdownMenuItem>
-                      <DropdownMenuSeparator />
-                      <DropdownMenuItem 
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          handleDeletePost(post.id)
-                        }}
-                        className="text-destructive"
-                      >
-                        <Trash2 className="mr-2 h-4 w-4" />
-                        Delete
-                      </DropdownMenuItem>
+                      {showTrash ? (
+                        <>
+                          <DropdownMenuItem onClick={(e) => {
+                            e.stopPropagation()
+                            handleRestorePost(post.id)
+                          }}>
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Restore
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleDeletePermanently(post.id)
+                            }}
+                            className="text-destructive"
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete forever
+                          </DropdownMenuItem>
+                        </>
+                      ) : (
+                        <>
+                          <DropdownMenuItem onClick={(e) => {
+                            e.stopPropagation()
+                            handleCopyContent(post.content)
+                          }}>
+                            <Copy className="mr-2 h-4 w-4" />
+                            Copy Content
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={(e) => {
+                            e.stopPropagation()
+                            handleViewPost(post)
+                          }}>
+                            <Edit className="mr-2 h-4 w-4" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={(e) => {
+                            e.stopPropagation()
+                            handleDuplicatePost(post.id)
+                          }}>
+                            <Copy className="mr-2 h-4 w-4" />
+                            Duplicate
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem 
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              handleTrashPost(post.id)
+                            }}
+                            className="text-destructive"
+                          >
+                            <Trash2 className="mr-2 h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </CardHeader>
                 <CardContent className="pt-0">
-                  <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
-                    {post.content}
-                  </p>
+                  {highlights[post.id] ? (
+                    <HighlightedSnippet snippet={highlights[post.id]} className="line-clamp-3 mb-3" />
+                  ) : (
+                    <p className="text-sm text-muted-foreground line-clamp-3 mb-3">
+                      {post.content}
+                    </p>
+                  )}
                   <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
                     <Badge variant={getStatusBadgeVariant(post.status)}>
                       {post.status}
                     </Badge>
                     <span>Created {format(new Date(post.created_at), 'MMM d, yyyy')}</span>
+                    {post.deleted_at && (
+                      <span className="text-destructive">
+                        Deleted {format(new Date(post.deleted_at), 'MMM d')} · purged in {daysUntilPurge(post)} days
+                      </span>
+                    )}
                     {post.scheduled_date && (
                       <span className="text-primary font-medium">
-                        Scheduled {format(new Date(post.scheduled_date), 'MMM d, yyyy')}
+                        Scheduled {formatInTimeZone(new Date(post.scheduled_date), post.scheduled_timezone ?? getBrowserTimeZone(), 'MMM d, yyyy')}
                       </span>
                     )}
                     {post.platform && (
@@ -300,40 +709,74 @@ export default function PostLibraryContent() {
                     {post.tags && post.tags.length > 0 && (
                       <div className="flex flex-wrap gap-1">
                         {post.tags.map((tag, idx) => (
-                          <Badge key={idx} variant="secondary" className="px-1 py-0 text-xs">
-                            {tag}
-                          </Badge>
+                          <TagBadge key={idx} name={tag} color={tagColor(tag)} className="px-1 py-0 text-xs" />
                         ))}
                       </div>
                     )}
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleViewPost(post)
-                    }}
-                    className="mt-4 w-full justify-center"
-                  >
-                    <Eye className="mr-2 h-4 w-4" />
-                    View Details
-                  </Button>
+                  {showTrash ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleRestorePost(post.id)
+                      }}
+                      className="mt-4 w-full justify-center"
+                    >
+                      <RotateCcw className="mr-2 h-4 w-4" />
+                      Restore
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleViewPost(post)
+                      }}
+                      className="mt-4 w-full justify-center"
+                    >
+                      <Eye className="mr-2 h-4 w-4" />
+                      View Details
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             ))}
           </div>
 
+          {/* Infinite scroll sentinel */}
+          {hasNextPage && (
+            <div ref={loadMoreRef} className="flex justify-center">
+              <Button
+                variant="outline"
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="futuristic-border"
+              >
+                {isFetchingNextPage ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Loading...
+                  </>
+                ) : (
+                  "Load more"
+                )}
+              </Button>
+            </div>
+          )}
+
           {/* Empty State */}
           {filteredPosts.length === 0 && (
             <Card className="border-0 bg-card/50 backdrop-blur-sm shadow-lg">
               <CardContent className="text-center py-12">
                 <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                <h3 className="text-lg font-semibold mb-2">No posts found</h3>
+                <h3 className="text-lg font-semibold mb-2">{showTrash ? "Trash is empty" : "No posts found"}</h3>
                 <p className="text-muted-foreground">
-                  {searchQuery || statusFilter !== "all" || typeFilter !== "all"
+                  {searchQuery || countActiveFilters(filters) > 0
                     ? "Try adjusting your search or filters"
-                    : "Create your first post to get started"}
+                    : showTrash ? "Deleted posts show up here" : "Create your first post to get started"}
                 </p>
               </CardContent>
             </Card>
@@ -352,6 +795,35 @@ export default function PostLibraryContent() {
         onUpdate={loadPosts}
         onDelete={loadPosts}
       />
+
+      <NearDuplicatesDialog
+        open={isDuplicatesOpen}
+        onOpenChange={setIsDuplicatesOpen}
+        onViewPost={(post) => {
+          setIsDuplicatesOpen(false)
+          handleViewPost(post)
+        }}
+        onChanged={loadPosts}
+      />
+
+      <TagManagerDialog
+        open={isTagManagerOpen}
+        onOpenChange={setIsTagManagerOpen}
+        onTagsReplaced={handleTagsReplaced}
+      />
+
+      <PostImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        onImported={loadPosts}
+      />
+
+      <PostBulkActionsBar
+        selectedPosts={selectedPosts}
+        inTrash={showTrash}
+        onClearSelection={() => setSelectedIds(new Set())}
+        onChanged={loadPosts}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { SlidersHorizontal } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCampaigns } from "@/hooks/use-campaigns";
+import { POST_CATEGORIES, POST_TONES } from "@/lib/postOptions";
+import { PostLibraryFilters } from "@/types/savedView";
+import { TagInput } from "./TagInput";
+
+interface PostLibraryFiltersPanelProps {
+  filters: PostLibraryFilters;
+  activeCount: number;
+  onChange: (changes: Partial<PostLibraryFilters>) => void;
+  onClear: () => void;
+}
+
+const ANY = "__any__";
+
+/**
+ * "Filters" popover with the Post Library filters that don't fit in the toolbar
+ */
+export function PostLibraryFiltersPanel({ filters, activeCount, onChange, onClear }: PostLibraryFiltersPanelProps) {
+  const tags = filters.tags ?? [];
+  const { campaigns } = useCampaigns();
+
+  const renderDateRange = (label: string, from: keyof PostLibraryFilters, to: keyof PostLibraryFilters) => (
+    <div className="space-y-2">
+      <Label className="text-sm">{label}</Label>
+      <div className="flex items-center gap-2">
+        <Input
+          type="date"
+          aria-label={`${label} from`}
+          value={(filters[from] as string) ?? ""}
+          max={(filters[to] as string) || undefined}
+          onChange={(e) => onChange({ [from]: e.target.value || undefined })}
+          className="h-9"
+        />
+        <span className="text-xs text-muted-foreground">to</span>
+        <Input
+          type="date"
+          aria-label={`${label} to`}
+          value={(filters[to] as string) ?? ""}
+          min={(filters[from] as string) || undefined}
+          onChange={(e) => onChange({ [to]: e.target.value || undefined })}
+          className="h-9"
+        />
+      </div>
+    </div>
+  );
+
+  const renderOptionSelect = (label: string, key: "category" | "tone", options: string[]) => (
+    <div className="space-y-2">
+      <Label className="text-sm">{label}</Label>
+      <Select value={filters[key] ?? ANY} onValueChange={(value) => onChange({ [key]: value === ANY ? undefined : value })}>
+        <SelectTrigger className="h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+          <SelectItem value={ANY}>Any {label.toLowerCase()}</SelectItem>
+          {options.map(option => (
+            <SelectItem key={option} value={option}>{option}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="h-11 gap-2 futuristic-border">
+          <SlidersHorizontal className="h-4 w-4" />
+          Filters
+          {activeCount > 0 && <Badge variant="secondary" className="h-5 px-1.5">{activeCount}</Badge>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[360px] space-y-4 bg-popover backdrop-blur-md border shadow-lg">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="filter-tag" className="text-sm">Tags</Label>
+            <Select
+              value={filters.tagMatch ?? "all"}
+              onValueChange={(value) => onChange({ tagMatch: value === "any" ? "any" : undefined })}
+              disabled={tags.length < 2}
+            >
+              <SelectTrigger className="h-7 w-[130px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+                <SelectItem value="all">Match all tags</SelectItem>
+                <SelectItem value="any">Match any tag</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <TagInput
+            id="filter-tag"
+            value={tags}
+            onChange={(next) => onChange({ tags: next.length > 0 ? next : undefined })}
+            placeholder="Type a tag and press Enter"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Campaign</Label>
+          <Select value={filters.campaign ?? ANY} onValueChange={(value) => onChange({ campaign: value === ANY ? undefined : value })}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Any campaign" />
+            </SelectTrigger>
+            <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+              <SelectItem value={ANY}>Any campaign</SelectItem>
+              {campaigns.map(campaign => (
+                <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {renderDateRange("Created", "createdFrom", "createdTo")}
+        {renderDateRange("Scheduled", "scheduledFrom", "scheduledTo")}
+        {renderOptionSelect("Category", "category", POST_CATEGORIES)}
+        {renderOptionSelect("Tone", "tone", POST_TONES)}
+
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={onClear} disabled={activeCount === 0}>
+            Clear all filters
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,94 @@
+import { RefObject, useMemo } from "react";
+import { AlertCircle, AlertTriangle, CheckCircle2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { applyAllFixes, lintPost, LintIssue } from "@/lib/postLinter";
+import { cn } from "@/lib/utils";
+
+interface PostLintPanelProps {
+  content: string;
+  category?: string;
+  onApplyFix: (content: string) => void;
+  // When given, clicking an issue selects its first range in the editor
+  textareaRef?: RefObject<HTMLTextAreaElement>;
+  className?: string;
+}
+
+export function PostLintPanel({ content, category, onApplyFix, textareaRef, className }: PostLintPanelProps) {
+  const issues = useMemo(() => lintPost(content, { category }), [content, category]);
+  const fixableCount = issues.filter(issue => issue.fix).length;
+
+  const locate = (issue: LintIssue) => {
+    const textarea = textareaRef?.current;
+    const range = issue.ranges[0];
+    if (!textarea || !range) return;
+    textarea.focus();
+    textarea.setSelectionRange(range.start, range.end);
+  };
+
+  if (!content.trim()) return null;
+
+  if (issues.length === 0) {
+    return (
+      <div className={cn("flex items-center gap-2 text-sm text-green-500", className)}>
+        <CheckCircle2 className="h-4 w-4" />
+        Follows all formatting rules
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">
+          {issues.length} formatting {issues.length === 1 ? "issue" : "issues"}
+        </p>
+        {fixableCount > 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onApplyFix(applyAllFixes(content, { category }))}
+            className="h-7 gap-1.5 text-xs"
+          >
+            <Wand2 className="h-3.5 w-3.5" />
+            Fix all
+          </Button>
+        )}
+      </div>
+      <ul className="space-y-1.5">
+        {issues.map(issue => (
+          <li
+            key={issue.ruleId}
+            className={cn(
+              "flex items-start gap-2 rounded-md border px-3 py-2 text-sm",
+              issue.severity === "error" ? "border-destructive/40 bg-destructive/5" : "border-yellow-500/40 bg-yellow-500/5"
+            )}
+          >
+            {issue.severity === "error" ? (
+              <AlertCircle className="h-4 w-4 mt-0.5 shrink-0 text-destructive" />
+            ) : (
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-500" />
+            )}
+            <button
+              type="button"
+              onClick={() => locate(issue)}
+              disabled={!textareaRef || issue.ranges.length === 0}
+              className="flex-1 text-left disabled:cursor-default"
+            >
+              {issue.message}
+            </button>
+            {issue.fix && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onApplyFix(issue.fix.apply(content))}
+                className="h-6 px-2 text-xs shrink-0"
+              >
+                {issue.fix.label}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Bookmark, Globe, Heart, MessageCircle, MoreHorizontal, Repeat2, Send, Share, ThumbsUp } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import {
+  PLATFORM_RULES,
+  PREVIEW_PLATFORMS,
+  PreviewPlatform,
+  countCharacters,
+  countHashtags,
+  foldText,
+  toPreviewPlatform,
+  tokenizePost,
+} from "@/lib/platformPreview";
+
+interface PostPreviewProps {
+  content: string;
+  platform?: string;
+  authorName?: string;
+  authorHeadline?: string;
+  className?: string;
+}
+
+// System font stack with colour emoji fonts, close to what the feeds themselves use
+const FEED_FONT = '-apple-system, system-ui, "Segoe UI", Roboto, "Helvetica Neue", Arial, "Apple Color Emoji", "Segoe UI Emoji", "Noto Color Emoji", sans-serif';
+
+const initialsOf = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0].toUpperCase()).join("");
+
+function FeedText({ text, linkColor }: { text: string; linkColor: string }) {
+  const tokens = useMemo(() => tokenizePost(text), [text]);
+  return (
+    <>
+      {tokens.map((token, index) =>
+        token.type === "text" ? (
+          <span key={index}>{token.value}</span>
+        ) : (
+          <span key={index} className="font-semibold" style={{ color: linkColor }}>
+            {token.value}
+          </span>
+        )
+      )}
+    </>
+  );
+}
+
+export function PostPreview({ content, platform, authorName = "Your Name", authorHeadline = "Your headline", className }: PostPreviewProps) {
+  const [selectedPlatform, setSelectedPlatform] = useState<PreviewPlatform>(toPreviewPlatform(platform));
+  const [expanded, setExpanded] = useState(false);
+
+  useEffect(() => {
+    setSelectedPlatform(toPreviewPlatform(platform));
+  }, [platform]);
+
+  useEffect(() => {
+    setExpanded(false);
+  }, [content, selectedPlatform]);
+
+  const rules = PLATFORM_RULES[selectedPlatform];
+  const characterCount = countCharacters(content, selectedPlatform);
+  const overLimit = characterCount - rules.characterLimit;
+  const hashtagCount = countHashtags(content);
+  const { visible, isFolded } = foldText(content, rules);
+  const shownText = expanded ? content : visible;
+  const handle = authorName.toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+  const seeMore = isFolded && !expanded && (
+    <button
+      type="button"
+      onClick={() => setExpanded(true)}
+      className="text-[#666666] hover:underline hover:text-[#0a66c2] ml-0.5"
+    >
+      {rules.seeMoreLabel}
+    </button>
+  );
+
+  const body = (
+    <div className="whitespace-pre-wrap break-words">
+      {selectedPlatform === "instagram" && <span className="font-semibold mr-1">{handle}</span>}
+      <FeedText text={shownText} linkColor={rules.linkColor} />
+      {seeMore}
+    </div>
+  );
+
+  const avatar = (size: string) => (
+    <div className={cn("rounded-full bg-gradient-to-br from-slate-400 to-slate-600 text-white font-semibold flex items-center justify-center shrink-0", size)}>
+      {initialsOf(authorName)}
+    </div>
+  );
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <ToggleGroup
+          type="single"
+          value={selectedPlatform}
+          onValueChange={(value) => value && setSelectedPlatform(value as PreviewPlatform)}
+          className="justify-start"
+        >
+          {PREVIEW_PLATFORMS.map(id => (
+            <ToggleGroupItem key={id} value={id} size="sm">
+              {PLATFORM_RULES[id].label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <span className={cn("text-xs tabular-nums", overLimit > 0 ? "text-destructive font-medium" : "text-muted-foreground")}>
+          {characterCount.toLocaleString()} / {rules.characterLimit.toLocaleString()}
+        </span>
+      </div>
+
+      {overLimit > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            {overLimit.toLocaleString()} characters over the {rules.label} limit of {rules.characterLimit.toLocaleString()}. The post will be rejected unless it is shortened.
+          </span>
+        </div>
+      )}
+
+      {rules.hashtagLimit !== undefined && hashtagCount > rules.hashtagLimit && (
+        <div className="flex items-start gap-2 rounded-lg border border-yellow-500/50 bg-yellow-500/10 p-3 text-sm text-yellow-500">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            {hashtagCount} hashtags; {rules.label} allows at most {rules.hashtagLimit}.
+          </span>
+        </div>
+      )}
+
+      <div
+        className="mx-auto max-w-[555px] rounded-lg border border-[#e0dfdc] bg-white text-[#191919] shadow-sm text-sm leading-[1.43]"
+        style={{ fontFamily: FEED_FONT }}
+      >
+        {selectedPlatform === "linkedin" && (
+          <>
+            <div className="flex items-start gap-2 px-4 pt-3">
+              {avatar("h-12 w-12 text-base")}
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold leading-tight">{authorName}</p>
+                <p className="text-xs text-[#666666] truncate">{authorHeadline}</p>
+                <p className="text-xs text-[#666666] flex items-center gap-1">1m • <Globe className="h-3 w-3" /></p>
+              </div>
+              <MoreHorizontal className="h-5 w-5 text-[#666666]" />
+            </div>
+            <div className="px-4 py-2">{body}</div>
+            <div className="mx-4 border-t border-[#e0dfdc] flex justify-between py-1 text-[#666666] text-xs font-semibold">
+              {[
+                { icon: ThumbsUp, label: "Like" },
+                { icon: MessageCircle, label: "Comment" },
+                { icon: Repeat2, label: "Repost" },
+                { icon: Send, label: "Send" },
+              ].map(({ icon: Icon, label }) => (
+                <span key={label} className="flex items-center gap-1.5 px-2 py-3">
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+
+        {selectedPlatform === "twitter" && (
+          <div className="flex gap-3 px-4 py-3">
+            {avatar("h-10 w-10 text-sm")}
+            <div className="min-w-0 flex-1 space-y-1">
+              <p className="text-[15px]">
+                <span className="font-bold">{authorName}</span>{" "}
+                <span className="text-[#536471]">@{handle} · 1m</span>
+              </p>
+              <div className="text-[15px] leading-5">{body}</div>
+              <div className="flex justify-between pt-2 text-[#536471] max-w-[425px]">
+                <MessageCircle className="h-4 w-4" />
+                <Repeat2 className="h-4 w-4" />
+                <Heart className="h-4 w-4" />
+                <Share className="h-4 w-4" />
+              </div>
+            </div>
+          </div>
+        )}
+
+        {selectedPlatform === "facebook" && (
+          <>
+            <div className="flex items-center gap-2 px-4 pt-3">
+              {avatar("h-10 w-10 text-sm")}
+              <div className="min-w-0 flex-1">
+                <p className="font-semibold text-[15px] leading-tight">{authorName}</p>
+                <p className="text-xs text-[#65676b] flex items-center gap-1">Just now · <Globe className="h-3 w-3" /></p>
+              </div>
+              <MoreHorizontal className="h-5 w-5 text-[#65676b]" />
+            </div>
+            <div className="px-4 py-3 text-[15px]">{body}</div>
+            <div className="mx-4 border-t border-[#ced0d4] flex justify-around py-1 text-[#65676b] text-sm font-semibold">
+              {[
+                { icon: ThumbsUp, label: "Like" },
+                { icon: MessageCircle, label: "Comment" },
+                { icon: Share, label: "Share" },
+              ].map(({ icon: Icon, label }) => (
+                <span key={label} className="flex items-center gap-1.5 px-2 py-2">
+                  <Icon className="h-4 w-4" />
+                  {label}
+                </span>
+              ))}
+            </div>
+          </>
+        )}
+
+        {selectedPlatform === "instagram" && (
+          <>
+            <div className="flex items-center gap-3 px-3 py-2">
+              {avatar("h-8 w-8 text-xs")}
+              <p className="font-semibold flex-1">{handle}</p>
+              <MoreHorizontal className="h-5 w-5" />
+            </div>
+            <div className="aspect-square bg-gradient-to-br from-slate-100 to-slate-300 flex items-center justify-center text-xs text-slate-500">
+              Image
+            </div>
+            <div className="flex items-center gap-4 px-3 pt-3">
+              <Heart className="h-6 w-6" />
+              <MessageCircle className="h-6 w-6" />
+              <Send className="h-6 w-6" />
+              <Bookmark className="h-6 w-6 ml-auto" />
+            </div>
+            <div className="px-3 pt-2 pb-3">{body}</div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
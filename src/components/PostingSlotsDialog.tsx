@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { PostingSlotService } from "@/lib/postingSlotService";
+import { formatSlotTime, WEEKDAY_LABELS } from "@/lib/postingQueue";
+import { PLATFORM_RULES, PREVIEW_PLATFORMS } from "@/lib/platformPreview";
+import { PostingSlot } from "@/types/postingSlot";
+
+interface PostingSlotsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  slots: PostingSlot[];
+  onSlotsChange: () => void;
+}
+
+const PLATFORM_OPTIONS = PREVIEW_PLATFORMS.map(platform => PLATFORM_RULES[platform].label);
+
+export function PostingSlotsDialog({ open, onOpenChange, slots, onSlotsChange }: PostingSlotsDialogProps) {
+  const [platform, setPlatform] = useState(PLATFORM_OPTIONS[0]);
+  const [days, setDays] = useState<string[]>(["2", "4"]);
+  const [time, setTime] = useState("09:00");
+  const [isAdding, setIsAdding] = useState(false);
+  const { toast } = useToast();
+
+  const slotsByPlatform = slots.reduce<Record<string, PostingSlot[]>>((groups, slot) => {
+    (groups[slot.platform] ||= []).push(slot);
+    return groups;
+  }, {});
+
+  const handleAdd = async () => {
+    // Skip days that already have a slot at this time instead of failing on the unique constraint
+    const newDays = days
+      .map(Number)
+      .filter(day => !slots.some(slot =>
+        slot.platform === platform && slot.day_of_week === day && formatSlotTime(slot.time_of_day) === time
+      ));
+    if (newDays.length === 0) {
+      toast({ title: "Nothing to add", description: "Those slots already exist." });
+      return;
+    }
+
+    setIsAdding(true);
+    try {
+      await Promise.all(newDays.map(day =>
+        PostingSlotService.createSlot({ platform, day_of_week: day, time_of_day: time })
+      ));
+      toast({
+        title: "Slots added",
+        description: `${platform} ${newDays.map(day => WEEKDAY_LABELS[day]).join("/")} at ${time}`
+      });
+      onSlotsChange();
+    } catch (error) {
+      console.error("Error adding posting slots:", error);
+      toast({ title: "Error", description: "Failed to add posting slots.", variant: "destructive" });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleToggle = async (slot: PostingSlot, isActive: boolean) => {
+    try {
+      await PostingSlotService.setSlotActive(slot.id, isActive);
+      onSlotsChange();
+    } catch (error) {
+      console.error("Error updating posting slot:", error);
+      toast({ title: "Error", description: "Failed to update posting slot.", variant: "destructive" });
+    }
+  };
+
+  const handleDelete = async (slot: PostingSlot) => {
+    try {
+      await PostingSlotService.deleteSlot(slot.id);
+      onSlotsChange();
+    } catch (error) {
+      console.error("Error deleting posting slot:", error);
+      toast({ title: "Error", description: "Failed to delete posting slot.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-hidden flex flex-col bg-popover backdrop-blur-md border shadow-lg">
+        <DialogHeader>
+          <DialogTitle>Posting Slots</DialogTitle>
+          <DialogDescription>
+            Recurring weekly times per platform. "Add to queue" schedules a post into the next free slot.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-6 py-2 pr-2">
+          <div className="space-y-3 rounded-lg border border-dashed p-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-sm">Platform</Label>
+                <Select value={platform} onValueChange={setPlatform}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLATFORM_OPTIONS.map(option => (
+                      <SelectItem key={option} value={option}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="slot-time" className="text-sm">Time</Label>
+                <Input id="slot-time" type="time" value={time} onChange={(e) => setTime(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-sm">Days</Label>
+              <ToggleGroup type="multiple" value={days} onValueChange={setDays} className="justify-start flex-wrap">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <ToggleGroupItem key={label} value={String(day)} size="sm" className="w-11">
+                    {label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <Button onClick={handleAdd} disabled={isAdding || days.length === 0 || !time} size="sm" className="gap-2">
+              {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add slots
+            </Button>
+          </div>
+
+          {slots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No posting slots yet</p>
+          ) : (
+            Object.entries(slotsByPlatform).map(([group, groupSlots]) => (
+              <div key={group} className="space-y-2">
+                <h4 className="text-sm font-semibold">{group}</h4>
+                <div className="divide-y rounded-lg border">
+                  {groupSlots.map(slot => (
+                    <div key={slot.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                      <span className={slot.is_active ? "text-sm" : "text-sm text-muted-foreground line-through"}>
+                        {WEEKDAY_LABELS[slot.day_of_week]} at {formatSlotTime(slot.time_of_day)}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={slot.is_active}
+                          onCheckedChange={(checked) => handleToggle(slot, checked)}
+                          aria-label="Slot active"
+                        />
+                        <Button variant="ghost" size="sm" onClick={() => handleDelete(slot)} aria-label="Delete slot">
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useState } from "react";
+import { Copy, Terminal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import {
+  buildApiRequest,
+  EXPORT_PROVIDER_KEYS,
+  EXPORT_PROVIDERS,
+  ExportParameters,
+  ExportProvider,
+  toCurl,
+} from "@/lib/promptExport";
+
+interface PromptExportPanelProps {
+  systemPrompt: string;
+  userPrompt: string;
+  defaultProvider?: ExportProvider;
+}
+
+type ExportFormat = "json" | "curl";
+
+const initialParameters = () =>
+  Object.fromEntries(
+    EXPORT_PROVIDER_KEYS.map(provider => [provider, { ...EXPORT_PROVIDERS[provider].defaults }])
+  ) as Record<ExportProvider, ExportParameters>;
+
+export function PromptExportPanel({ systemPrompt, userPrompt, defaultProvider = "openai" }: PromptExportPanelProps) {
+  const [provider, setProvider] = useState<ExportProvider>(defaultProvider);
+  const [format, setFormat] = useState<ExportFormat>("json");
+  // Parameters are kept per provider so switching tabs does not lose edits
+  const [parameters, setParameters] = useState(initialParameters);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setProvider(defaultProvider);
+  }, [defaultProvider]);
+
+  const params = parameters[provider];
+  const info = EXPORT_PROVIDERS[provider];
+
+  const updateParams = (changes: Partial<ExportParameters>) =>
+    setParameters(prev => ({ ...prev, [provider]: { ...prev[provider], ...changes } }));
+
+  const output = useMemo(() => {
+    const request = buildApiRequest(provider, { systemPrompt, userPrompt }, params);
+    return format === "curl" ? toCurl(request) : JSON.stringify(request.body, null, 2);
+  }, [provider, format, systemPrompt, userPrompt, params]);
+
+  const copyOutput = async () => {
+    try {
+      await navigator.clipboard.writeText(output);
+      toast({
+        title: "Copied!",
+        description: `${info.label} ${format === "curl" ? "cURL command" : "request body"} copied to clipboard`
+      });
+    } catch {
+      toast({
+        title: "Copy Failed",
+        description: "Failed to copy to clipboard",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <Tabs value={provider} onValueChange={(value) => setProvider(value as ExportProvider)}>
+          <TabsList>
+            {EXPORT_PROVIDER_KEYS.map(key => (
+              <TabsTrigger key={key} value={key}>{EXPORT_PROVIDERS[key].label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+        <ToggleGroup
+          type="single"
+          value={format}
+          onValueChange={(value) => value && setFormat(value as ExportFormat)}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="json" size="sm">JSON body</ToggleGroupItem>
+          <ToggleGroupItem value="curl" size="sm" className="gap-1">
+            <Terminal className="h-3.5 w-3.5" />
+            cURL
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1 col-span-2 md:col-span-1">
+          <Label htmlFor="export-model" className="text-xs">Model</Label>
+          <Input id="export-model" value={params.model} onChange={(e) => updateParams({ model: e.target.value })} className="h-9" />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="export-temperature" className="text-xs">Temperature</Label>
+          <Input
+            id="export-temperature"
+            type="number"
+            min={0}
+            max={2}
+            step={0.1}
+            value={params.temperature}
+            onChange={(e) => updateParams({ temperature: Number(e.target.value) })}
+            className="h-9"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="export-max-tokens" className="text-xs">Max tokens</Label>
+          <Input
+            id="export-max-tokens"
+            type="number"
+            min={1}
+            step={256}
+            value={params.maxTokens}
+            onChange={(e) => updateParams({ maxTokens: Math.max(1, Math.round(Number(e.target.value))) })}
+            className="h-9"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="export-web-search" className="text-xs">Web search</Label>
+          <div className="h-9 flex items-center">
+            <Switch id="export-web-search" checked={params.webSearch} onCheckedChange={(webSearch) => updateParams({ webSearch })} />
+          </div>
+        </div>
+      </div>
+      {params.webSearch && <p className="text-xs text-muted-foreground">{info.webSearchNote}</p>}
+
+      <div className="relative">
+        <pre className="bg-muted/30 futuristic-border rounded-md p-4 text-xs font-mono whitespace-pre-wrap break-all max-h-[400px] overflow-y-auto">
+          {output}
+        </pre>
+        <Button variant="outline" size="sm" onClick={copyOutput} className="absolute top-2 right-2 gap-2 h-7">
+          <Copy className="h-3.5 w-3.5" />
+          Copy
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Set {info.apiKeyVariable} in your environment before running the cURL command.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, Check, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { filtersToSearchParams } from "@/lib/libraryFilters";
+import { SavedViewService } from "@/lib/savedViewService";
+import { PostLibraryFilters, SavedView } from "@/types/savedView";
+
+interface SavedViewsMenuProps {
+  filters: PostLibraryFilters;
+  onApply: (filters: PostLibraryFilters) => void;
+}
+
+const SAVED_VIEWS_KEY = ["saved-views"];
+
+// Two filter sets are the same view when they produce the same URL
+const sameFilters = (a: PostLibraryFilters, b: PostLibraryFilters) =>
+  filtersToSearchParams(a).toString() === filtersToSearchParams(b).toString();
+
+/**
+ * Named Post Library filter sets: apply, save the current filters, or delete
+ */
+export function SavedViewsMenu({ filters, onApply }: SavedViewsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: views = [], isLoading } = useQuery({
+    queryKey: SAVED_VIEWS_KEY,
+    queryFn: () => SavedViewService.listViews(),
+  });
+
+  const activeView = views.find(view => sameFilters(view.filters, filters));
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setIsSaving(true);
+    try {
+      const replacing = views.some(view => view.name === trimmed);
+      await SavedViewService.saveView(trimmed, filters);
+      queryClient.invalidateQueries({ queryKey: SAVED_VIEWS_KEY });
+      setName("");
+      toast({ title: replacing ? "View updated" : "View saved", description: `"${trimmed}" is in your saved views.` });
+    } catch (error) {
+      console.error("Error saving view:", error);
+      toast({ title: "Error", description: "Failed to save view.", variant: "destructive" });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    try {
+      await SavedViewService.deleteView(view.id);
+      queryClient.invalidateQueries({ queryKey: SAVED_VIEWS_KEY });
+      toast({ title: "View deleted", description: `"${view.name}" was removed.` });
+    } catch (error) {
+      console.error("Error deleting view:", error);
+      toast({ title: "Error", description: "Failed to delete view.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2 futuristic-border">
+          <Bookmark className="h-4 w-4" />
+          {activeView ? activeView.name : "Views"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[300px] space-y-3 bg-popover backdrop-blur-md border shadow-lg">
+        <div className="space-y-1">
+          {isLoading ? (
+            <div className="flex justify-center py-2">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          ) : views.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-1">No saved views yet.</p>
+          ) : (
+            views.map(view => (
+              <div key={view.id} className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="flex-1 justify-start gap-2 truncate"
+                  onClick={() => {
+                    onApply(view.filters);
+                    setOpen(false);
+                  }}
+                >
+                  <Check className={cn("h-4 w-4", activeView?.id !== view.id && "invisible")} />
+                  <span className="truncate">{view.name}</span>
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 px-2 text-destructive hover:text-destructive"
+                  onClick={() => handleDelete(view)}
+                  aria-label={`Delete view ${view.name}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex gap-2 border-t pt-3">
+          <Input
+            placeholder="Save current view as…"
+            value={name}
+            maxLength={100}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSave();
+            }}
+            className="h-9"
+          />
+          <Button size="sm" className="h-9" onClick={handleSave} disabled={isSaving || !name.trim()}>
+            {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
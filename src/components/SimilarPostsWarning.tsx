@@ -0,0 +1,55 @@
+import { useState } from "react";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { SimilarityMatch } from "@/lib/similarity";
+import { ContentPost } from "@/types/content";
+import { TextDiffView } from "./TextDiffView";
+
+interface SimilarPostsWarningProps {
+  matches: SimilarityMatch<ContentPost>[];
+  // The draft being saved, diffed against each match
+  content: string;
+  className?: string;
+}
+
+/**
+ * Lists library posts that are near-duplicates of a draft, each with a diff against it
+ */
+export function SimilarPostsWarning({ matches, content, className }: SimilarPostsWarningProps) {
+  const [comparingId, setComparingId] = useState<string | null>(null);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className={cn("p-3 rounded-lg border border-amber-500/50 bg-amber-500/10 text-sm space-y-2", className)}>
+      <div className="flex items-center gap-2 font-medium text-amber-600 dark:text-amber-400">
+        <Copy className="h-4 w-4 flex-shrink-0" />
+        {matches.length === 1 ? "A very similar post is already in your library" : `${matches.length} very similar posts are already in your library`}
+      </div>
+      <ul className="space-y-2">
+        {matches.map(({ post, similarity }) => (
+          <li key={post.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="min-w-0 truncate text-muted-foreground">
+                <span className="font-medium text-foreground">{Math.round(similarity * 100)}%</span> · {post.title || "Untitled Post"} ({post.status})
+              </span>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="flex-shrink-0"
+                onClick={() => setComparingId(comparingId === post.id ? null : post.id)}
+              >
+                {comparingId === post.id ? "Hide" : "Compare"}
+              </Button>
+            </div>
+            {comparingId === post.id && (
+              <TextDiffView before={post.content} after={content} className="max-h-60 overflow-y-auto" />
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
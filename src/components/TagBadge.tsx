@@ -0,0 +1,27 @@
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface TagBadgeProps {
+  name: string;
+  color?: string | null;
+  className?: string;
+  onRemove?: () => void;
+}
+
+/**
+ * A post tag, with its colour as a dot so the badge reads in both themes
+ */
+export function TagBadge({ name, color, className, onRemove }: TagBadgeProps) {
+  return (
+    <Badge variant="secondary" className={cn("gap-1.5", onRemove && "pr-1", className)}>
+      {color && <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: color }} />}
+      {name}
+      {onRemove && (
+        <button type="button" onClick={onRemove} aria-label={`Remove tag ${name}`} className="rounded-sm hover:bg-muted">
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </Badge>
+  );
+}
@@ -0,0 +1,51 @@
+import { tagCloudSize } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { TagWithUsage } from "@/types/tag";
+
+interface TagCloudProps {
+  tags: TagWithUsage[];
+  selected: string[];
+  onToggle: (name: string) => void;
+  limit?: number;
+}
+
+/**
+ * The most used tags sized by usage; clicking one adds it to or removes it from the tag filter
+ */
+export function TagCloud({ tags, selected, onToggle, limit = 40 }: TagCloudProps) {
+  const selectedKeys = new Set(selected.map(tag => tag.toLowerCase()));
+  // Selected tags stay visible even when they fall outside the most used
+  const shown = [...tags]
+    .filter(tag => tag.post_count > 0 || selectedKeys.has(tag.name.toLowerCase()))
+    .sort((a, b) => b.post_count - a.post_count)
+    .filter((tag, index) => index < limit || selectedKeys.has(tag.name.toLowerCase()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const maxCount = Math.max(...shown.map(tag => tag.post_count), 1);
+
+  if (shown.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-baseline gap-x-3 gap-y-1">
+      {shown.map(tag => {
+        const isSelected = selectedKeys.has(tag.name.toLowerCase());
+        return (
+          <button
+            key={tag.id}
+            type="button"
+            onClick={() => onToggle(tag.name)}
+            title={`${tag.description ? `${tag.description} · ` : ""}${tag.post_count} post${tag.post_count === 1 ? "" : "s"}`}
+            aria-pressed={isSelected}
+            className={cn(
+              "rounded px-1 transition-colors hover:text-primary",
+              tagCloudSize(tag.post_count, maxCount),
+              isSelected ? "bg-primary/15 font-semibold text-primary" : "text-muted-foreground"
+            )}
+            style={!isSelected && tag.color ? { color: tag.color } : undefined}
+          >
+            {tag.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { useTags } from "@/hooks/use-tags";
+import { addTagName, suggestTags } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { TagBadge } from "./TagBadge";
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Tag chips with autocomplete from the registered tags; typed names take the registered spelling
+ */
+export function TagInput({ id, value, onChange, placeholder = "Add a tag", className }: TagInputProps) {
+  const [query, setQuery] = useState("");
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const { tags, tagColor } = useTags();
+
+  const suggestions = isFocused ? suggestTags(tags, query, value) : [];
+  const highlightedSuggestion = query.trim() ? suggestions[highlighted] : undefined;
+
+  const add = (name: string) => {
+    onChange(addTagName(value, name, tags));
+    setQuery("");
+    setHighlighted(0);
+  };
+
+  const remove = (name: string) => onChange(value.filter(tag => tag !== name));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      if (suggestions.length === 0) return;
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((highlighted + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      if (highlightedSuggestion) add(highlightedSuggestion.name);
+      else if (query.trim()) add(query);
+    } else if (e.key === "Backspace" && !query && value.length > 0) {
+      remove(value[value.length - 1]);
+    } else if (e.key === "Escape" && query) {
+      e.stopPropagation();
+      setQuery("");
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <Input
+        id={id}
+        value={query}
+        placeholder={placeholder}
+        autoComplete="off"
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setHighlighted(0);
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setIsFocused(true)}
+        onBlur={() => {
+          setIsFocused(false);
+          if (query.trim()) add(query);
+        }}
+        className="futuristic-border"
+      />
+      {suggestions.length > 0 && (
+        <div className="max-h-40 overflow-y-auto rounded-md border bg-popover p-1 text-sm shadow-sm">
+          {suggestions.map((tag, index) => (
+            <button
+              key={tag.id}
+              type="button"
+              // mousedown runs before the input's blur, which would otherwise add the half-typed text
+              onMouseDown={(e) => {
+                e.preventDefault();
+                add(tag.name);
+              }}
+              className={cn(
+                "flex w-full items-center justify-between gap-2 rounded-sm px-2 py-1 text-left hover:bg-muted",
+                query.trim() && index === highlighted && "bg-muted"
+              )}
+            >
+              <span className="flex items-center gap-2 truncate">
+                {tag.color && <span className="h-2 w-2 flex-shrink-0 rounded-full" style={{ backgroundColor: tag.color }} />}
+                {tag.name}
+              </span>
+              <span className="text-xs text-muted-foreground">{tag.post_count}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {value.map(tag => (
+            <TagBadge key={tag} name={tag} color={tagColor(tag)} onRemove={() => remove(tag)} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { Check, GitMerge, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/use-tags";
+import { TagService } from "@/lib/tagService";
+import { findSimilarTagGroups, findTag, normalizeTagName, TAG_COLORS } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { TagWithUsage } from "@/types/tag";
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Posts were rewritten: names were renamed or merged into the replacement, or removed when it is null
+  onTagsReplaced: (names: string[], replacement: string | null) => void;
+}
+
+const plural = (count: number) => `${count} post${count === 1 ? "" : "s"}`;
+
+export function TagManagerDialog({ open, onOpenChange, onTagsReplaced }: TagManagerDialogProps) {
+  const [filter, setFilter] = useState("");
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [descriptions, setDescriptions] = useState<Record<string, string>>({});
+  const [mergeIds, setMergeIds] = useState<Set<string>>(new Set());
+  const [mergeTargetId, setMergeTargetId] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const { tags, isLoading, refreshTags } = useTags();
+  const { toast } = useToast();
+
+  const visibleTags = tags.filter(tag => tag.name.toLowerCase().includes(filter.trim().toLowerCase()));
+  const similarGroups = findSimilarTagGroups(tags);
+  const mergeTags = tags.filter(tag => mergeIds.has(tag.id));
+  const mergeTarget = mergeTags.find(tag => tag.id === mergeTargetId) ?? mergeTags[0];
+
+  // Each action shows a spinner on its own control and reports failures the same way
+  const run = async (key: string, failure: string, perform: () => Promise<void>) => {
+    setBusy(key);
+    try {
+      await perform();
+      refreshTags();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      toast({ title: "Error", description: error instanceof Error ? error.message : `${failure}.`, variant: "destructive" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = normalizeTagName(newName);
+    if (!name) return;
+    if (findTag(tags, name)) {
+      toast({ title: "Tag exists", description: `"${findTag(tags, name)!.name}" is already a tag.` });
+      return;
+    }
+    run("create", "Failed to create tag", async () => {
+      await TagService.createTag({ name });
+      setNewName("");
+    });
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const tag = tags.find(candidate => candidate.id === renaming.id);
+    const name = normalizeTagName(renaming.name);
+    if (!tag || !name || name === tag.name) {
+      setRenaming(null);
+      return;
+    }
+    run(`rename:${tag.id}`, "Failed to rename tag", async () => {
+      const updated = await TagService.renameTag(tag.id, name);
+      setRenaming(null);
+      onTagsReplaced([tag.name], name);
+      toast({ title: "Tag renamed", description: `"${tag.name}" is now "${name}" on ${plural(updated)}.` });
+    });
+  };
+
+  const handleColor = (tag: TagWithUsage, color: string | null) =>
+    run(`color:${tag.id}`, "Failed to update tag", async () => {
+      await TagService.updateTag(tag.id, { color });
+    });
+
+  const handleDescription = (tag: TagWithUsage) => {
+    const description = descriptions[tag.id]?.trim();
+    if (description === undefined || description === (tag.description ?? "")) return;
+    run(`description:${tag.id}`, "Failed to update tag", async () => {
+      await TagService.updateTag(tag.id, { description: description || null });
+    });
+  };
+
+  const handleMerge = (sources: TagWithUsage[], target: TagWithUsage) => {
+    const others = sources.filter(tag => tag.id !== target.id);
+    if (others.length === 0) return;
+    run("merge", "Failed to merge tags", async () => {
+      const updated = await TagService.mergeTags(others.map(tag => tag.id), target.id);
+      setMergeIds(new Set());
+      setMergeTargetId(null);
+      onTagsReplaced(others.map(tag => tag.name), target.name);
+      toast({
+        title: "Tags merged",
+        description: `${others.map(tag => `"${tag.name}"`).join(", ")} merged into "${target.name}" on ${plural(updated)}.`,
+      });
+    });
+  };
+
+  const handleDelete = (tag: TagWithUsage) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from ${plural(tag.post_count)}.`)) return;
+    run(`delete:${tag.id}`, "Failed to delete tag", async () => {
+      const updated = await TagService.deleteTag(tag.id);
+      setMergeIds(prev => {
+        const next = new Set(prev);
+        next.delete(tag.id);
+        return next;
+      });
+      onTagsReplaced([tag.name], null);
+      toast({ title: "Tag deleted", description: `"${tag.name}" was removed from ${plural(updated)}.` });
+    });
+  };
+
+  const toggleMerge = (tag: TagWithUsage, checked: boolean) =>
+    setMergeIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(tag.id);
+      else next.delete(tag.id);
+      return next;
+    });
+
+  const renderColorPicker = (tag: TagWithUsage) => (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label={`Colour for ${tag.name}`}
+          className="h-5 w-5 flex-shrink-0 rounded-full border"
+          style={{ backgroundColor: tag.color ?? "transparent" }}
+        />
+      </PopoverTrigger>
+      <PopoverContent className="w-auto bg-popover backdrop-blur-md border shadow-lg">
+        <div className="flex gap-1.5">
+          {TAG_COLORS.map(color => (
+            <button
+              key={color}
+              type="button"
+              aria-label={color}
+              onClick={() => handleColor(tag, color)}
+              className={cn("h-6 w-6 rounded-full border-2", tag.color === color ? "border-foreground" : "border-transparent")}
+              style={{ backgroundColor: color }}
+            />
+          ))}
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => handleColor(tag, null)} disabled={!tag.color}>
+            None
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-hidden flex flex-col bg-popover backdrop-blur-md border shadow-lg">
+        <DialogHeader>
+          <DialogTitle>Manage Tags</DialogTitle>
+          <DialogDescription>
+            Renaming, merging or deleting a tag updates every post that has it, including posts in the trash.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input placeholder="Filter tags…" value={filter} onChange={(e) => setFilter(e.target.value)} className="h-9" />
+          <Input
+            placeholder="New tag"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleCreate();
+            }}
+            className="h-9"
+          />
+          <Button size="sm" className="h-9 gap-2" onClick={handleCreate} disabled={!normalizeTagName(newName) || busy === "create"}>
+            {busy === "create" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+
+        {similarGroups.length > 0 && (
+          <div className="space-y-2 rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+            <p className="font-medium text-amber-700 dark:text-amber-300">Possible duplicates</p>
+            {similarGroups.map(group => (
+              <div key={group[0].id} className="flex flex-wrap items-center gap-2">
+                {group.map(tag => (
+                  <Badge key={tag.id} variant="outline">{tag.name} · {tag.post_count}</Badge>
+                ))}
+                <Button variant="outline" size="sm" className="ml-auto h-7 gap-1" onClick={() => handleMerge(group, group[0])} disabled={!!busy}>
+                  <GitMerge className="h-3.5 w-3.5" />
+                  Merge into "{group[0].name}"
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {mergeTags.length >= 2 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-lg border p-3 text-sm">
+            <span>Merge {mergeTags.length} tags into</span>
+            <Select value={mergeTarget.id} onValueChange={setMergeTargetId}>
+              <SelectTrigger className="h-8 w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-popover backdrop-blur-md border shadow-lg">
+                {mergeTags.map(tag => (
+                  <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" className="h-8 gap-1" onClick={() => handleMerge(mergeTags, mergeTarget)} disabled={!!busy}>
+              {busy === "merge" ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <GitMerge className="h-3.5 w-3.5" />}
+              Merge
+            </Button>
+            <Button variant="ghost" size="sm" className="h-8" onClick={() => setMergeIds(new Set())}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto pr-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : visibleTags.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {tags.length === 0 ? "No tags yet. Tags added to posts show up here." : "No tags match the filter."}
+            </p>
+          ) : (
+            <div className="divide-y rounded-lg border text-sm">
+              {visibleTags.map(tag => (
+                <div key={tag.id} className="flex items-center gap-3 px-3 py-2">
+                  <Checkbox
+                    checked={mergeIds.has(tag.id)}
+                    onCheckedChange={(checked) => toggleMerge(tag, checked === true)}
+                    aria-label={`Select ${tag.name} to merge`}
+                  />
+                  {renderColorPicker(tag)}
+                  <div className="w-40 flex-shrink-0">
+                    {renaming?.id === tag.id ? (
+                      <div className="flex items-center gap-1">
+                        <Input
+                          autoFocus
+                          value={renaming.name}
+                          onChange={(e) => setRenaming({ id: tag.id, name: e.target.value })}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleRename();
+                            if (e.key === "Escape") {
+                              e.stopPropagation();
+                              setRenaming(null);
+                            }
+                          }}
+                          className="h-7"
+                        />
+                        <Button variant="ghost" size="sm" className="h-7 px-1" onClick={handleRename} aria-label="Save name">
+                          {busy === `rename:${tag.id}` ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+                        </Button>
+                        <Button variant="ghost" size="sm" className="h-7 px-1" onClick={() => setRenaming(null)} aria-label="Cancel rename">
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setRenaming({ id: tag.id, name: tag.name })}
+                        className="group flex max-w-full items-center gap-1 font-medium"
+                      >
+                        <span className="truncate">{tag.name}</span>
+                        <Pencil className="h-3 w-3 flex-shrink-0 text-muted-foreground opacity-0 group-hover:opacity-100" />
+                      </button>
+                    )}
+                  </div>
+                  <Input
+                    placeholder="Description"
+                    value={descriptions[tag.id] ?? tag.description ?? ""}
+                    onChange={(e) => setDescriptions(prev => ({ ...prev, [tag.id]: e.target.value }))}
+                    onBlur={() => handleDescription(tag)}
+                    className="h-7 flex-1"
+                  />
+                  <span className="w-16 flex-shrink-0 text-right text-xs text-muted-foreground">{plural(tag.post_count)}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-destructive hover:text-destructive"
+                    onClick={() => handleDelete(tag)}
+                    disabled={!!busy}
+                    aria-label={`Delete tag ${tag.name}`}
+                  >
+                    {busy === `delete:${tag.id}` ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Trash2 className="h-3.5 w-3.5" />}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
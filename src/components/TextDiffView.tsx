@@ -0,0 +1,40 @@
+import { useMemo } from "react"
+import { diffStats, diffWords } from "@/lib/textDiff"
+import { cn } from "@/lib/utils"
+
+interface TextDiffViewProps {
+  before: string
+  after: string
+  className?: string
+}
+
+export function TextDiffView({ before, after, className }: TextDiffViewProps) {
+  const parts = useMemo(() => diffWords(before, after), [before, after])
+  const stats = useMemo(() => diffStats(parts), [parts])
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex gap-3 text-xs">
+        <span className="text-green-500">+{stats.added} words</span>
+        <span className="text-destructive">-{stats.removed} words</span>
+      </div>
+      <div className="bg-muted p-4 rounded-lg whitespace-pre-wrap text-sm leading-relaxed">
+        {stats.added === 0 && stats.removed === 0 ? (
+          <span className="text-muted-foreground italic">No content changes</span>
+        ) : (
+          parts.map((part, index) => (
+            <span
+              key={index}
+              className={cn(
+                part.type === "added" && "bg-green-500/20 text-green-300 rounded-sm",
+                part.type === "removed" && "bg-destructive/20 text-destructive line-through rounded-sm"
+              )}
+            >
+              {part.value}
+            </span>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
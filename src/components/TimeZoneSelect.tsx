@@ -0,0 +1,51 @@
+import { useMemo } from "react";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { COMMON_TIME_ZONES, getTimeZoneAbbreviation, listTimeZones } from "@/lib/timezones";
+import { cn } from "@/lib/utils";
+
+interface TimeZoneSelectProps {
+  value: string;
+  onValueChange: (timeZone: string) => void;
+  id?: string;
+  className?: string;
+}
+
+const zoneLabel = (timeZone: string) => `${timeZone.replace(/_/g, " ")} (${getTimeZoneAbbreviation(timeZone)})`;
+
+export function TimeZoneSelect({ value, onValueChange, id, className }: TimeZoneSelectProps) {
+  const otherZones = useMemo(
+    () => listTimeZones().filter(zone => !COMMON_TIME_ZONES.includes(zone)),
+    []
+  );
+  // Keep a stored zone selectable even if this browser doesn't list it
+  const commonZones = COMMON_TIME_ZONES.includes(value) || otherZones.includes(value)
+    ? COMMON_TIME_ZONES
+    : [value, ...COMMON_TIME_ZONES];
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger id={id} className={cn("truncate", className)}>
+        <SelectValue>{zoneLabel(value)}</SelectValue>
+      </SelectTrigger>
+      <SelectContent className="max-h-[320px]">
+        <SelectGroup>
+          <SelectLabel>Common</SelectLabel>
+          {commonZones.map(zone => (
+            <SelectItem key={zone} value={zone}>{zoneLabel(zone)}</SelectItem>
+          ))}
+        </SelectGroup>
+        {otherZones.length > 0 && (
+          <>
+            <SelectSeparator />
+            <SelectGroup>
+              <SelectLabel>All time zones</SelectLabel>
+              {otherZones.map(zone => (
+                <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+              ))}
+            </SelectGroup>
+          </>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
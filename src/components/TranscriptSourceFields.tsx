@@ -0,0 +1,108 @@
+import { ChangeEvent } from "react";
+import { Upload } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { TRANSCRIPT_PROVIDERS, TranscriptProviderId, type TranscriptSource } from "@/lib/transcripts";
+import type { PromptOutputMode } from "@/lib/promptutils";
+
+interface TranscriptSourceFieldsProps {
+  value: TranscriptSource;
+  onChange: (value: TranscriptSource) => void;
+}
+
+export function TranscriptSourceFields({ value, onChange }: TranscriptSourceFieldsProps) {
+  const provider = TRANSCRIPT_PROVIDERS[value.providerId];
+  const update = (changes: Partial<TranscriptSource>) => onChange({ ...value, ...changes });
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    update({ rawText: text, title: value.title || file.name.replace(/\.(srt|vtt|txt)$/i, "") });
+    event.target.value = "";
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-dashed p-4">
+      <div className="space-y-2">
+        <Label className="text-base font-medium">Prompt Output</Label>
+        <ToggleGroup
+          type="single"
+          value={value.output}
+          onValueChange={(output) => output && update({ output: output as PromptOutputMode })}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="n8n" size="sm">n8n template</ToggleGroupItem>
+          <ToggleGroupItem value="rendered" size="sm">Rendered prompt</ToggleGroupItem>
+        </ToggleGroup>
+        <p className="text-xs text-muted-foreground">
+          {value.output === "n8n"
+            ? "The transcript stays as an n8n expression for the workflow to fill in"
+            : "The transcript, timestamps and video details are written into the prompt"}
+        </p>
+      </div>
+
+      {value.output === "rendered" && (
+        <>
+          <div className="space-y-2">
+            <Label>Transcript Source</Label>
+            <Select value={value.providerId} onValueChange={(providerId) => update({ providerId: providerId as TranscriptProviderId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(TRANSCRIPT_PROVIDERS).map(item => (
+                  <SelectItem key={item.id} value={item.id}>{item.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{provider.description}</p>
+          </div>
+
+          {provider.needsRawText && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="transcript-text">Transcript</Label>
+                <Label
+                  htmlFor="transcript-file"
+                  className="flex items-center gap-1 text-xs text-primary cursor-pointer hover:underline"
+                >
+                  <Upload className="h-3 w-3" />
+                  Upload file
+                </Label>
+                <input
+                  id="transcript-file"
+                  type="file"
+                  accept=".srt,.vtt,.txt,text/plain,text/vtt"
+                  onChange={handleFile}
+                  className="hidden"
+                />
+              </div>
+              <Textarea
+                id="transcript-text"
+                value={value.rawText}
+                onChange={(e) => update({ rawText: e.target.value })}
+                placeholder={"[0:00] Welcome back to the channel...\n[0:12] Today we're looking at..."}
+                className="min-h-[120px] font-mono text-xs"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="video-title" className="text-sm">Video title</Label>
+              <Input id="video-title" value={value.title} onChange={(e) => update({ title: e.target.value })} placeholder="Optional" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="video-channel" className="text-sm">Channel</Label>
+              <Input id="video-channel" value={value.channel} onChange={(e) => update({ channel: e.target.value })} placeholder="Optional" />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
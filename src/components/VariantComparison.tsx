@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Check, Combine, X } from "lucide-react";
+import type { PostVariant } from "@/lib/generationClient";
+import type { VariantSelection } from "@/types/content";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { cn } from "@/lib/utils";
+
+interface VariantComparisonProps {
+  variants: PostVariant[];
+  selection: VariantSelection | null;
+  onSelect: (content: string, selection: VariantSelection) => void;
+}
+
+type ParagraphRef = { variant: number; paragraph: number };
+
+const splitParagraphs = (content: string) =>
+  content.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+
+const countWords = (content: string) => content.split(/\s+/).filter(Boolean).length;
+
+export function VariantComparison({ variants, selection, onSelect }: VariantComparisonProps) {
+  const paragraphs = useMemo(() => variants.map(variant => splitParagraphs(variant.content)), [variants]);
+  const angles = variants.map((variant, index) => variant.angle || `Variant ${index + 1}`);
+  const [picks, setPicks] = useState<ParagraphRef[]>([]);
+
+  // A new generation invalidates any paragraphs picked from the previous batch
+  useEffect(() => {
+    setPicks([]);
+  }, [variants]);
+
+  const pickIndex = (ref: ParagraphRef) =>
+    picks.findIndex(pick => pick.variant === ref.variant && pick.paragraph === ref.paragraph);
+
+  const togglePick = (ref: ParagraphRef) => {
+    const index = pickIndex(ref);
+    setPicks(index === -1 ? [...picks, ref] : picks.filter((_, i) => i !== index));
+  };
+
+  const movePick = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= picks.length) return;
+    const next = [...picks];
+    [next[index], next[target]] = [next[target], next[index]];
+    setPicks(next);
+  };
+
+  const baseSelection = { variantCount: variants.length, angles, explicit: true };
+
+  const chooseVariant = (index: number) => {
+    onSelect(variants[index].content, {
+      ...baseSelection,
+      chosenVariant: index,
+      chosenAngle: angles[index],
+    });
+  };
+
+  const chooseMerged = () => {
+    const content = picks.map(pick => paragraphs[pick.variant][pick.paragraph]).join("\n\n");
+    onSelect(content, { ...baseSelection, chosenVariant: null, mergedFrom: picks });
+  };
+
+  return (
+    <Card className="futuristic-border glow-hover backdrop-blur-sm shadow-xl border-0 bg-card/50">
+      <CardHeader>
+        <CardTitle className="text-xl">Compare Variants</CardTitle>
+        <CardDescription>
+          Use a variant as-is, or click paragraphs to merge the best parts of each
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className={cn("grid gap-4", variants.length > 2 ? "md:grid-cols-2 xl:grid-cols-3" : "md:grid-cols-2")}>
+          {variants.map((variant, variantIndex) => {
+            const isChosen = selection?.chosenVariant === variantIndex;
+            return (
+              <div
+                key={variantIndex}
+                className={cn(
+                  "rounded-xl border p-4 flex flex-col gap-3 min-w-0",
+                  isChosen ? "border-primary bg-primary/5" : "border-border"
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="space-y-1 min-w-0">
+                    <p className="text-sm font-semibold">Variant {variantIndex + 1}</p>
+                    <Badge variant="outline" className="text-xs truncate max-w-full">{angles[variantIndex]}</Badge>
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {countWords(variant.content)} words · {variant.content.length} chars
+                  </span>
+                </div>
+
+                <div className="space-y-2 flex-1">
+                  {paragraphs[variantIndex].map((paragraph, paragraphIndex) => {
+                    const ref = { variant: variantIndex, paragraph: paragraphIndex };
+                    const order = pickIndex(ref);
+                    return (
+                      <button
+                        key={paragraphIndex}
+                        type="button"
+                        onClick={() => togglePick(ref)}
+                        className={cn(
+                          "relative w-full text-left text-sm whitespace-pre-wrap rounded-md p-2 transition-colors",
+                          order === -1 ? "hover:bg-muted/60" : "bg-primary/15 ring-1 ring-primary"
+                        )}
+                      >
+                        {order !== -1 && (
+                          <span className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-primary text-primary-foreground text-[10px] flex items-center justify-center">
+                            {order + 1}
+                          </span>
+                        )}
+                        {paragraph}
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <Button
+                  variant={isChosen ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => chooseVariant(variantIndex)}
+                  className="gap-2"
+                >
+                  {isChosen && <Check className="h-4 w-4" />}
+                  {isChosen ? "Selected" : "Use this variant"}
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        {picks.length > 0 && (
+          <div className="rounded-xl border border-dashed p-4 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm font-semibold">Merged draft ({picks.length} paragraphs)</p>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setPicks([])}>
+                  Clear
+                </Button>
+                <Button size="sm" onClick={chooseMerged} className="gap-2">
+                  <Combine className="h-4 w-4" />
+                  Use merged draft
+                </Button>
+              </div>
+            </div>
+            <div className="space-y-2">
+              {picks.map((pick, index) => (
+                <div key={`${pick.variant}-${pick.paragraph}`} className="flex items-start gap-2 bg-muted/50 rounded-md p-2">
+                  <Badge variant="secondary" className="text-[10px] px-1.5 shrink-0">V{pick.variant + 1}</Badge>
+                  <p className="text-sm whitespace-pre-wrap flex-1 min-w-0">{paragraphs[pick.variant][pick.paragraph]}</p>
+                  <div className="flex shrink-0">
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => movePick(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => movePick(index, 1)} disabled={index === picks.length - 1}>
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => togglePick(pick)}>
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
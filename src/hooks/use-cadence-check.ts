@@ -0,0 +1,19 @@
+import { useQuery } from "@tanstack/react-query"
+import { CadenceService } from "@/lib/cadenceService"
+import { CadenceCandidate } from "@/types/cadence"
+
+/**
+ * Cadence warnings for a schedule being edited; pass null while there is nothing to check
+ * Results are keyed by the exact minute, so editing the time re-checks it.
+ */
+export function useCadenceCheck(candidate: CadenceCandidate | null) {
+  const isValid = !!candidate && !!candidate.platform && !isNaN(candidate.date.getTime())
+  const { data, isFetching } = useQuery({
+    queryKey: ["cadence-check", candidate?.postId ?? null, candidate?.platform.toLowerCase(), isValid ? candidate.date.toISOString() : null],
+    queryFn: () => CadenceService.checkSchedule(candidate!),
+    enabled: isValid,
+    staleTime: 30 * 1000,
+  })
+
+  return { check: isValid ? data : undefined, isChecking: isValid && isFetching }
+}
@@ -0,0 +1,22 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { CampaignService } from "@/lib/campaignService"
+
+export const CAMPAIGNS_QUERY_KEY = ["campaigns"]
+
+/**
+ * Campaigns with post counts, for campaign pickers and filters
+ */
+export function useCampaigns() {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery({
+    queryKey: CAMPAIGNS_QUERY_KEY,
+    queryFn: () => CampaignService.listCampaigns(),
+  })
+
+  return {
+    campaigns: data ?? [],
+    isLoading,
+    // Assigning posts changes the counts
+    refreshCampaigns: () => queryClient.invalidateQueries({ queryKey: CAMPAIGNS_QUERY_KEY }),
+  }
+}
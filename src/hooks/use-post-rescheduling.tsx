@@ -0,0 +1,139 @@
+import * as React from "react"
+import { ContentPost } from "@/types/content"
+import { ContentService } from "@/lib/contentService"
+import { CadenceService } from "@/lib/cadenceService"
+import { toast } from "@/hooks/use-toast"
+import { ToastAction } from "@/components/ui/toast"
+import { formatInTimeZone, getBrowserTimeZone } from "@/lib/timezones"
+
+interface Move {
+  postId: string
+  title?: string
+  from?: string
+  to: string
+}
+
+/**
+ * Optimistic rescheduling for calendar views: the local list moves first, the update is sent
+ * after, and a failure puts the post back. Every successful move can be undone.
+ * Targets are real instants; timeZone only affects how times read in the toasts.
+ * Moves that break a cadence rule still go through, with the warning and a suggested time in the toast.
+ */
+export function usePostRescheduling(
+  setPosts: React.Dispatch<React.SetStateAction<ContentPost[]>>,
+  timeZone: string = getBrowserTimeZone()
+) {
+  const historyRef = React.useRef<Move[]>([])
+  const [canUndo, setCanUndo] = React.useState(false)
+  const formatTime = React.useCallback(
+    (date: Date) => formatInTimeZone(date, timeZone, "EEE, MMM d 'at' h:mm a"),
+    [timeZone]
+  )
+
+  const applyDate = React.useCallback((postId: string, scheduledDate: string | undefined) => {
+    setPosts(prev => prev.map(post => (post.id === postId ? { ...post, scheduled_date: scheduledDate } : post)))
+  }, [setPosts])
+
+  const undo = React.useCallback(async (move: Move | undefined = historyRef.current[historyRef.current.length - 1]) => {
+    if (!move) return
+
+    historyRef.current = historyRef.current.filter(item => item !== move)
+    setCanUndo(historyRef.current.length > 0)
+
+    // Same rule as reschedule: putting a post back on a passed time would publish it straight away
+    if (move.from && new Date(move.from).getTime() < Date.now()) {
+      toast({
+        title: "Can't undo this move",
+        description: `"${move.title || "Untitled"}" was scheduled for ${formatTime(new Date(move.from))}, which has already passed.`,
+        variant: "destructive",
+      })
+      return
+    }
+
+    applyDate(move.postId, move.from)
+
+    try {
+      await ContentService.updatePost(move.postId, { scheduled_date: move.from ?? null })
+      toast({
+        title: "Reschedule undone",
+        description: move.from
+          ? `"${move.title || "Untitled"}" is back on ${formatTime(new Date(move.from))}`
+          : `"${move.title || "Untitled"}" is unscheduled again`,
+      })
+    } catch (error) {
+      console.error("Error undoing reschedule:", error)
+      applyDate(move.postId, move.to)
+      toast({
+        title: "Error",
+        description: "Failed to undo the reschedule.",
+        variant: "destructive",
+      })
+    }
+  }, [applyDate, formatTime])
+
+  const reschedule = React.useCallback(async (post: ContentPost, target: Date): Promise<boolean> => {
+    if (target.getTime() < Date.now()) {
+      toast({
+        title: "Can't schedule in the past",
+        description: `${formatTime(target)} has already passed.`,
+        variant: "destructive",
+      })
+      return false
+    }
+
+    if (post.scheduled_date && new Date(post.scheduled_date).getTime() === target.getTime()) {
+      return false
+    }
+
+    const move: Move = { postId: post.id, title: post.title, from: post.scheduled_date, to: target.toISOString() }
+    applyDate(post.id, move.to)
+
+    // Checked alongside the update; a failed check only loses the warning
+    const cadenceCheck = post.platform
+      ? CadenceService.checkSchedule({ postId: post.id, platform: post.platform, date: target }).catch(error => {
+          console.error("Error checking cadence rules:", error)
+          return null
+        })
+      : Promise.resolve(null)
+
+    try {
+      await ContentService.updatePost(post.id, { scheduled_date: move.to })
+      historyRef.current.push(move)
+      setCanUndo(true)
+      const check = await cadenceCheck
+      const violations = check?.violations ?? []
+      const suggestion = check?.suggestions[0]
+      toast({
+        title: violations.length > 0 ? "Post rescheduled against cadence rules" : "Post rescheduled",
+        description: violations.length > 0 ? (
+          <div className="space-y-1">
+            <p>"{post.title || "Untitled"}" moved to {formatTime(target)}.</p>
+            {violations.map(violation => (
+              <p key={violation.kind} className="text-amber-600 dark:text-amber-400">{violation.message}</p>
+            ))}
+            {suggestion && <p>{formatTime(suggestion)} would fit the rules.</p>}
+          </div>
+        ) : (
+          `"${post.title || "Untitled"}" moved to ${formatTime(target)}`
+        ),
+        action: (
+          <ToastAction altText="Undo reschedule" onClick={() => undo(move)}>
+            Undo
+          </ToastAction>
+        ),
+      })
+      return true
+    } catch (error) {
+      console.error("Error rescheduling post:", error)
+      applyDate(post.id, move.from)
+      toast({
+        title: "Error",
+        description: "Failed to reschedule post.",
+        variant: "destructive",
+      })
+      return false
+    }
+  }, [applyDate, undo, formatTime])
+
+  return { reschedule, undo: () => undo(), canUndo }
+}
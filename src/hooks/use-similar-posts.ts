@@ -0,0 +1,29 @@
+import { useMemo } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { ContentService } from "@/lib/contentService"
+import { DEFAULT_SIMILARITY_THRESHOLD, findSimilarPosts, shinglePosts, SimilarityInput } from "@/lib/similarity"
+
+/**
+ * Library posts that are near-duplicates of a draft; pass null while there is nothing to check
+ * The library is fetched once per check and compared locally, so typing doesn't hit the database.
+ */
+export function useSimilarPosts(candidate: SimilarityInput | null, threshold = DEFAULT_SIMILARITY_THRESHOLD) {
+  const { data: library, isFetching } = useQuery({
+    queryKey: ["similarity-library"],
+    queryFn: () => ContentService.getAllPosts(),
+    enabled: !!candidate,
+  })
+
+  // The library is shingled once per fetch; only the draft is re-shingled as it changes
+  const shingledLibrary = useMemo(() => (library ? shinglePosts(library) : null), [library])
+
+  // Keyed on the values rather than the object, which callers rebuild every render
+  const id = candidate?.id
+  const content = candidate?.content
+  const matches = useMemo(
+    () => (content !== undefined && shingledLibrary ? findSimilarPosts({ id, content }, shingledLibrary, threshold) : []),
+    [id, content, shingledLibrary, threshold]
+  )
+
+  return { matches, isChecking: !!candidate && isFetching }
+}
@@ -0,0 +1,31 @@
+import { useMemo } from "react"
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { TagService } from "@/lib/tagService"
+import { TagWithUsage } from "@/types/tag"
+
+export const TAGS_QUERY_KEY = ["tags"]
+
+/**
+ * Registered tags with usage counts, plus a colour lookup by name for rendering post badges
+ */
+export function useTags() {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery({
+    queryKey: TAGS_QUERY_KEY,
+    queryFn: () => TagService.listTags(),
+  })
+
+  const tags = useMemo<TagWithUsage[]>(() => data ?? [], [data])
+  const colorByName = useMemo(
+    () => new Map(tags.filter(tag => tag.color).map(tag => [tag.name.toLowerCase(), tag.color as string])),
+    [tags]
+  )
+
+  return {
+    tags,
+    isLoading,
+    tagColor: (name: string) => colorByName.get(name.toLowerCase()) ?? null,
+    // Saving posts can register tags and changes usage counts
+    refreshTags: () => queryClient.invalidateQueries({ queryKey: TAGS_QUERY_KEY }),
+  }
+}
@@ -0,0 +1,31 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { WorkspaceSettingsService } from "@/lib/workspaceSettingsService"
+import { getBrowserTimeZone } from "@/lib/timezones"
+
+const WORKSPACE_TIMEZONE_KEY = ["workspace-settings", "timezone"]
+
+/**
+ * The workspace default scheduling zone; falls back to the browser's zone until one is saved
+ */
+export function useWorkspaceTimeZone() {
+  const queryClient = useQueryClient()
+  const { data, isLoading } = useQuery({
+    queryKey: WORKSPACE_TIMEZONE_KEY,
+    queryFn: () => WorkspaceSettingsService.getTimeZone(),
+    staleTime: 5 * 60 * 1000,
+  })
+
+  const setWorkspaceTimeZone = async (timeZone: string) => {
+    await WorkspaceSettingsService.setTimeZone(timeZone)
+    queryClient.setQueryData(WORKSPACE_TIMEZONE_KEY, timeZone)
+    // Slot occurrences are computed in the workspace zone
+    queryClient.invalidateQueries({ queryKey: ["next-free-slot"] })
+  }
+
+  return {
+    timeZone: data ?? getBrowserTimeZone(),
+    isSet: !!data,
+    isLoading,
+    setWorkspaceTimeZone,
+  }
+}
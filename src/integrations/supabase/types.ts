@@ -125,6 +125,57 @@ export type Database = {
         }
         Relationships: []
       }
+      blackout_dates: {
+        Row: {
+          created_at: string
+          date: string
+          id: string
+          label: string | null
+          platform: string | null
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          id?: string
+          label?: string | null
+          platform?: string | null
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          id?: string
+          label?: string | null
+          platform?: string | null
+        }
+        Relationships: []
+      }
+      cadence_rules: {
+        Row: {
+          created_at: string
+          id: string
+          max_posts_per_day: number | null
+          min_gap_minutes: number | null
+          platform: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          max_posts_per_day?: number | null
+          min_gap_minutes?: number | null
+          platform: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          max_posts_per_day?: number | null
+          min_gap_minutes?: number | null
+          platform?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       contacts: {
         Row: {
           action_plan_doc_id: string | null
@@ -170,16 +221,87 @@ export type Database = {
         }
         Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          id: string
+          label: string | null
+          last_accessed_at: string | null
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          last_accessed_at?: string | null
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: []
+      }
+      campaigns: {
+        Row: {
+          created_at: string
+          end_date: string
+          goal: string | null
+          id: string
+          name: string
+          start_date: string
+          target_platforms: string[]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          end_date: string
+          goal?: string | null
+          id?: string
+          name: string
+          start_date: string
+          target_platforms?: string[]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          end_date?: string
+          goal?: string | null
+          id?: string
+          name?: string
+          start_date?: string
+          target_platforms?: string[]
+          updated_at?: string
+        }
+        Relationships: []
+      }
       content_posts: {
         Row: {
+          campaign_id: string | null
           content: string
           content_type: string
           created_at: string
+          deleted_at: string | null
           edit_history: Json
+          external_post_id: string | null
+          external_url: string | null
           id: string
+          last_publish_error: string | null
+          next_publish_attempt_at: string | null
           original_content: string | null
           platform: string | null
+          publish_attempts: number
+          published_at: string | null
+          publishing_started_at: string | null
           scheduled_date: string | null
+          scheduled_timezone: string | null
+          search_vector: unknown | null
           source_data: Json
           status: string
           tags: string[] | null
@@ -187,14 +309,25 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          campaign_id?: string | null
           content: string
           content_type: string
           created_at?: string
+          deleted_at?: string | null
           edit_history?: Json
+          external_post_id?: string | null
+          external_url?: string | null
           id?: string
+          last_publish_error?: string | null
+          next_publish_attempt_at?: string | null
           original_content?: string | null
           platform?: string | null
+          publish_attempts?: number
+          published_at?: string | null
+          publishing_started_at?: string | null
           scheduled_date?: string | null
+          scheduled_timezone?: string | null
+          search_vector?: unknown | null
           source_data: Json
           status?: string
           tags?: string[] | null
@@ -202,21 +335,40 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          campaign_id?: string | null
           content?: string
           content_type?: string
           created_at?: string
+          deleted_at?: string | null
           edit_history?: Json
+          external_post_id?: string | null
+          external_url?: string | null
           id?: string
+          last_publish_error?: string | null
+          next_publish_attempt_at?: string | null
           original_content?: string | null
           platform?: string | null
+          publish_attempts?: number
+          published_at?: string | null
+          publishing_started_at?: string | null
           scheduled_date?: string | null
+          scheduled_timezone?: string | null
+          search_vector?: unknown | null
           source_data?: Json
           status?: string
           tags?: string[] | null
           title?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "content_posts_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "campaigns"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       meetings: {
         Row: {
@@ -293,6 +445,123 @@ export type Database = {
         }
         Relationships: []
       }
+      posting_slots: {
+        Row: {
+          created_at: string
+          day_of_week: number
+          id: string
+          is_active: boolean
+          platform: string
+          time_of_day: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week: number
+          id?: string
+          is_active?: boolean
+          platform: string
+          time_of_day: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number
+          id?: string
+          is_active?: boolean
+          platform?: string
+          time_of_day?: string
+        }
+        Relationships: []
+      }
+      prompt_templates: {
+        Row: {
+          body: string
+          created_at: string
+          description: string | null
+          forked_from_version: number | null
+          id: string
+          is_active: boolean
+          required_variables: string[]
+          template_key: string
+          version: number
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          description?: string | null
+          forked_from_version?: number | null
+          id?: string
+          is_active?: boolean
+          required_variables?: string[]
+          template_key: string
+          version: number
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          description?: string | null
+          forked_from_version?: number | null
+          id?: string
+          is_active?: boolean
+          required_variables?: string[]
+          template_key?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      saved_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          name: string
+          owner_key: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name: string
+          owner_key: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          name?: string
+          owner_key?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          color: string | null
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          color?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       viral_ads_submissions: {
         Row: {
           ad_inspiration_url: string | null
@@ -449,6 +718,30 @@ export type Database = {
         }
         Relationships: []
       }
+      workspace_settings: {
+        Row: {
+          created_at: string
+          id: string
+          timezone: string
+          trash_retention_days: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          timezone?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          timezone?: string
+          trash_retention_days?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       meetings_summary: {
@@ -495,7 +788,106 @@ export type Database = {
       }
     }
     Functions: {
-      [_ in never]: never
+      activate_prompt_template: {
+        Args: {
+          target_key: string
+          target_version: number
+        }
+        Returns: undefined
+      }
+      bulk_schedule_posts: {
+        Args: { assignments: Json }
+        Returns: Database["public"]["Tables"]["content_posts"]["Row"][]
+      }
+      bulk_update_post_tags: {
+        Args: { add_tags?: string[]; post_ids: string[]; remove_tags?: string[] }
+        Returns: Database["public"]["Tables"]["content_posts"]["Row"][]
+      }
+      canonical_tags: {
+        Args: { input: string[] }
+        Returns: string[]
+      }
+      claim_due_posts: {
+        Args: { batch_size?: number; lease_seconds?: number }
+        Returns: Database["public"]["Tables"]["content_posts"]["Row"][]
+      }
+      delete_tag: {
+        Args: { target_id: string }
+        Returns: number
+      }
+      immutable_array_to_string: {
+        Args: { arr: string[]; sep: string }
+        Returns: string
+      }
+      list_campaigns_with_progress: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          archived_posts: number
+          created_at: string
+          draft_posts: number
+          end_date: string
+          failed_posts: number
+          goal: string
+          id: string
+          name: string
+          published_posts: number
+          scheduled_posts: number
+          start_date: string
+          target_platforms: string[]
+          total_posts: number
+          updated_at: string
+        }[]
+      }
+      list_tags_with_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          color: string
+          created_at: string
+          description: string
+          id: string
+          name: string
+          post_count: number
+          updated_at: string
+        }[]
+      }
+      merge_tags: {
+        Args: { source_ids: string[]; target_id: string }
+        Returns: number
+      }
+      purge_expired_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      rename_tag: {
+        Args: { new_name: string; target_id: string }
+        Returns: number
+      }
+      search_content_posts: {
+        Args: {
+          filter_campaign_id?: string
+          filter_category?: string
+          filter_content_type?: string
+          filter_created_after?: string
+          filter_created_before?: string
+          filter_platform?: string
+          filter_scheduled_after?: string
+          filter_scheduled_before?: string
+          filter_status?: string
+          filter_tags?: string[]
+          filter_tags_any?: boolean
+          filter_tone?: string
+          filter_trashed?: boolean
+          result_limit?: number
+          result_offset?: number
+          search_query: string
+        }
+        Returns: {
+          post: Json
+          rank: number
+          snippet: string
+          total_count: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,151 @@
+/**
+ * Cadence rules: minimum gap between posts, posts per day and blackout dates
+ * Checks are warnings, not errors; every scheduling surface shows them with a few nearby times
+ * that satisfy all rules. Days are calendar days in the workspace timezone.
+ */
+
+import { addDays, addMinutes, differenceInMinutes, startOfDay } from "date-fns";
+import type { ContentPost } from "@/types/content";
+import type { BlackoutDate, CadenceCandidate, CadenceRule, CadenceViolation } from "@/types/cadence";
+import type { PostingSlot } from "@/types/postingSlot";
+import { freeOccurrences } from "@/lib/postingQueue";
+import { formatInTimeZone, fromZonedDate, toZonedDate } from "@/lib/timezones";
+
+// How far past the requested time alternatives are looked for
+export const SUGGESTION_HORIZON_DAYS = 14;
+const SUGGESTION_COUNT = 3;
+// Gap-based suggestions are rounded away from the neighbouring post to read as normal times
+const SUGGESTION_ROUNDING_MINUTES = 5;
+
+export interface CadenceContext {
+  rules: CadenceRule[];
+  blackouts: BlackoutDate[];
+  // Scheduled posts around the candidate; other statuses are ignored
+  posts: ContentPost[];
+  slots: PostingSlot[];
+  timeZone: string;
+}
+
+const samePlatform = (a?: string | null, b?: string | null) => (a || "").toLowerCase() === (b || "").toLowerCase();
+
+const dayKey = (date: Date, timeZone: string) => formatInTimeZone(date, timeZone, "yyyy-MM-dd");
+
+export function findCadenceRule(rules: CadenceRule[], platform: string): CadenceRule | undefined {
+  return rules.find(rule => samePlatform(rule.platform, platform));
+}
+
+export function findBlackout(blackouts: BlackoutDate[], date: Date, platform: string, timeZone: string): BlackoutDate | undefined {
+  const key = dayKey(date, timeZone);
+  return blackouts.find(blackout => blackout.date === key && (!blackout.platform || samePlatform(blackout.platform, platform)));
+}
+
+const otherScheduledPosts = (candidate: CadenceCandidate, posts: ContentPost[]) =>
+  posts.filter(post =>
+    post.id !== candidate.postId &&
+    post.status === "scheduled" &&
+    post.scheduled_date &&
+    samePlatform(post.platform, candidate.platform)
+  );
+
+/**
+ * Every rule the candidate breaks; empty when the schedule is fine
+ */
+export function checkCadence(candidate: CadenceCandidate, context: CadenceContext): CadenceViolation[] {
+  const { rules, blackouts, posts, timeZone } = context;
+  const violations: CadenceViolation[] = [];
+  const formatDay = (date: Date) => formatInTimeZone(date, timeZone, "EEE, MMM d");
+
+  const blackout = findBlackout(blackouts, candidate.date, candidate.platform, timeZone);
+  if (blackout) {
+    violations.push({
+      kind: "blackout",
+      message: `${formatDay(candidate.date)} is a blackout date${blackout.label ? `: ${blackout.label}` : ""}`,
+    });
+  }
+
+  const rule = findCadenceRule(rules, candidate.platform);
+  if (!rule) return violations;
+
+  const others = otherScheduledPosts(candidate, posts);
+
+  if (rule.min_gap_minutes) {
+    const closest = others
+      .map(post => ({ post, gap: Math.abs(differenceInMinutes(new Date(post.scheduled_date!), candidate.date)) }))
+      .filter(({ gap }) => gap < rule.min_gap_minutes!)
+      .sort((a, b) => a.gap - b.gap)[0];
+    if (closest) {
+      violations.push({
+        kind: "min_gap",
+        message: `Only ${closest.gap} min from "${closest.post.title || "Untitled"}" at ${formatInTimeZone(new Date(closest.post.scheduled_date!), timeZone, "h:mm a")}; ${rule.platform} posts should be ${rule.min_gap_minutes} min apart`,
+        conflictingPostId: closest.post.id,
+      });
+    }
+  }
+
+  if (rule.max_posts_per_day) {
+    const key = dayKey(candidate.date, timeZone);
+    const sameDay = others.filter(post => dayKey(new Date(post.scheduled_date!), timeZone) === key).length;
+    if (sameDay >= rule.max_posts_per_day) {
+      violations.push({
+        kind: "max_per_day",
+        message: `${rule.platform} already has ${sameDay} post${sameDay === 1 ? "" : "s"} on ${formatDay(candidate.date)} (limit ${rule.max_posts_per_day} a day)`,
+      });
+    }
+  }
+
+  return violations;
+}
+
+const roundMinutes = (date: Date, round: (value: number) => number) => {
+  const stepMs = SUGGESTION_ROUNDING_MINUTES * 60_000;
+  return new Date(round(date.getTime() / stepMs) * stepMs);
+};
+
+/**
+ * Times from the candidate's day onwards that pass every rule, closest to the requested time first
+ * and returned in date order. Options are free posting slots, the same time on following days, and
+ * the first times just outside the minimum gap of neighbouring posts.
+ */
+export function suggestAlternatives(
+  candidate: CadenceCandidate,
+  context: CadenceContext,
+  now: Date = new Date(),
+  count: number = SUGGESTION_COUNT
+): Date[] {
+  const { rules, posts, slots, timeZone } = context;
+  const zoned = toZonedDate(candidate.date, timeZone);
+  const dayStart = fromZonedDate(startOfDay(zoned), timeZone);
+  const windowStart = dayStart > now ? dayStart : now;
+  const horizonEnd = addDays(candidate.date, SUGGESTION_HORIZON_DAYS);
+  const options: Date[] = [];
+
+  options.push(...freeOccurrences(slots, posts, windowStart, horizonEnd, timeZone, candidate.platform).map(({ date }) => date));
+
+  // Same wall-clock time on the following days, so DST doesn't shift it
+  for (let day = 1; day <= SUGGESTION_HORIZON_DAYS; day++) {
+    options.push(fromZonedDate(addDays(zoned, day), timeZone));
+  }
+
+  const gap = findCadenceRule(rules, candidate.platform)?.min_gap_minutes;
+  if (gap) {
+    otherScheduledPosts(candidate, posts)
+      .map(post => new Date(post.scheduled_date!))
+      .filter(date => Math.abs(differenceInMinutes(date, candidate.date)) < 24 * 60)
+      .forEach(date => {
+        options.push(roundMinutes(addMinutes(date, gap), Math.ceil));
+        options.push(roundMinutes(addMinutes(date, -gap), Math.floor));
+      });
+  }
+
+  const seen = new Set<number>([Math.floor(candidate.date.getTime() / 60_000)]);
+  return options
+    .filter(date => {
+      const minute = Math.floor(date.getTime() / 60_000);
+      if (seen.has(minute) || date < windowStart || date <= now || date > horizonEnd) return false;
+      seen.add(minute);
+      return checkCadence({ ...candidate, date }, context).length === 0;
+    })
+    .sort((a, b) => Math.abs(a.getTime() - candidate.date.getTime()) - Math.abs(b.getTime() - candidate.date.getTime()))
+    .slice(0, count)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
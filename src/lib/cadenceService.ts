@@ -0,0 +1,116 @@
+import { supabase } from "@/integrations/supabase/client";
+import { BlackoutDate, CadenceCandidate, CadenceCheck, CadenceRule, CreateBlackoutDateRequest, SaveCadenceRuleRequest } from "@/types/cadence";
+import { ContentService } from "@/lib/contentService";
+import { PostingSlotService } from "@/lib/postingSlotService";
+import { checkCadence, SUGGESTION_HORIZON_DAYS, suggestAlternatives } from "@/lib/cadence";
+import { WorkspaceSettingsService } from "@/lib/workspaceSettingsService";
+import { addDays } from "date-fns";
+
+export class CadenceService {
+  static async listRules(): Promise<CadenceRule[]> {
+    const { data, error } = await supabase
+      .from('cadence_rules')
+      .select('*')
+      .order('platform', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch cadence rules: ${error.message}`);
+    }
+
+    return (data || []) as CadenceRule[];
+  }
+
+  /**
+   * Create or replace the rule for a platform
+   */
+  static async saveRule(request: SaveCadenceRuleRequest): Promise<CadenceRule> {
+    const { data, error } = await supabase
+      .from('cadence_rules')
+      .upsert(request, { onConflict: 'platform' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save cadence rule: ${error.message}`);
+    }
+
+    return data as CadenceRule;
+  }
+
+  static async deleteRule(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('cadence_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete cadence rule: ${error.message}`);
+    }
+  }
+
+  static async listBlackouts(): Promise<BlackoutDate[]> {
+    const { data, error } = await supabase
+      .from('blackout_dates')
+      .select('*')
+      .order('date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch blackout dates: ${error.message}`);
+    }
+
+    return (data || []) as BlackoutDate[];
+  }
+
+  static async addBlackout(request: CreateBlackoutDateRequest): Promise<BlackoutDate> {
+    const { data, error } = await supabase
+      .from('blackout_dates')
+      .insert([request])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to add blackout date: ${error.message}`);
+    }
+
+    return data as BlackoutDate;
+  }
+
+  static async deleteBlackout(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('blackout_dates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete blackout date: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check a schedule against the cadence rules; suggestions are only computed when something is wrong
+   */
+  static async checkSchedule(candidate: CadenceCandidate): Promise<CadenceCheck> {
+    const [rules, blackouts, timeZone] = await Promise.all([
+      CadenceService.listRules(),
+      CadenceService.listBlackouts(),
+      WorkspaceSettingsService.resolveTimeZone()
+    ]);
+    if (rules.length === 0 && blackouts.length === 0) {
+      return { violations: [], suggestions: [], timeZone };
+    }
+
+    // A day either side covers the gap and daily-limit checks; the horizon covers the suggestions
+    const [posts, slots] = await Promise.all([
+      ContentService.getScheduledPosts(addDays(candidate.date, -1), addDays(candidate.date, SUGGESTION_HORIZON_DAYS + 1)),
+      PostingSlotService.listSlots()
+    ]);
+    const context = { rules, blackouts, posts, slots, timeZone };
+    const violations = checkCadence(candidate, context);
+
+    return {
+      violations,
+      suggestions: violations.length > 0 ? suggestAlternatives(candidate, context) : [],
+      timeZone
+    };
+  }
+}
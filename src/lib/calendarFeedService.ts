@@ -0,0 +1,56 @@
+import { supabase } from "@/integrations/supabase/client";
+import { CalendarFeedToken } from "@/types/calendarFeed";
+
+const FEED_FUNCTION = 'ics-feed';
+
+export class CalendarFeedService {
+  static async listFeeds(): Promise<CalendarFeedToken[]> {
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .select('*')
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch calendar feeds: ${error.message}`);
+    }
+
+    return (data || []) as CalendarFeedToken[];
+  }
+
+  static async createFeed(label?: string): Promise<CalendarFeedToken> {
+    const { data, error } = await supabase
+      .from('calendar_feed_tokens')
+      .insert([{ label: label?.trim() || null }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create calendar feed: ${error.message}`);
+    }
+
+    return data as CalendarFeedToken;
+  }
+
+  /**
+   * Revoked tokens are kept so the URL keeps answering "not found" instead of being reissued
+   */
+  static async revokeFeed(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('calendar_feed_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to revoke calendar feed: ${error.message}`);
+    }
+  }
+
+  /**
+   * https URL of the feed; webcal: makes calendar apps offer to subscribe instead of downloading
+   */
+  static getFeedUrl(token: string, protocol: 'https' | 'webcal' = 'https'): string {
+    const url = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${FEED_FUNCTION}?token=${encodeURIComponent(token)}`;
+    return protocol === 'webcal' ? url.replace(/^https?:/, 'webcal:') : url;
+  }
+}
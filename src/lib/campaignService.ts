@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Campaign, CampaignWithProgress, SaveCampaignRequest } from "@/types/campaign";
+import { ContentPost } from "@/types/content";
+
+export class CampaignService {
+  static async listCampaigns(): Promise<CampaignWithProgress[]> {
+    const { data, error } = await supabase.rpc('list_campaigns_with_progress');
+
+    if (error) {
+      throw new Error(`Failed to fetch campaigns: ${error.message}`);
+    }
+
+    return (data || []).map(({ draft_posts, scheduled_posts, published_posts, failed_posts, archived_posts, total_posts, ...campaign }) => ({
+      ...campaign,
+      total_posts: Number(total_posts),
+      status_counts: {
+        draft: Number(draft_posts),
+        scheduled: Number(scheduled_posts),
+        published: Number(published_posts),
+        failed: Number(failed_posts),
+        archived: Number(archived_posts)
+      }
+    })) as CampaignWithProgress[];
+  }
+
+  static async getCampaign(id: string): Promise<Campaign | null> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch campaign: ${error.message}`);
+    }
+
+    return data as Campaign | null;
+  }
+
+  static async createCampaign(request: SaveCampaignRequest): Promise<Campaign> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .insert([{ ...request, name: request.name.trim() }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create campaign: ${error.message}`);
+    }
+
+    return data as Campaign;
+  }
+
+  static async updateCampaign(id: string, request: SaveCampaignRequest): Promise<Campaign> {
+    const { data, error } = await supabase
+      .from('campaigns')
+      .update({ ...request, name: request.name.trim() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update campaign: ${error.message}`);
+    }
+
+    return data as Campaign;
+  }
+
+  /**
+   * Posts stay in the library; the database unassigns them
+   */
+  static async deleteCampaign(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('campaigns')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete campaign: ${error.message}`);
+    }
+  }
+
+  /**
+   * The campaign's live posts, dated ones first in date order
+   */
+  static async getCampaignPosts(id: string): Promise<ContentPost[]> {
+    const { data, error } = await supabase
+      .from('content_posts')
+      .select('*')
+      .eq('campaign_id', id)
+      .is('deleted_at', null)
+      .order('scheduled_date', { ascending: true, nullsFirst: false })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch campaign posts: ${error.message}`);
+    }
+
+    return (data || []) as ContentPost[];
+  }
+
+  /**
+   * Move posts into a campaign, or out of any campaign with null
+   */
+  static async assignPosts(ids: string[], campaignId: string | null): Promise<void> {
+    const { error } = await supabase
+      .from('content_posts')
+      .update({ campaign_id: campaignId })
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to update campaign posts: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Campaign date ranges, progress and the helpers the campaign page and its mini calendar share
+ * Campaign days are calendar days in the workspace timezone, stored as "yyyy-MM-dd" with both ends
+ * included; post times are converted into that zone before they are compared with the range.
+ */
+
+import { eachMonthOfInterval, format, isAfter, isBefore, isSameYear, isValid, parse, startOfDay } from "date-fns";
+import { Campaign, CampaignStatusCounts } from "@/types/campaign";
+import { ContentPost } from "@/types/content";
+import { PLATFORM_RULES, PREVIEW_PLATFORMS } from "@/lib/platformPreview";
+import { toZonedDate } from "@/lib/timezones";
+
+export const CAMPAIGN_PLATFORMS = PREVIEW_PLATFORMS.map(platform => PLATFORM_RULES[platform].label);
+
+// Dot colours for posts on the mini calendar and the segments of the progress bar
+export const CAMPAIGN_STATUS_STYLES: Record<ContentPost['status'], { label: string; className: string }> = {
+  published: { label: 'Published', className: 'bg-green-500' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-500' },
+  draft: { label: 'Draft', className: 'bg-muted-foreground/50' },
+  failed: { label: 'Failed', className: 'bg-red-500' },
+  archived: { label: 'Archived', className: 'bg-zinc-700' }
+};
+
+export type CampaignPhase = 'upcoming' | 'active' | 'ended';
+
+export const CAMPAIGN_PHASE_BADGES = {
+  upcoming: { label: 'Upcoming', variant: 'outline' },
+  active: { label: 'Active', variant: 'default' },
+  ended: { label: 'Ended', variant: 'secondary' }
+} as const;
+
+export const parseCampaignDay = (value: string): Date => parse(value, 'yyyy-MM-dd', new Date());
+
+export const isValidCampaignDay = (value: string): boolean => !!value && isValid(parseCampaignDay(value));
+
+export function formatCampaignRange(campaign: Pick<Campaign, 'start_date' | 'end_date'>): string {
+  const start = parseCampaignDay(campaign.start_date);
+  const end = parseCampaignDay(campaign.end_date);
+  return isSameYear(start, end)
+    ? `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+    : `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`;
+}
+
+/**
+ * Where today (a zoned date, see lib/timezones) falls relative to the campaign's days
+ */
+export function campaignPhase(campaign: Pick<Campaign, 'start_date' | 'end_date'>, zonedToday: Date): CampaignPhase {
+  const today = startOfDay(zonedToday);
+  if (isBefore(today, parseCampaignDay(campaign.start_date))) return 'upcoming';
+  if (isAfter(today, parseCampaignDay(campaign.end_date))) return 'ended';
+  return 'active';
+}
+
+/**
+ * Share of the campaign's posts that are published, 0–100; archived posts don't count either way
+ */
+export function campaignCompletion(counts: CampaignStatusCounts): number {
+  const relevant = counts.draft + counts.scheduled + counts.published + counts.failed;
+  return relevant > 0 ? Math.round((counts.published / relevant) * 100) : 0;
+}
+
+export function countPostsByStatus(posts: ContentPost[]): CampaignStatusCounts {
+  const counts: CampaignStatusCounts = { draft: 0, scheduled: 0, published: 0, failed: 0, archived: 0 };
+  posts.forEach(post => {
+    counts[post.status] += 1;
+  });
+  return counts;
+}
+
+/**
+ * When a post goes (or went) out, as a zoned date in the given zone; null for undated drafts
+ */
+export function campaignPostDate(post: ContentPost, timeZone: string): Date | null {
+  const value = post.status === 'published' && post.published_at ? post.published_at : post.scheduled_date;
+  return value ? toZonedDate(new Date(value), timeZone) : null;
+}
+
+export function isOutsideCampaign(campaign: Pick<Campaign, 'start_date' | 'end_date'>, zonedDate: Date): boolean {
+  const day = startOfDay(zonedDate);
+  return isBefore(day, parseCampaignDay(campaign.start_date)) || isAfter(day, parseCampaignDay(campaign.end_date));
+}
+
+// Platform casing varies between posts ("LinkedIn", "linkedin"); a campaign without targets accepts any
+export function isOffTargetPlatform(campaign: Pick<Campaign, 'target_platforms'>, post: ContentPost): boolean {
+  if (!post.platform || campaign.target_platforms.length === 0) return false;
+  return !campaign.target_platforms.some(platform => platform.toLowerCase() === post.platform!.toLowerCase());
+}
+
+export const campaignMonths = (campaign: Pick<Campaign, 'start_date' | 'end_date'>): Date[] =>
+  eachMonthOfInterval({ start: parseCampaignDay(campaign.start_date), end: parseCampaignDay(campaign.end_date) });
@@ -1,5 +1,34 @@
 import { supabase } from "@/integrations/supabase/client";
-import { ContentPost, CreateContentPostRequest, UpdateContentPostRequest } from "@/types/content";
+import { BulkScheduleAssignment, ContentPost, CreateContentPostRequest, EditHistoryEntry, ImportContentPostRequest, ListPostsParams, PostPage, PostSearchResult, UpdateContentPostRequest } from "@/types/content";
+import { toTsQuery } from "@/lib/searchQuery";
+
+export const DEFAULT_PAGE_SIZE = 24;
+const EXPORT_PAGE_SIZE = 500;
+
+// Keyset cursor for sorted listings; relevance-ranked search pages by offset instead.
+// value is null once paging reaches the unscheduled posts of a scheduled_date sort.
+type PostCursor = { value: string | null; id: string } | { offset: number };
+
+// Cursors are opaque to callers
+const encodeCursor = (cursor: PostCursor): string => btoa(JSON.stringify(cursor));
+
+const decodeCursor = (cursor: string): PostCursor => {
+  try {
+    const parsed = JSON.parse(atob(cursor));
+    if ((typeof parsed?.value === 'string' || parsed?.value === null) && typeof parsed?.id === 'string') {
+      return { value: parsed.value, id: parsed.id };
+    }
+    if (typeof parsed?.offset === 'number') {
+      return { offset: parsed.offset };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new Error('Invalid pagination cursor');
+};
+
+// Strip characters that PostgREST treats as syntax inside filter values
+const sanitizeFilterValue = (value: string): string => value.replace(/[,()"\\%*]/g, ' ').trim();
 
 export class ContentService {
   static async createPost(data: CreateContentPostRequest): Promise<ContentPost> {
@@ -20,10 +49,30 @@ export class ContentService {
     return result;
   }
 
+  // One insert for the whole file, so an import either lands completely or not at all.
+  // Rows missing a column other rows have (created_at) take the column default rather than NULL.
+  static async importPosts(posts: ImportContentPostRequest[]): Promise<ContentPost[]> {
+    const { data, error } = await supabase
+      .from('content_posts')
+      .insert(posts.map(post => ({
+        ...post,
+        edit_history: post.edit_history || [],
+        status: post.status || 'draft'
+      })), { defaultToNull: false })
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to import posts: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
   static async getAllPosts(): Promise<ContentPost[]> {
     const { data, error } = await supabase
       .from('content_posts')
       .select('*')
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -33,6 +82,172 @@ export class ContentService {
     return data || [];
   }
 
+  static async listPosts(params: ListPostsParams = {}): Promise<PostPage> {
+    const tsQuery = toTsQuery(params.search || '');
+    if (tsQuery) {
+      return this.listSearchResults(tsQuery, params);
+    }
+
+    const sortBy = params.sortBy || 'created_at';
+    const ascending = params.sortDirection === 'asc';
+    const pageSize = params.pageSize || DEFAULT_PAGE_SIZE;
+    const isFirstPage = !params.cursor;
+
+    let query = supabase
+      .from('content_posts')
+      .select('*', isFirstPage ? { count: 'exact' } : undefined);
+
+    query = params.trashed ? query.not('deleted_at', 'is', null) : query.is('deleted_at', null);
+
+    if (params.status) {
+      query = query.eq('status', params.status);
+    }
+
+    if (params.content_type) {
+      query = query.eq('content_type', params.content_type);
+    }
+
+    if (params.platform) {
+      // Platform values were saved with mixed casing ("LinkedIn" vs "linkedin")
+      query = query.ilike('platform', sanitizeFilterValue(params.platform));
+    }
+
+    if (params.tags && params.tags.length > 0) {
+      query = params.tagMatch === 'any' ? query.overlaps('tags', params.tags) : query.contains('tags', params.tags);
+    }
+
+    if (params.createdAfter) {
+      query = query.gte('created_at', params.createdAfter);
+    }
+
+    if (params.createdBefore) {
+      query = query.lt('created_at', params.createdBefore);
+    }
+
+    if (params.scheduledAfter) {
+      query = query.gte('scheduled_date', params.scheduledAfter);
+    }
+
+    if (params.scheduledBefore) {
+      query = query.lt('scheduled_date', params.scheduledBefore);
+    }
+
+    if (params.category) {
+      query = query.eq('source_data->>category', params.category);
+    }
+
+    if (params.tone) {
+      query = query.eq('source_data->>tone', params.tone);
+    }
+
+    if (params.campaignId) {
+      query = query.eq('campaign_id', params.campaignId);
+    }
+
+    if (params.cursor) {
+      const cursor = decodeCursor(params.cursor);
+      if (!('value' in cursor)) {
+        throw new Error('Invalid pagination cursor');
+      }
+      const { value, id } = cursor;
+      const op = ascending ? 'gt' : 'lt';
+      // NULLs sort last in both directions (only scheduled_date has them), so they follow every value
+      query = value === null
+        ? query.or(`and(${sortBy}.is.null,id.${op}.${id})`)
+        : query.or(`${sortBy}.${op}."${value}",and(${sortBy}.eq."${value}",id.${op}.${id}),${sortBy}.is.null`);
+    }
+
+    // Fetch one extra row to know whether another page exists
+    const { data, error, count } = await query
+      .order(sortBy, { ascending, nullsFirst: false })
+      .order('id', { ascending })
+      .limit(pageSize + 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch posts: ${error.message}`);
+    }
+
+    const rows: ContentPost[] = data || [];
+    const posts = rows.slice(0, pageSize);
+    const last = posts[posts.length - 1];
+
+    return {
+      posts,
+      nextCursor: rows.length > pageSize && last ? encodeCursor({ value: last[sortBy] ?? null, id: last.id }) : null,
+      totalCount: isFirstPage ? count ?? null : null
+    };
+  }
+
+  /**
+   * Every post matching the filters, walking all pages; for exports rather than rendering
+   */
+  static async listAllPosts(params: Omit<ListPostsParams, 'cursor' | 'pageSize'> = {}): Promise<ContentPost[]> {
+    const posts: ContentPost[] = [];
+    let cursor: string | null = null;
+    do {
+      const page = await this.listPosts({ ...params, cursor, pageSize: EXPORT_PAGE_SIZE });
+      posts.push(...page.posts);
+      cursor = page.nextCursor;
+    } while (cursor);
+    return posts;
+  }
+
+  // Search results are ordered by relevance, so ListPostsParams.sortBy does not apply
+  private static async listSearchResults(tsQuery: string, params: ListPostsParams): Promise<PostPage> {
+    const pageSize = params.pageSize || DEFAULT_PAGE_SIZE;
+    const cursor = params.cursor ? decodeCursor(params.cursor) : { offset: 0 };
+    if (!('offset' in cursor)) {
+      throw new Error('Invalid pagination cursor');
+    }
+
+    const { hits, totalCount } = await this.runSearch(tsQuery, params, pageSize, cursor.offset);
+    const nextOffset = cursor.offset + hits.length;
+
+    return {
+      posts: hits.map(hit => hit.post),
+      nextCursor: nextOffset < totalCount ? encodeCursor({ offset: nextOffset }) : null,
+      totalCount: params.cursor ? null : totalCount,
+      highlights: Object.fromEntries(hits.map(hit => [hit.post.id, hit.snippet]))
+    };
+  }
+
+  private static async runSearch(
+    tsQuery: string,
+    filters: ListPostsParams,
+    limit: number,
+    offset: number
+  ): Promise<PostSearchResult> {
+    const { data, error } = await supabase.rpc('search_content_posts', {
+      search_query: tsQuery,
+      filter_status: filters.status || null,
+      filter_content_type: filters.content_type || null,
+      filter_platform: filters.platform ? sanitizeFilterValue(filters.platform) : null,
+      filter_tags: filters.tags && filters.tags.length > 0 ? filters.tags : null,
+      result_limit: limit,
+      result_offset: offset,
+      filter_trashed: !!filters.trashed,
+      filter_tags_any: filters.tagMatch === 'any',
+      filter_created_after: filters.createdAfter || null,
+      filter_created_before: filters.createdBefore || null,
+      filter_scheduled_after: filters.scheduledAfter || null,
+      filter_scheduled_before: filters.scheduledBefore || null,
+      filter_category: filters.category || null,
+      filter_tone: filters.tone || null,
+      filter_campaign_id: filters.campaignId || null
+    });
+
+    if (error) {
+      throw new Error(`Failed to search posts: ${error.message}`);
+    }
+
+    const rows: Array<{ post: ContentPost; rank: number; snippet: string; total_count: number }> = data || [];
+
+    return {
+      hits: rows.map(row => ({ post: row.post, rank: row.rank, snippet: row.snippet })),
+      totalCount: rows.length > 0 ? Number(rows[0].total_count) : 0
+    };
+  }
+
   static async getPostById(id: string): Promise<ContentPost | null> {
     const { data, error } = await supabase
       .from('content_posts')
@@ -68,15 +283,100 @@ export class ContentService {
     return result;
   }
 
-  static async deletePost(id: string): Promise<void> {
+  /**
+   * Move a post to the Trash; it can be restored until purge_expired_trash removes it
+   */
+  static async trashPost(id: string): Promise<void> {
+    return this.trashPosts([id]);
+  }
+
+  // Bulk actions: each method is a single request however many posts are selected
+
+  static async updatePosts(ids: string[], data: UpdateContentPostRequest): Promise<ContentPost[]> {
+    const { data: result, error } = await supabase
+      .from('content_posts')
+      .update({
+        ...data,
+        updated_at: new Date().toISOString()
+      })
+      .in('id', ids)
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to update posts: ${error.message}`);
+    }
+
+    return result || [];
+  }
+
+  static async trashPosts(ids: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('content_posts')
+      .update({ deleted_at: new Date().toISOString() })
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to move posts to the trash: ${error.message}`);
+    }
+  }
+
+  static async restorePosts(ids: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('content_posts')
+      .update({ deleted_at: null })
+      .in('id', ids);
+
+    if (error) {
+      throw new Error(`Failed to restore posts: ${error.message}`);
+    }
+  }
+
+  // Only trashed posts can be deleted for good, so a stale selection can't remove live ones
+  static async deletePostsPermanently(ids: string[]): Promise<void> {
     const { error } = await supabase
       .from('content_posts')
       .delete()
-      .eq('id', id);
+      .in('id', ids)
+      .not('deleted_at', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to delete posts: ${error.message}`);
+    }
+  }
+
+  static async emptyTrash(): Promise<void> {
+    const { error } = await supabase
+      .from('content_posts')
+      .delete()
+      .not('deleted_at', 'is', null);
+
+    if (error) {
+      throw new Error(`Failed to empty the trash: ${error.message}`);
+    }
+  }
+
+  static async updatePostsTags(ids: string[], changes: { add?: string[]; remove?: string[] }): Promise<ContentPost[]> {
+    const { data, error } = await supabase.rpc('bulk_update_post_tags', {
+      post_ids: ids,
+      add_tags: changes.add || [],
+      remove_tags: changes.remove || []
+    });
+
+    if (error) {
+      throw new Error(`Failed to update tags: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  static async schedulePosts(assignments: BulkScheduleAssignment[]): Promise<ContentPost[]> {
+    const { data, error } = await supabase.rpc('bulk_schedule_posts', { assignments });
 
     if (error) {
-      throw new Error(`Failed to delete post: ${error.message}`);
+      throw new Error(`Failed to schedule posts: ${error.message}`);
     }
+
+    return data || [];
   }
 
   static async getPostsByStatus(status: ContentPost['status']): Promise<ContentPost[]> {
@@ -84,6 +384,7 @@ export class ContentService {
       .from('content_posts')
       .select('*')
       .eq('status', status)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -98,6 +399,7 @@ export class ContentService {
       .from('content_posts')
       .select('*')
       .eq('content_type', content_type)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false });
 
     if (error) {
@@ -107,18 +409,17 @@ export class ContentService {
     return data || [];
   }
 
-  static async searchPosts(query: string): Promise<ContentPost[]> {
-    const { data, error } = await supabase
-      .from('content_posts')
-      .select('*')
-      .or(`title.ilike.%${query}%,content.ilike.%${query}%`)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      throw new Error(`Failed to search posts: ${error.message}`);
+  static async searchPosts(
+    query: string,
+    filters: Omit<ListPostsParams, 'search' | 'cursor'> = {},
+    offset = 0
+  ): Promise<PostSearchResult> {
+    const tsQuery = toTsQuery(query);
+    if (!tsQuery) {
+      return { hits: [], totalCount: 0 };
     }
 
-    return data || [];
+    return this.runSearch(tsQuery, filters, filters.pageSize || DEFAULT_PAGE_SIZE, offset);
   }
 
   static async getScheduledPosts(startDate?: Date, endDate?: Date): Promise<ContentPost[]> {
@@ -126,7 +427,8 @@ export class ContentService {
       .from('content_posts')
       .select('*')
       .eq('status', 'scheduled')
-      .not('scheduled_date', 'is', null);
+      .not('scheduled_date', 'is', null)
+      .is('deleted_at', null);
 
     if (startDate) {
       query = query.gte('scheduled_date', startDate.toISOString());
@@ -145,6 +447,30 @@ export class ContentService {
     return data || [];
   }
 
+  // Hand a failed post back to the publishing worker; it goes out on the next run if its time has passed
+  static async retryPublish(id: string): Promise<ContentPost> {
+    const { data, error } = await supabase
+      .from('content_posts')
+      .update({
+        status: 'scheduled',
+        publish_attempts: 0,
+        last_publish_error: null,
+        next_publish_attempt_at: null,
+        publishing_started_at: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .eq('status', 'failed')
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to retry publishing: ${error.message}`);
+    }
+
+    return data;
+  }
+
   static async duplicatePost(id: string, newTitle?: string): Promise<ContentPost> {
     const originalPost = await this.getPostById(id);
     
@@ -160,30 +486,61 @@ export class ContentService {
       original_content: originalPost.original_content,
       platform: originalPost.platform,
       tags: originalPost.tags,
+      campaign_id: originalPost.campaign_id,
       status: 'draft' // Always create duplicates as drafts
     };
 
     return this.createPost(duplicateData);
   }
 
-  static async addEditToHistory(id: string, changes: string, newContent: string): Promise<ContentPost> {
+  static async addEditToHistory(
+    id: string,
+    changes: string,
+    newContent: string,
+    updates: UpdateContentPostRequest = {},
+    entryDetails: Pick<EditHistoryEntry, 'restored_from'> = {}
+  ): Promise<ContentPost> {
     const post = await this.getPostById(id);
     
     if (!post) {
       throw new Error('Post not found');
     }
 
-    const newHistoryEntry = {
+    const history = post.edit_history || [];
+    const title = updates.title ?? post.title;
+
+    // Record the version that existed before the first tracked edit so it can be diffed and restored
+    const baseline: EditHistoryEntry[] = history.length === 0 ? [{
+      timestamp: post.created_at,
+      changes: 'Initial version',
+      content: post.content,
+      title: post.title
+    }] : [];
+
+    const newHistoryEntry: EditHistoryEntry = {
       timestamp: new Date().toISOString(),
       changes,
-      content: newContent
+      content: newContent,
+      title,
+      ...entryDetails
     };
 
-    const updatedHistory = [...(post.edit_history || []), newHistoryEntry];
+    const updatedHistory = [...history, ...baseline, newHistoryEntry];
 
     return this.updatePost(id, {
+      ...updates,
       content: newContent,
       edit_history: updatedHistory
     });
   }
+
+  static async restoreRevision(id: string, revision: EditHistoryEntry): Promise<ContentPost> {
+    return this.addEditToHistory(
+      id,
+      'Restored earlier version',
+      revision.content,
+      revision.title !== undefined ? { title: revision.title } : {},
+      { restored_from: revision.timestamp }
+    );
+  }
 }
\ No newline at end of file
@@ -0,0 +1,416 @@
+/**
+ * Typed client for the n8n generation webhooks
+ * Every action the app sends is validated against a zod schema on the way out and on the way back.
+ */
+
+import { z } from "zod";
+
+const postCategorySchema = z.string().min(1);
+const toneSchema = z.string().min(1);
+
+const engagementOptionsSchema = z.object({
+  connect: z.boolean(),
+  like: z.boolean(),
+  repost: z.boolean(),
+  comment: z.boolean(),
+  commentKeyword: z.string().optional(),
+});
+
+// Hooks/angles requested when asking for several variants in one go
+export const VARIANT_ANGLES = [
+  "Bold statement hook",
+  "Personal story",
+  "Data-driven",
+  "Contrarian take",
+  "Question hook",
+];
+
+export const MAX_VARIANTS = VARIANT_ANGLES.length;
+
+export const generateRequestSchema = z.object({
+  action: z.literal("generate"),
+  category: postCategorySchema,
+  topic: z.string().min(1),
+  topicType: z.enum(["text", "url"]),
+  tone: toneSchema,
+  variants: z.number().int().min(1).max(MAX_VARIANTS).optional(),
+  angles: z.array(z.string()).optional(),
+});
+
+export const regenerateRequestSchema = z.object({
+  action: z.literal("regenerate"),
+  originalRequest: z.object({
+    category: postCategorySchema,
+    topic: z.string(),
+    topicType: z.enum(["text", "url", "askai"]),
+    tone: z.string(),
+  }),
+  generatedContent: z.string().min(1),
+  changeRequest: z.string().min(1),
+});
+
+export const suggestTopicsRequestSchema = z.object({
+  action: z.literal("suggest_topics"),
+  category: postCategorySchema,
+  description: z.string().min(1),
+});
+
+export const generateLeadMagnetRequestSchema = z.object({
+  action: z.literal("generate_leadmagnet"),
+  resourceType: z.string().min(1),
+  resourceOutline: z.string().min(1),
+  engagementOptions: engagementOptionsSchema,
+});
+
+export const refineLeadMagnetRequestSchema = generateLeadMagnetRequestSchema.extend({
+  action: z.literal("refine_leadmagnet"),
+  originalPost: z.string().min(1),
+  changeRequest: z.string().min(1),
+});
+
+export const contentResponseSchema = z.object({
+  content: z.string().min(1),
+});
+
+export const postVariantSchema = z.object({
+  content: z.string().min(1),
+  angle: z.string().optional(),
+});
+
+// Workflows that predate multi-variant generation still answer with a single `content`
+export const generateVariantsResponseSchema = z.union([
+  z.object({ variants: z.array(postVariantSchema).min(1) }),
+  contentResponseSchema,
+]);
+
+export const topicSuggestionSchema = z.object({
+  title: z.string(),
+  topic: z.string(),
+  tone: z.string(),
+});
+
+export const suggestTopicsResponseSchema = z.object({
+  ideas: z.array(topicSuggestionSchema),
+});
+
+export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+export type RegenerateRequest = z.infer<typeof regenerateRequestSchema>;
+export type SuggestTopicsRequest = z.infer<typeof suggestTopicsRequestSchema>;
+export type GenerateLeadMagnetRequest = z.infer<typeof generateLeadMagnetRequestSchema>;
+export type RefineLeadMagnetRequest = z.infer<typeof refineLeadMagnetRequestSchema>;
+export type ContentResponse = z.infer<typeof contentResponseSchema>;
+export type PostVariant = z.infer<typeof postVariantSchema>;
+export type TopicSuggestion = z.infer<typeof topicSuggestionSchema>;
+
+export type GenerationAction =
+  | GenerateRequest["action"]
+  | RegenerateRequest["action"]
+  | SuggestTopicsRequest["action"]
+  | GenerateLeadMagnetRequest["action"]
+  | RefineLeadMagnetRequest["action"];
+
+export type GenerationErrorCode =
+  | "not_configured"
+  | "invalid_request"
+  | "timeout"
+  | "aborted"
+  | "network"
+  | "http"
+  | "invalid_response";
+
+// Actions that run a full generation; only topic suggestions are cheap enough to risk running twice
+const GENERATING_ACTIONS = new Set<GenerationAction>(["generate", "regenerate", "generate_leadmagnet", "refine_leadmagnet"]);
+
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly action: GenerationAction;
+  readonly status?: number;
+  readonly cause?: unknown;
+
+  constructor(code: GenerationErrorCode, action: GenerationAction, message: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message);
+    this.name = "GenerationError";
+    this.code = code;
+    this.action = action;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  // Timeouts, dropped connections, rate limits and 5xx are worth another attempt, except for
+  // generations: after a timeout, a dropped connection or a gateway error the n8n run may still be
+  // going, so only 429 and 503 (request turned away) are retried rather than paying for a second run.
+  get retryable(): boolean {
+    if (this.code === "http" && (this.status === 429 || this.status === 503)) return true;
+    if (GENERATING_ACTIONS.has(this.action)) return false;
+    if (this.code === "timeout" || this.code === "network") return true;
+    if (this.code === "http" && this.status) {
+      return this.status === 408 || this.status >= 500;
+    }
+    return false;
+  }
+}
+
+export const isGenerationError = (error: unknown): error is GenerationError => error instanceof GenerationError;
+
+/**
+ * Toast-ready title/description for any error thrown by the client
+ */
+export function describeGenerationError(error: unknown): { title: string; description: string } {
+  if (!isGenerationError(error)) {
+    return { title: "Generation Failed", description: "Something went wrong. Please try again." };
+  }
+
+  switch (error.code) {
+    case "not_configured":
+      return { title: "Configuration Error", description: error.message };
+    case "invalid_request":
+      return { title: "Invalid Request", description: error.message };
+    case "timeout":
+      return { title: "Request Timed Out", description: "The AI took too long to respond. Please try again." };
+    case "aborted":
+      return { title: "Request Cancelled", description: "The generation request was cancelled." };
+    case "network":
+      return { title: "Network Error", description: "Could not reach the generation service. Check your connection and try again." };
+    case "http":
+      if (error.status === 429) {
+        return { title: "Too Many Requests", description: "The generation service is rate limited. Please wait a moment and try again." };
+      }
+      return {
+        title: "Generation Failed",
+        description: `The generation service responded with an error (HTTP ${error.status}). Please try again.`,
+      };
+    case "invalid_response":
+      return { title: "Unexpected Response", description: "The generation service returned a response the app could not read." };
+  }
+}
+
+export interface GenerationEndpoints {
+  post?: string;
+  askAi?: string;
+  leadMagnet?: string;
+}
+
+export interface GenerationClientConfig {
+  endpoints: GenerationEndpoints;
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs: number;
+}
+
+export interface GenerationRequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const ENDPOINT_ENV_VARS: Record<keyof GenerationEndpoints, string> = {
+  post: "VITE_WEBHOOK_URL",
+  askAi: "VITE_ASK_AI_WEBHOOK_URL",
+  leadMagnet: "VITE_LEAD_MAGNET_WEBHOOK_URL",
+};
+
+const ACTION_ENDPOINTS: Record<GenerationAction, keyof GenerationEndpoints> = {
+  generate: "post",
+  regenerate: "post",
+  suggest_topics: "askAi",
+  generate_leadmagnet: "leadMagnet",
+  refine_leadmagnet: "leadMagnet",
+};
+
+const DEFAULT_CONFIG: GenerationClientConfig = {
+  endpoints: {
+    post: import.meta.env.VITE_WEBHOOK_URL,
+    askAi: import.meta.env.VITE_ASK_AI_WEBHOOK_URL,
+    leadMagnet: import.meta.env.VITE_LEAD_MAGNET_WEBHOOK_URL,
+  },
+  // Generation with web search routinely takes longer than a minute
+  timeoutMs: 120_000,
+  retries: 2,
+  retryDelayMs: 1_000,
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+export class GenerationClient {
+  private readonly config: GenerationClientConfig;
+
+  constructor(config: Partial<GenerationClientConfig> = {}) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      ...config,
+      endpoints: { ...DEFAULT_CONFIG.endpoints, ...config.endpoints },
+    };
+  }
+
+  async generatePost(request: Omit<GenerateRequest, "action">, options?: GenerationRequestOptions): Promise<ContentResponse> {
+    return this.send(generateRequestSchema, contentResponseSchema, { ...request, action: "generate" }, options);
+  }
+
+  async generatePostVariants(
+    request: Omit<GenerateRequest, "action" | "variants" | "angles">,
+    count: number,
+    options?: GenerationRequestOptions
+  ): Promise<PostVariant[]> {
+    const angles = VARIANT_ANGLES.slice(0, count);
+    const result = await this.send(
+      generateRequestSchema,
+      generateVariantsResponseSchema,
+      { ...request, action: "generate", variants: count, angles },
+      options
+    );
+    return "variants" in result ? result.variants : [{ content: result.content }];
+  }
+
+  async regeneratePost(request: Omit<RegenerateRequest, "action">, options?: GenerationRequestOptions): Promise<ContentResponse> {
+    return this.send(regenerateRequestSchema, contentResponseSchema, { ...request, action: "regenerate" }, options);
+  }
+
+  async suggestTopics(request: Omit<SuggestTopicsRequest, "action">, options?: GenerationRequestOptions): Promise<TopicSuggestion[]> {
+    const result = await this.send(
+      suggestTopicsRequestSchema,
+      suggestTopicsResponseSchema,
+      { ...request, action: "suggest_topics" },
+      { timeoutMs: 60_000, ...options }
+    );
+    return result.ideas;
+  }
+
+  async generateLeadMagnet(request: Omit<GenerateLeadMagnetRequest, "action">, options?: GenerationRequestOptions): Promise<ContentResponse> {
+    return this.send(generateLeadMagnetRequestSchema, contentResponseSchema, { ...request, action: "generate_leadmagnet" }, options);
+  }
+
+  async refineLeadMagnet(request: Omit<RefineLeadMagnetRequest, "action">, options?: GenerationRequestOptions): Promise<ContentResponse> {
+    return this.send(refineLeadMagnetRequestSchema, contentResponseSchema, { ...request, action: "refine_leadmagnet" }, options);
+  }
+
+  private async send<Req extends { action: GenerationAction }, Res>(
+    requestSchema: z.ZodType<Req>,
+    responseSchema: z.ZodType<Res>,
+    payload: Req,
+    options: GenerationRequestOptions = {}
+  ): Promise<Res> {
+    const action = payload.action;
+    const endpointKey = ACTION_ENDPOINTS[action];
+    const url = this.config.endpoints[endpointKey];
+
+    if (!url) {
+      throw new GenerationError(
+        "not_configured",
+        action,
+        `${ENDPOINT_ENV_VARS[endpointKey]} is not configured. Please check your environment variables.`
+      );
+    }
+
+    const parsedRequest = requestSchema.safeParse(payload);
+    if (!parsedRequest.success) {
+      const issue = parsedRequest.error.issues[0];
+      throw new GenerationError(
+        "invalid_request",
+        action,
+        `Invalid ${action} request: ${issue?.path.join(".") || "payload"} ${issue?.message ?? ""}`.trim(),
+        { cause: parsedRequest.error }
+      );
+    }
+
+    const retries = options.retries ?? this.config.retries;
+    let attempt = 0;
+
+    for (;;) {
+      try {
+        const body = await this.post(url, action, parsedRequest.data, options);
+        const parsedResponse = responseSchema.safeParse(body);
+        if (!parsedResponse.success) {
+          throw new GenerationError("invalid_response", action, `Unexpected ${action} response shape`, {
+            cause: parsedResponse.error,
+          });
+        }
+        return parsedResponse.data;
+      } catch (error) {
+        if (!isGenerationError(error) || !error.retryable || attempt >= retries) {
+          throw error;
+        }
+
+        // Exponential backoff with jitter: ~1s, ~2s, ~4s...
+        const delay = this.config.retryDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+        attempt++;
+        try {
+          await sleep(delay, options.signal);
+        } catch (abortReason) {
+          throw new GenerationError("aborted", action, "Request cancelled", { cause: abortReason });
+        }
+      }
+    }
+  }
+
+  private async post(url: string, action: GenerationAction, payload: unknown, options: GenerationRequestOptions): Promise<unknown> {
+    if (options.signal?.aborted) {
+      throw new GenerationError("aborted", action, "Request cancelled");
+    }
+
+    // One controller per attempt, aborted by either the caller's signal or the timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, options.timeoutMs ?? this.config.timeoutMs);
+    const forwardAbort = () => controller.abort();
+    options.signal?.addEventListener("abort", forwardAbort, { once: true });
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(payload),
+          signal: controller.signal,
+        });
+      } catch (error) {
+        if (timedOut) {
+          throw new GenerationError("timeout", action, `${action} request timed out`, { cause: error });
+        }
+        if (controller.signal.aborted) {
+          throw new GenerationError("aborted", action, "Request cancelled", { cause: error });
+        }
+        throw new GenerationError("network", action, `Network error during ${action} request`, { cause: error });
+      }
+
+      if (!response.ok) {
+        throw new GenerationError("http", action, `${action} request failed with HTTP ${response.status}`, {
+          status: response.status,
+        });
+      }
+
+      try {
+        return await response.json();
+      } catch (error) {
+        if (timedOut) {
+          throw new GenerationError("timeout", action, `${action} request timed out`, { cause: error });
+        }
+        if (controller.signal.aborted) {
+          throw new GenerationError("aborted", action, "Request cancelled", { cause: error });
+        }
+        throw new GenerationError("invalid_response", action, `${action} response was not valid JSON`, { cause: error });
+      }
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", forwardAbort);
+    }
+  }
+}
+
+export const generationClient = new GenerationClient();
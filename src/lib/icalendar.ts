@@ -0,0 +1,26 @@
+/**
+ * .ics downloads for the content calendar
+ * The serialiser lives with the edge functions so the download and the ics-feed subscription
+ * produce identical events.
+ */
+
+import { ContentPost } from "@/types/content";
+import { buildICalendar, ICAL_CONTENT_TYPE, ICalEvent, postToICalEvent } from "../../supabase/functions/_shared/icalendar.ts";
+
+export function postsToICalendar(posts: ContentPost[], name = "Content Hub"): string {
+  const events = posts
+    .map(post => postToICalEvent(post, window.location.origin))
+    .filter((event): event is ICalEvent => event !== null);
+  return buildICalendar(events, { name, description: "Scheduled social posts" });
+}
+
+export function downloadICalendar(content: string, filename: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: ICAL_CONTENT_TYPE }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".ics") ? filename : `${filename}.ics`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,164 @@
+/**
+ * Post Library filter state: URL encoding, defaults and conversion to ContentService list params
+ * The URL is the source of truth so a filtered library can be bookmarked, shared and restored on
+ * back/forward; saved views store the same PostLibraryFilters object.
+ */
+
+import { addDays, isValid, parse, startOfDay } from "date-fns";
+import { ContentPost, ListPostsParams, PostSortKey } from "@/types/content";
+import { PostLibraryFilters } from "@/types/savedView";
+import { fromZonedDate } from "@/lib/timezones";
+
+export const DEFAULT_SORT = "created_at:desc";
+export const TRASH_DEFAULT_SORT = "deleted_at:desc";
+
+export const SORT_OPTIONS: { value: string; label: string; trashOnly?: boolean }[] = [
+  { value: "created_at:desc", label: "Newest first" },
+  { value: "created_at:asc", label: "Oldest first" },
+  { value: "updated_at:desc", label: "Recently updated" },
+  { value: "updated_at:asc", label: "Least recently updated" },
+  { value: "scheduled_date:asc", label: "Scheduled soonest" },
+  { value: "scheduled_date:desc", label: "Scheduled latest" },
+  { value: "deleted_at:desc", label: "Recently deleted", trashOnly: true }
+];
+
+const STATUSES: ContentPost['status'][] = ["draft", "scheduled", "published", "failed", "archived"];
+const CONTENT_TYPES: ContentPost['content_type'][] = ["create_post", "lead_magnet"];
+const DATE_FORMAT = "yyyy-MM-dd";
+
+// URL parameter for each filter; short names keep shared links readable
+const PARAM = {
+  search: "q",
+  status: "status",
+  content_type: "type",
+  platform: "platform",
+  tags: "tags",
+  tagMatch: "tag_match",
+  createdFrom: "created_from",
+  createdTo: "created_to",
+  scheduledFrom: "scheduled_from",
+  scheduledTo: "scheduled_to",
+  category: "category",
+  tone: "tone",
+  campaign: "campaign",
+  sort: "sort",
+  trash: "view"
+} as const;
+
+const parseDay = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const day = parse(value, DATE_FORMAT, new Date());
+  return isValid(day) ? startOfDay(day) : null;
+};
+
+const validDay = (value: string | null) => (value && parseDay(value) ? value : undefined);
+
+export const defaultSortFor = (trash: boolean | undefined) => (trash ? TRASH_DEFAULT_SORT : DEFAULT_SORT);
+
+export function isValidSort(sort: string | undefined, trash: boolean | undefined): boolean {
+  const option = SORT_OPTIONS.find(candidate => candidate.value === sort);
+  return !!option && (!option.trashOnly || !!trash);
+}
+
+export function filtersFromSearchParams(params: URLSearchParams): PostLibraryFilters {
+  const status = params.get(PARAM.status) as ContentPost['status'] | null;
+  const contentType = params.get(PARAM.content_type) as ContentPost['content_type'] | null;
+  const trash = params.get(PARAM.trash) === "trash";
+  const sort = params.get(PARAM.sort) ?? undefined;
+  // One parameter per tag: imported tags can contain commas
+  const tags = params.getAll(PARAM.tags).map(tag => tag.trim()).filter(Boolean);
+
+  return {
+    search: params.get(PARAM.search) || undefined,
+    status: status && STATUSES.includes(status) ? status : undefined,
+    content_type: contentType && CONTENT_TYPES.includes(contentType) ? contentType : undefined,
+    platform: params.get(PARAM.platform) || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    tagMatch: params.get(PARAM.tagMatch) === "any" ? "any" : undefined,
+    createdFrom: validDay(params.get(PARAM.createdFrom)),
+    createdTo: validDay(params.get(PARAM.createdTo)),
+    scheduledFrom: validDay(params.get(PARAM.scheduledFrom)),
+    scheduledTo: validDay(params.get(PARAM.scheduledTo)),
+    category: params.get(PARAM.category) || undefined,
+    tone: params.get(PARAM.tone) || undefined,
+    campaign: params.get(PARAM.campaign) || undefined,
+    sort: isValidSort(sort, trash) && sort !== defaultSortFor(trash) ? sort : undefined,
+    trash: trash || undefined
+  };
+}
+
+/**
+ * Defaults are left out so a plain library has a plain URL
+ */
+export function filtersToSearchParams(filters: PostLibraryFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  const set = (key: string, value: string | undefined) => {
+    if (value) params.set(key, value);
+  };
+
+  set(PARAM.search, filters.search?.trim());
+  set(PARAM.status, filters.status);
+  set(PARAM.content_type, filters.content_type);
+  set(PARAM.platform, filters.platform);
+  filters.tags?.forEach(tag => params.append(PARAM.tags, tag));
+  if (filters.tags?.length) set(PARAM.tagMatch, filters.tagMatch === "any" ? "any" : undefined);
+  set(PARAM.createdFrom, filters.createdFrom);
+  set(PARAM.createdTo, filters.createdTo);
+  set(PARAM.scheduledFrom, filters.scheduledFrom);
+  set(PARAM.scheduledTo, filters.scheduledTo);
+  set(PARAM.category, filters.category);
+  set(PARAM.tone, filters.tone);
+  set(PARAM.campaign, filters.campaign);
+  set(PARAM.sort, filters.sort !== defaultSortFor(filters.trash) ? filters.sort : undefined);
+  set(PARAM.trash, filters.trash ? "trash" : undefined);
+  return params;
+}
+
+// Date filters are whole days in the workspace zone, like the calendar's: "to" includes the entire end day
+const dayStartIso = (value: string | undefined, timeZone: string) => {
+  const day = parseDay(value);
+  return day ? fromZonedDate(day, timeZone).toISOString() : undefined;
+};
+const nextDayStartIso = (value: string | undefined, timeZone: string) => {
+  const day = parseDay(value);
+  return day ? fromZonedDate(addDays(day, 1), timeZone).toISOString() : undefined;
+};
+
+export function filtersToListParams(filters: PostLibraryFilters, timeZone: string): ListPostsParams {
+  const [sortBy, sortDirection] = (filters.sort || defaultSortFor(filters.trash)).split(":") as [PostSortKey, 'asc' | 'desc'];
+  return {
+    search: filters.search?.trim() || undefined,
+    status: filters.status,
+    content_type: filters.content_type,
+    platform: filters.platform,
+    tags: filters.tags,
+    tagMatch: filters.tagMatch,
+    createdAfter: dayStartIso(filters.createdFrom, timeZone),
+    createdBefore: nextDayStartIso(filters.createdTo, timeZone),
+    scheduledAfter: dayStartIso(filters.scheduledFrom, timeZone),
+    scheduledBefore: nextDayStartIso(filters.scheduledTo, timeZone),
+    category: filters.category,
+    tone: filters.tone,
+    campaignId: filters.campaign,
+    trashed: filters.trash,
+    sortBy,
+    sortDirection
+  };
+}
+
+/**
+ * Filters beyond search, sort and the Trash switch, for the "Filters" badge and empty states
+ */
+export function countActiveFilters(filters: PostLibraryFilters): number {
+  return [
+    filters.status,
+    filters.content_type,
+    filters.platform,
+    filters.tags?.length,
+    filters.createdFrom || filters.createdTo,
+    filters.scheduledFrom || filters.scheduledTo,
+    filters.category,
+    filters.tone,
+    filters.campaign
+  ].filter(Boolean).length;
+}
@@ -0,0 +1,138 @@
+/**
+ * Feed rendering rules for the social platforms offered in the platform selects
+ * Fold points and limits mirror what each feed shows before "see more" and what it accepts on publish.
+ */
+
+export type PreviewPlatform = "linkedin" | "twitter" | "facebook" | "instagram";
+
+export interface PlatformRules {
+  id: PreviewPlatform;
+  label: string;
+  characterLimit: number;
+  foldLines: number | null; // null when the feed never collapses the text
+  foldChars: number | null;
+  seeMoreLabel: string;
+  hashtagLimit?: number;
+  linkColor: string;
+}
+
+export const PLATFORM_RULES: Record<PreviewPlatform, PlatformRules> = {
+  linkedin: {
+    id: "linkedin",
+    label: "LinkedIn",
+    characterLimit: 3000,
+    foldLines: 3,
+    foldChars: 210,
+    seeMoreLabel: "…see more",
+    linkColor: "#0a66c2",
+  },
+  twitter: {
+    id: "twitter",
+    label: "Twitter",
+    characterLimit: 280,
+    foldLines: null,
+    foldChars: null,
+    seeMoreLabel: "Show more",
+    linkColor: "#1d9bf0",
+  },
+  facebook: {
+    id: "facebook",
+    label: "Facebook",
+    characterLimit: 63206,
+    foldLines: 5,
+    foldChars: 480,
+    seeMoreLabel: "… See more",
+    linkColor: "#385898",
+  },
+  instagram: {
+    id: "instagram",
+    label: "Instagram",
+    characterLimit: 2200,
+    foldLines: 2,
+    foldChars: 125,
+    seeMoreLabel: "… more",
+    hashtagLimit: 30,
+    linkColor: "#00376b",
+  },
+};
+
+export const PREVIEW_PLATFORMS = Object.keys(PLATFORM_RULES) as PreviewPlatform[];
+
+// Twitter counts every link as a t.co URL regardless of its real length
+const TWITTER_URL_LENGTH = 23;
+
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+const TOKEN_PATTERN = /(https?:\/\/[^\s]+)|(#[\p{L}\p{N}_]+)|(@[\p{L}\p{N}_]+)/gu;
+
+/**
+ * Map a stored platform value ("LinkedIn", "linkedin", ...) to its preview rules
+ */
+export function toPreviewPlatform(platform?: string | null): PreviewPlatform {
+  const normalized = (platform || "").toLowerCase() as PreviewPlatform;
+  return PLATFORM_RULES[normalized] ? normalized : "linkedin";
+}
+
+/**
+ * Count characters the way the platform does; emoji count once, not per UTF-16 unit
+ */
+export function countCharacters(text: string, platform: PreviewPlatform): number {
+  if (platform === "twitter") {
+    const withoutUrls = text.replace(URL_PATTERN, "");
+    const urlCount = (text.match(URL_PATTERN) || []).length;
+    return Array.from(withoutUrls).length + urlCount * TWITTER_URL_LENGTH;
+  }
+  return Array.from(text).length;
+}
+
+export function countHashtags(text: string): number {
+  return (text.match(/#[\p{L}\p{N}_]+/gu) || []).length;
+}
+
+/**
+ * Cut the text where the feed collapses it: after foldLines lines or foldChars characters,
+ * whichever comes first. Character cuts back off to the previous word boundary.
+ */
+export function foldText(text: string, rules: PlatformRules): { visible: string; isFolded: boolean } {
+  if (rules.foldLines === null || rules.foldChars === null) {
+    return { visible: text, isFolded: false };
+  }
+
+  const lines = text.split("\n");
+  let visible = lines.slice(0, rules.foldLines).join("\n");
+  let isFolded = lines.length > rules.foldLines;
+
+  const chars = Array.from(visible);
+  if (chars.length > rules.foldChars) {
+    visible = chars.slice(0, rules.foldChars).join("");
+    const lastSpace = visible.search(/\s\S*$/);
+    if (lastSpace > rules.foldChars * 0.8) visible = visible.slice(0, lastSpace);
+    isFolded = true;
+  }
+
+  // Trailing blank lines are hidden by the feed anyway
+  return isFolded ? { visible: visible.trimEnd(), isFolded } : { visible: text, isFolded };
+}
+
+export interface PostToken {
+  type: "text" | "hashtag" | "mention" | "url";
+  value: string;
+}
+
+/**
+ * Split post text into plain runs and the parts feeds render as links
+ */
+export function tokenizePost(text: string): PostToken[] {
+  const tokens: PostToken[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) tokens.push({ type: "text", value: text.slice(lastIndex, index) });
+    const type = match[1] ? "url" : match[2] ? "hashtag" : "mention";
+    tokens.push({ type, value: match[0] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < text.length) tokens.push({ type: "text", value: text.slice(lastIndex) });
+  return tokens;
+}
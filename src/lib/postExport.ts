@@ -0,0 +1,156 @@
+/**
+ * Export the content library as JSON, CSV or a zip of Markdown files
+ * JSON keeps every column (source_data and edit_history included) and is the format to use for
+ * backups and moving posts between workspaces; CSV and Markdown are for spreadsheets and editors.
+ */
+
+import { ContentPost } from "@/types/content";
+import { createZip } from "@/lib/zip";
+
+export type PostExportFormat = "json" | "csv" | "markdown";
+
+// Identifies our own JSON exports so the importer can map them without asking
+export const POST_EXPORT_KIND = "content-hub-posts";
+export const POST_EXPORT_VERSION = 1;
+
+export interface PostExportFile {
+  kind: typeof POST_EXPORT_KIND;
+  version: number;
+  exported_at: string;
+  posts: ContentPost[];
+}
+
+export const CSV_COLUMNS = [
+  "id",
+  "title",
+  "content",
+  "content_type",
+  "status",
+  "platform",
+  "tags",
+  "scheduled_date",
+  "scheduled_timezone",
+  "created_at",
+  "updated_at"
+] as const;
+
+// Tags share one CSV cell; commas are common inside tags, semicolons are not
+export const CSV_TAG_SEPARATOR = "; ";
+
+export function postsToJson(posts: ContentPost[], now = new Date()): string {
+  const file: PostExportFile = {
+    kind: POST_EXPORT_KIND,
+    version: POST_EXPORT_VERSION,
+    exported_at: now.toISOString(),
+    posts
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const escapeCsvCell = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvCell).join(",")).join("\r\n");
+}
+
+export function postsToCsv(posts: ContentPost[]): string {
+  const rows = posts.map(post => CSV_COLUMNS.map(column => {
+    if (column === "tags") return (post.tags || []).join(CSV_TAG_SEPARATOR);
+    const value = post[column];
+    return value === undefined || value === null ? "" : String(value);
+  }));
+  return toCsv([[...CSV_COLUMNS], ...rows]);
+}
+
+/**
+ * RFC 4180 parser: quoted cells may contain commas, quotes ("") and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Blank lines (usually a trailing newline) are not records
+  return rows.filter(cells => cells.some(value => value.trim() !== ""));
+}
+
+const MARKDOWN_FIELDS = ["id", "title", "content_type", "status", "platform", "tags", "scheduled_date", "scheduled_timezone", "created_at", "updated_at"] as const;
+
+/**
+ * One post as Markdown with YAML front-matter; values are JSON-encoded, which YAML reads as-is
+ */
+export function postToMarkdown(post: ContentPost): string {
+  const frontMatter = MARKDOWN_FIELDS
+    .filter(field => post[field] !== undefined && post[field] !== null)
+    .map(field => `${field}: ${JSON.stringify(post[field])}`);
+  return `---\n${frontMatter.join("\n")}\n---\n\n${post.content}\n`;
+}
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "").slice(0, 50);
+
+// Titles repeat, so the id prefix keeps file names unique inside the zip
+export const markdownFileName = (post: ContentPost): string =>
+  `${slugify(post.title || "") || "untitled"}-${post.id.slice(0, 8)}.md`;
+
+export function postsToMarkdownZip(posts: ContentPost[]): Blob {
+  return createZip(posts.map(post => ({ name: markdownFileName(post), content: postToMarkdown(post) })));
+}
+
+export function exportPosts(posts: ContentPost[], exportFormat: PostExportFormat): { blob: Blob; extension: string } {
+  switch (exportFormat) {
+    case "json":
+      return { blob: new Blob([postsToJson(posts)], { type: "application/json" }), extension: "json" };
+    case "csv":
+      // The byte order mark makes Excel open the file as UTF-8
+      return { blob: new Blob(["\uFEFF", postsToCsv(posts)], { type: "text/csv;charset=utf-8" }), extension: "csv" };
+    case "markdown":
+      return { blob: postsToMarkdownZip(posts), extension: "zip" };
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
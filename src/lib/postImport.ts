@@ -0,0 +1,285 @@
+/**
+ * Import posts from JSON or CSV
+ * A file is parsed into generic records, its columns are mapped onto post fields and every row is
+ * validated against the CreateContentPostRequest shape before anything is written. Rows whose
+ * content already exists (in the library or earlier in the file) are flagged as duplicates.
+ * Scheduled rows come in as drafts unless the user keeps their schedules, and rows whose date has
+ * passed always do, so an import never hands the publishing worker a batch of overdue posts.
+ */
+
+import { z } from "zod";
+import { ContentPost, ImportContentPostRequest } from "@/types/content";
+import { parseCsv, POST_EXPORT_KIND } from "@/lib/postExport";
+import { isValidTimeZone, zonedTimeToUtc } from "@/lib/timezones";
+
+export const IMPORT_FIELDS = [
+  { field: "content", label: "Content", required: true },
+  { field: "title", label: "Title" },
+  { field: "content_type", label: "Content type" },
+  { field: "status", label: "Status" },
+  { field: "platform", label: "Platform" },
+  { field: "tags", label: "Tags" },
+  { field: "scheduled_date", label: "Scheduled date" },
+  { field: "scheduled_timezone", label: "Scheduled timezone" },
+  { field: "original_content", label: "Original content" },
+  { field: "source_data", label: "Source data" },
+  { field: "edit_history", label: "Edit history" },
+  { field: "created_at", label: "Created at" }
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number]["field"];
+
+// Post field -> source column; unmapped fields take their defaults
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportSource {
+  format: "json" | "csv";
+  columns: string[];
+  records: Record<string, unknown>[];
+  // Our own JSON export: columns are the post fields, so there is nothing to map
+  isContentHubExport: boolean;
+}
+
+export interface ImportRow {
+  rowNumber: number; // As the user would find it: the CSV line or the 1-based JSON item
+  post: ImportContentPostRequest | null;
+  errors: string[];
+  duplicateOf: { source: "library" | "file"; title?: string } | null;
+  // A scheduled row imported as a draft: its date had passed, or schedules weren't kept
+  demoted: "overdue" | "unscheduled" | null;
+}
+
+export interface ImportOptions {
+  // Dates without an offset are read in the row's scheduled timezone, else in this one (the workspace's)
+  timeZone: string;
+  // Re-importing a backup would otherwise publish the source workspace's scheduled posts again
+  keepSchedules: boolean;
+  now?: Date;
+}
+
+// Header names other tools commonly use for each field
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  content: ["content", "body", "text", "post", "post_content"],
+  title: ["title", "name", "headline", "subject"],
+  content_type: ["content_type", "type"],
+  status: ["status", "state"],
+  platform: ["platform", "network", "channel"],
+  tags: ["tags", "tag", "labels", "categories"],
+  scheduled_date: ["scheduled_date", "scheduled", "scheduled_at", "publish_date", "date"],
+  scheduled_timezone: ["scheduled_timezone", "timezone", "time_zone", "tz"],
+  original_content: ["original_content"],
+  source_data: ["source_data"],
+  edit_history: ["edit_history"],
+  created_at: ["created_at", "created"]
+};
+
+const FIELD_LABELS = Object.fromEntries(IMPORT_FIELDS.map(({ field, label }) => [field, label])) as Record<ImportField, string>;
+
+const isDateString = (value: string) => !Number.isNaN(Date.parse(value));
+
+// Converted to instants once the row's timezone is known
+const dateString = z.string().refine(isDateString, "Not a valid date");
+
+const HAS_OFFSET = /(?:Z|[+-]\d{2}:?\d{2}|\b(?:GMT|UTC))$/i;
+const ISO_WITHOUT_OFFSET = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/;
+
+// Spreadsheet dates such as "2026-10-20 09:00" are wall-clock times; the importing browser's zone says nothing about them
+function toInstant(value: string, timeZone: string): string {
+  if (HAS_OFFSET.test(value)) return new Date(value).toISOString();
+
+  const iso = ISO_WITHOUT_OFFSET.exec(value);
+  if (iso) {
+    const [, year, month, day, hours = "0", minutes = "0"] = iso;
+    return zonedTimeToUtc({ year: +year, month: +month, day: +day, hours: +hours, minutes: +minutes }, timeZone).toISOString();
+  }
+
+  // Other formats ("10/20/2026 9:00 AM") are parsed as browser-local, so read back the clock fields
+  const local = new Date(value);
+  return zonedTimeToUtc({
+    year: local.getFullYear(),
+    month: local.getMonth() + 1,
+    day: local.getDate(),
+    hours: local.getHours(),
+    minutes: local.getMinutes()
+  }, timeZone).toISOString();
+}
+
+const importPostSchema = z.object({
+  content: z.string({ error: "Content is required" }).trim().min(1, "Content is required"),
+  title: z.string().max(255, "Must be at most 255 characters").optional(),
+  content_type: z.enum(["create_post", "lead_magnet"]).default("create_post"),
+  // Publishing state belongs to the workspace that published it, so failed posts come in as drafts
+  status: z.enum(["draft", "scheduled", "published", "failed", "archived"]).default("draft")
+    .transform(status => (status === "failed" ? "draft" : status)),
+  platform: z.string().max(50, "Must be at most 50 characters").optional(),
+  tags: z.array(z.string()).optional(),
+  scheduled_date: dateString.optional(),
+  scheduled_timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+  original_content: z.string().optional(),
+  source_data: z.record(z.string(), z.unknown()).default({}),
+  edit_history: z.array(z.object({
+    timestamp: z.string(),
+    changes: z.string(),
+    content: z.string(),
+    title: z.string().optional(),
+    restored_from: z.string().optional()
+  })).optional(),
+  created_at: dateString.optional()
+}).refine(post => post.status !== "scheduled" || !!post.scheduled_date, {
+  message: "Scheduled posts need a scheduled date",
+  path: ["scheduled_date"]
+});
+
+function uniqueColumns(headers: string[]): string[] {
+  const seen = new Map<string, number>();
+  return headers.map((header, index) => {
+    const name = header.trim() || `Column ${index + 1}`;
+    const count = seen.get(name) ?? 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name} (${count + 1})`;
+  });
+}
+
+/**
+ * Parse an uploaded file; throws with a user-facing message when it can't be read
+ */
+export function parseImportFile(fileName: string, text: string): ImportSource {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error("The file is not valid JSON.");
+    }
+
+    const isContentHubExport = (parsed as { kind?: unknown })?.kind === POST_EXPORT_KIND;
+    const items = Array.isArray(parsed) ? parsed : (parsed as { posts?: unknown })?.posts;
+    if (!Array.isArray(items)) {
+      throw new Error("Expected a list of posts, or an object with a \"posts\" list.");
+    }
+
+    const records = items.map(item => (item && typeof item === "object" && !Array.isArray(item) ? item as Record<string, unknown> : {}));
+    const columns = Array.from(new Set(records.flatMap(record => Object.keys(record))));
+    return { format: "json", columns, records, isContentHubExport };
+  }
+
+  if (fileName.toLowerCase().endsWith(".csv")) {
+    const [headers, ...rows] = parseCsv(text);
+    if (!headers) {
+      throw new Error("The CSV file is empty.");
+    }
+    const columns = uniqueColumns(headers);
+    const records = rows.map(cells => Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""])));
+    return { format: "csv", columns, records, isContentHubExport: false };
+  }
+
+  throw new Error("Choose a .json or .csv file.");
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  for (const { field } of IMPORT_FIELDS) {
+    const column = columns.find(candidate => FIELD_ALIASES[field].includes(normalizeHeader(candidate)));
+    if (column) mapping[field] = column;
+  }
+  return mapping;
+}
+
+// Turn spreadsheet text into the shapes the schema expects; anything unparseable is left for zod to reject
+function coerceValue(field: ImportField, value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === "string") {
+    const text = value.trim();
+    if (text === "") return undefined;
+
+    switch (field) {
+      case "tags": {
+        const separator = text.includes(";") ? ";" : ",";
+        return text.split(separator).map(tag => tag.trim()).filter(Boolean);
+      }
+      case "source_data":
+      case "edit_history":
+        try {
+          return JSON.parse(text);
+        } catch {
+          return text;
+        }
+      case "content_type":
+      case "status":
+        // Accept labels such as "Lead Magnet" as well as stored values
+        return text.toLowerCase().replace(/[\s-]+/g, "_");
+      case "content":
+      case "original_content":
+        // Keep the post's own line breaks and indentation
+        return value;
+      default:
+        return text;
+    }
+  }
+  return value;
+}
+
+export const normalizeForDuplicateCheck = (content: string) => content.toLowerCase().replace(/\s+/g, " ").trim();
+
+export function validateImport(
+  source: ImportSource,
+  mapping: ColumnMapping,
+  existingPosts: Pick<ContentPost, "title" | "content">[],
+  { timeZone, keepSchedules, now = new Date() }: ImportOptions
+): ImportRow[] {
+  const library = new Map(existingPosts.map(post => [normalizeForDuplicateCheck(post.content), post.title]));
+  const seenInFile = new Map<string, string | undefined>();
+
+  return source.records.map((record, index) => {
+    const rowNumber = source.format === "csv" ? index + 2 : index + 1;
+    const input = Object.fromEntries(
+      IMPORT_FIELDS
+        .filter(({ field }) => mapping[field])
+        .map(({ field }) => [field, coerceValue(field, record[mapping[field]!])])
+    );
+
+    const result = importPostSchema.safeParse(input);
+    if (!result.success) {
+      const errors = result.error.issues.map(issue => {
+        const field = issue.path[0] as ImportField | undefined;
+        return field ? `${FIELD_LABELS[field] ?? field}: ${issue.message}` : issue.message;
+      });
+      return { rowNumber, post: null, errors, duplicateOf: null, demoted: null };
+    }
+
+    const post = { ...result.data } as ImportContentPostRequest;
+    if (post.scheduled_date) {
+      post.scheduled_timezone = post.scheduled_timezone ?? timeZone;
+      post.scheduled_date = toInstant(post.scheduled_date, post.scheduled_timezone);
+    }
+    if (post.created_at) {
+      post.created_at = toInstant(post.created_at, timeZone);
+    }
+    let demoted: ImportRow["demoted"] = null;
+    if (post.status === "scheduled") {
+      const isOverdue = new Date(post.scheduled_date!) <= now;
+      if (isOverdue || !keepSchedules) {
+        demoted = isOverdue ? "overdue" : "unscheduled";
+        post.status = "draft";
+      }
+    }
+    // Only scheduled posts keep a schedule
+    if (post.status !== "scheduled") {
+      post.scheduled_date = undefined;
+      post.scheduled_timezone = undefined;
+    }
+    const key = normalizeForDuplicateCheck(post.content);
+    let duplicateOf: ImportRow["duplicateOf"] = null;
+    if (library.has(key)) {
+      duplicateOf = { source: "library", title: library.get(key) };
+    } else if (seenInFile.has(key)) {
+      duplicateOf = { source: "file", title: seenInFile.get(key) };
+    } else {
+      seenInFile.set(key, post.title);
+    }
+
+    return { rowNumber, post, errors: [], duplicateOf, demoted };
+  });
+}
@@ -0,0 +1,280 @@
+/**
+ * Post linter for the FORMATTING RULES given to the model in promptutils
+ * Each rule reports the offending ranges and, where the fix is mechanical, a function that applies it.
+ */
+
+import { CATEGORY_WORD_RANGES, EMOJI_RANGE, HASHTAG_RANGE, MAX_SENTENCES_PER_LINE } from "./promptutils";
+
+export type LintSeverity = "error" | "warning";
+
+export interface LintRange {
+  start: number;
+  end: number;
+}
+
+export interface LintIssue {
+  ruleId: string;
+  severity: LintSeverity;
+  message: string;
+  ranges: LintRange[];
+  fix?: {
+    label: string;
+    apply: (content: string) => string;
+  };
+}
+
+export interface LintContext {
+  category?: string;
+}
+
+export interface LintRule {
+  id: string;
+  description: string;
+  check: (content: string, context: LintContext) => LintIssue | null;
+}
+
+const HASHTAG_PATTERN = /#[\p{L}\p{N}_]+/gu;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}(?:\uFE0F|[\u{1F3FB}-\u{1F3FF}]|\u200D\p{Extended_Pictographic}\uFE0F?)*/gu;
+const URL_PATTERN = /https?:\/\/[^\s]+/g;
+
+const MARKDOWN_PATTERNS: { pattern: RegExp; replacement: string }[] = [
+  { pattern: /^```[^\n]*\n?/gm, replacement: "" },
+  { pattern: /\*\*([^*\n]+?)\*\*/g, replacement: "$1" },
+  { pattern: /__([^_\n]+?)__/g, replacement: "$1" },
+  { pattern: /(?<![*\w])\*(?![\s*])([^*\n]+?)\*(?![*\w])/g, replacement: "$1" },
+  { pattern: /^#{1,6}[ \t]+/gm, replacement: "" },
+  { pattern: /\[([^\]\n]+)\]\((https?:\/\/[^)\s]+)\)/g, replacement: "$1 $2" },
+  { pattern: /`([^`\n]+)`/g, replacement: "$1" },
+  { pattern: /^([ \t]*)[*+][ \t]+/gm, replacement: "$1• " },
+  { pattern: /^[ \t]*(?:-{3,}|\*{3,}|_{3,})[ \t]*$/gm, replacement: "" },
+];
+
+const CITATION_PATTERN = /[ \t]*(?:\[\d+(?:\s*[,–-]\s*\d+)*\]|\[\^\d+\]|\[citation needed\]|【[^】]*】|\((?:source|sources|via|cited|citation|ref)\b[^)]*\))/gi;
+
+const findAll = (content: string, pattern: RegExp): LintRange[] =>
+  Array.from(content.matchAll(pattern), match => ({
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+// Remove the given ranges, last first so earlier offsets stay valid, then tidy leftover whitespace
+const removeRanges = (content: string, ranges: LintRange[]) =>
+  tidy(
+    [...ranges]
+      .sort((a, b) => b.start - a.start)
+      .reduce((text, range) => text.slice(0, range.start) + text.slice(range.end), content)
+  );
+
+const tidy = (content: string) =>
+  content
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+export function countWords(content: string): number {
+  return content
+    .replace(URL_PATTERN, " ")
+    .replace(HASHTAG_PATTERN, " ")
+    .split(/\s+/)
+    .filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+// Index just past each sentence end that is followed by more text on the same line
+const sentenceBreaks = (line: string): number[] =>
+  Array.from(line.matchAll(/[.!?]+["')\]]*[ \t]+(?=\S)/g), match => (match.index ?? 0) + match[0].length);
+
+const isHashtagLine = (line: string) => line.trim() !== "" && line.replace(HASHTAG_PATTERN, "").trim() === "";
+
+export const POST_LINT_RULES: LintRule[] = [
+  {
+    id: "no-markdown",
+    description: "DO NOT USE markdown in post content",
+    check: (content) => {
+      const ranges = MARKDOWN_PATTERNS.flatMap(({ pattern }) => findAll(content, pattern));
+      if (ranges.length === 0) return null;
+      return {
+        ruleId: "no-markdown",
+        severity: "error",
+        message: `${plural(ranges.length, "markdown element")} will show up as raw symbols on LinkedIn`,
+        ranges,
+        fix: {
+          label: "Strip markdown",
+          apply: (text) => tidy(MARKDOWN_PATTERNS.reduce((result, { pattern, replacement }) => result.replace(pattern, replacement), text)),
+        },
+      };
+    },
+  },
+  {
+    id: "no-citations",
+    description: "DO NOT USE referencing/citation inside post content",
+    check: (content) => {
+      const ranges = findAll(content, CITATION_PATTERN);
+      if (ranges.length === 0) return null;
+      return {
+        ruleId: "no-citations",
+        severity: "error",
+        message: `${plural(ranges.length, "citation")} found in the post`,
+        ranges,
+        fix: {
+          label: "Remove citations",
+          apply: (text) => removeRanges(text, findAll(text, CITATION_PATTERN)),
+        },
+      };
+    },
+  },
+  {
+    id: "hashtag-count",
+    description: `Include ${HASHTAG_RANGE.min}-${HASHTAG_RANGE.max} relevant hashtags`,
+    check: (content) => {
+      const ranges = findAll(content, HASHTAG_PATTERN);
+      if (ranges.length >= HASHTAG_RANGE.min && ranges.length <= HASHTAG_RANGE.max) return null;
+
+      const tooMany = ranges.length > HASHTAG_RANGE.max;
+      return {
+        ruleId: "hashtag-count",
+        severity: "warning",
+        message: `${plural(ranges.length, "hashtag")}; aim for ${HASHTAG_RANGE.min}-${HASHTAG_RANGE.max}`,
+        ranges: tooMany ? ranges.slice(HASHTAG_RANGE.max) : [],
+        fix: tooMany
+          ? {
+              label: `Keep first ${HASHTAG_RANGE.max} hashtags`,
+              apply: (text) => removeRanges(text, findAll(text, HASHTAG_PATTERN).slice(HASHTAG_RANGE.max)),
+            }
+          : undefined,
+      };
+    },
+  },
+  {
+    id: "hashtags-at-end",
+    description: "Hashtags go at the end of the post",
+    check: (content) => {
+      const lines = content.trimEnd().split("\n");
+      let lastContentLine = lines.length - 1;
+      while (lastContentLine >= 0 && (lines[lastContentLine].trim() === "" || isHashtagLine(lines[lastContentLine]))) {
+        lastContentLine--;
+      }
+
+      const ranges: LintRange[] = [];
+      let offset = 0;
+      lines.forEach((line, index) => {
+        if (index <= lastContentLine && isHashtagLine(line)) {
+          ranges.push({ start: offset, end: offset + line.length });
+        }
+        offset += line.length + 1;
+      });
+      if (ranges.length === 0) return null;
+
+      return {
+        ruleId: "hashtags-at-end",
+        severity: "warning",
+        message: "Hashtag lines appear in the middle of the post",
+        ranges,
+        fix: {
+          label: "Move hashtags to the end",
+          apply: (text) => {
+            const textLines = text.trimEnd().split("\n");
+            const tags = textLines.filter(isHashtagLine).flatMap(line => line.match(HASHTAG_PATTERN) || []);
+            const body = tidy(textLines.filter(line => !isHashtagLine(line)).join("\n"));
+            return `${body}\n\n${[...new Set(tags)].join(" ")}`;
+          },
+        },
+      };
+    },
+  },
+  {
+    id: "emoji-count",
+    description: `Use emojis sparingly (${EMOJI_RANGE.min}-${EMOJI_RANGE.max} per post)`,
+    check: (content) => {
+      const ranges = findAll(content, EMOJI_PATTERN);
+      if (ranges.length >= EMOJI_RANGE.min && ranges.length <= EMOJI_RANGE.max) return null;
+
+      const tooMany = ranges.length > EMOJI_RANGE.max;
+      return {
+        ruleId: "emoji-count",
+        severity: "warning",
+        message: `${plural(ranges.length, "emoji")}; aim for ${EMOJI_RANGE.min}-${EMOJI_RANGE.max}`,
+        ranges: tooMany ? ranges.slice(EMOJI_RANGE.max) : [],
+        fix: tooMany
+          ? {
+              label: `Keep first ${EMOJI_RANGE.max} emojis`,
+              apply: (text) => removeRanges(text, findAll(text, EMOJI_PATTERN).slice(EMOJI_RANGE.max)),
+            }
+          : undefined,
+      };
+    },
+  },
+  {
+    id: "line-breaks",
+    description: `Use line breaks every 1-${MAX_SENTENCES_PER_LINE} sentences`,
+    check: (content) => {
+      const ranges: LintRange[] = [];
+      let offset = 0;
+      for (const line of content.split("\n")) {
+        if (sentenceBreaks(line).length >= MAX_SENTENCES_PER_LINE) {
+          ranges.push({ start: offset, end: offset + line.length });
+        }
+        offset += line.length + 1;
+      }
+      if (ranges.length === 0) return null;
+
+      return {
+        ruleId: "line-breaks",
+        severity: "warning",
+        message: `${plural(ranges.length, "paragraph")} with more than ${MAX_SENTENCES_PER_LINE} sentences`,
+        ranges,
+        fix: {
+          label: "Break up long paragraphs",
+          apply: (text) =>
+            text
+              .split("\n")
+              .map(line => {
+                const breaks = sentenceBreaks(line).filter((_, index) => (index + 1) % MAX_SENTENCES_PER_LINE === 0);
+                if (breaks.length === 0) return line;
+                const chunks = [0, ...breaks].map((start, index) => line.slice(start, breaks[index]).trimEnd());
+                return chunks.join("\n\n");
+              })
+              .join("\n"),
+        },
+      };
+    },
+  },
+  {
+    id: "word-count",
+    description: "Stay within the category's word range",
+    check: (content, context) => {
+      const range = context.category ? CATEGORY_WORD_RANGES[context.category] : undefined;
+      if (!range) return null;
+
+      const words = countWords(content);
+      if (words >= range.min && words <= range.max) return null;
+      return {
+        ruleId: "word-count",
+        severity: "warning",
+        message: `${plural(words, "word")}; "${context.category}" posts should be ${range.min}-${range.max}`,
+        ranges: [],
+      };
+    },
+  },
+];
+
+/**
+ * Run every rule against the content; issues come back in rule order
+ */
+export function lintPost(content: string, context: LintContext = {}, rules: LintRule[] = POST_LINT_RULES): LintIssue[] {
+  if (!content.trim()) return [];
+  return rules
+    .map(rule => rule.check(content, context))
+    .filter((issue): issue is LintIssue => issue !== null);
+}
+
+/**
+ * Apply every available fix, re-linting between fixes since each one shifts the text
+ */
+export function applyAllFixes(content: string, context: LintContext = {}, rules: LintRule[] = POST_LINT_RULES): string {
+  return rules.reduce((text, rule) => {
+    const issue = rule.check(text, context);
+    return issue?.fix ? issue.fix.apply(text) : text;
+  }, content);
+}
@@ -0,0 +1,6 @@
+/**
+ * Choices offered when generating posts; stored in source_data and filterable in the Post Library
+ */
+
+export const POST_CATEGORIES = ['Storytelling/Thought Leadership/Authority', 'Lead Magnets & YT Video-based content', 'Case studies/Testimonials/Results', 'Skool Community/Educational'];
+export const POST_TONES = ['Authoritative', 'Descriptive', 'Casual', 'Narrative', 'Humorous'];
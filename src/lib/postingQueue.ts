@@ -0,0 +1,93 @@
+/**
+ * Expand recurring posting slots into concrete dates and find the next free one
+ * A slot occurrence is taken when a scheduled post on the same platform is already at that exact minute.
+ * Slot times are wall-clock times in the workspace timezone, so 09:00 stays 09:00 across DST changes.
+ */
+
+import { addDays, isBefore, startOfDay } from "date-fns";
+import type { ContentPost } from "@/types/content";
+import type { PostingSlot, SlotOccurrence } from "@/types/postingSlot";
+import { toZonedDate, zonedTimeToUtc } from "@/lib/timezones";
+
+// How far ahead "Add to queue" looks before giving up; four weeks covers even a single weekly slot
+export const QUEUE_HORIZON_DAYS = 28;
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const samePlatform = (a?: string | null, b?: string | null) => (a || "").toLowerCase() === (b || "").toLowerCase();
+
+const minuteKey = (date: Date) => Math.floor(date.getTime() / 60_000);
+
+/**
+ * "09:00:00" / "09:00" to hours and minutes
+ */
+export function parseSlotTime(time: string): { hours: number; minutes: number } {
+  const [hours, minutes] = time.split(":").map(Number);
+  return { hours: hours || 0, minutes: minutes || 0 };
+}
+
+export function formatSlotTime(time: string): string {
+  const { hours, minutes } = parseSlotTime(time);
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+/**
+ * Every occurrence of the active slots between start and end, in date order
+ * Weekdays are walked in the workspace zone; the occurrences are real instants.
+ */
+export function expandSlots(slots: PostingSlot[], start: Date, end: Date, timeZone: string): SlotOccurrence[] {
+  const occurrences: SlotOccurrence[] = [];
+  const active = slots.filter(slot => slot.is_active);
+  const zonedEnd = toZonedDate(end, timeZone);
+
+  for (let day = startOfDay(toZonedDate(start, timeZone)); !isBefore(zonedEnd, day); day = addDays(day, 1)) {
+    for (const slot of active) {
+      if (slot.day_of_week !== day.getDay()) continue;
+      const date = zonedTimeToUtc(
+        { year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate(), ...parseSlotTime(slot.time_of_day) },
+        timeZone
+      );
+      if (!isBefore(date, start) && !isBefore(end, date)) occurrences.push({ slot, date });
+    }
+  }
+
+  return occurrences.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export function isOccurrenceTaken(occurrence: SlotOccurrence, posts: ContentPost[], ignorePostId?: string): boolean {
+  return posts.some(post =>
+    post.id !== ignorePostId &&
+    post.status === "scheduled" &&
+    post.scheduled_date &&
+    samePlatform(post.platform, occurrence.slot.platform) &&
+    minuteKey(new Date(post.scheduled_date)) === minuteKey(occurrence.date)
+  );
+}
+
+/**
+ * Slot occurrences nobody has claimed yet, optionally for one platform
+ */
+export function freeOccurrences(
+  slots: PostingSlot[],
+  posts: ContentPost[],
+  start: Date,
+  end: Date,
+  timeZone: string,
+  platform?: string
+): SlotOccurrence[] {
+  return expandSlots(platform ? slots.filter(slot => samePlatform(slot.platform, platform)) : slots, start, end, timeZone)
+    .filter(occurrence => !isOccurrenceTaken(occurrence, posts));
+}
+
+/**
+ * The first free slot for the platform after `from`, or null when none falls within the horizon
+ */
+export function findNextFreeSlot(
+  slots: PostingSlot[],
+  posts: ContentPost[],
+  platform: string,
+  timeZone: string,
+  from: Date = new Date()
+): SlotOccurrence | null {
+  return freeOccurrences(slots, posts, from, addDays(from, QUEUE_HORIZON_DAYS), timeZone, platform)[0] ?? null;
+}
@@ -0,0 +1,158 @@
+import { supabase } from "@/integrations/supabase/client";
+import { BulkScheduleAssignment, ContentPost, CreateContentPostRequest } from "@/types/content";
+import { CreatePostingSlotRequest, PostingSlot, ZonedSlotOccurrence } from "@/types/postingSlot";
+import { ContentService } from "@/lib/contentService";
+import { findNextFreeSlot, QUEUE_HORIZON_DAYS } from "@/lib/postingQueue";
+import { WorkspaceSettingsService } from "@/lib/workspaceSettingsService";
+import { addDays } from "date-fns";
+
+export class PostingSlotService {
+  static async listSlots(): Promise<PostingSlot[]> {
+    const { data, error } = await supabase
+      .from('posting_slots')
+      .select('*')
+      .order('platform', { ascending: true })
+      .order('day_of_week', { ascending: true })
+      .order('time_of_day', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch posting slots: ${error.message}`);
+    }
+
+    return (data || []) as PostingSlot[];
+  }
+
+  static async createSlot(request: CreatePostingSlotRequest): Promise<PostingSlot> {
+    const { data, error } = await supabase
+      .from('posting_slots')
+      .insert([request])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create posting slot: ${error.message}`);
+    }
+
+    return data as PostingSlot;
+  }
+
+  static async setSlotActive(id: string, isActive: boolean): Promise<PostingSlot> {
+    const { data, error } = await supabase
+      .from('posting_slots')
+      .update({ is_active: isActive })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update posting slot: ${error.message}`);
+    }
+
+    return data as PostingSlot;
+  }
+
+  static async deleteSlot(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('posting_slots')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw new Error(`Failed to delete posting slot: ${error.message}`);
+    }
+  }
+
+  /**
+   * Next slot occurrence for the platform that no scheduled post occupies yet
+   */
+  static async findNextFreeSlot(platform: string): Promise<ZonedSlotOccurrence | null> {
+    const now = new Date();
+    const [slots, scheduled, timeZone] = await Promise.all([
+      PostingSlotService.listSlots(),
+      ContentService.getScheduledPosts(now, addDays(now, QUEUE_HORIZON_DAYS)),
+      WorkspaceSettingsService.resolveTimeZone()
+    ]);
+    const occurrence = findNextFreeSlot(slots, scheduled, platform, timeZone, now);
+    return occurrence && { ...occurrence, timeZone };
+  }
+
+  /**
+   * Schedule a new post into the next free slot of its platform
+   * Throws when the platform has no free slot in the queue horizon, so nothing is saved.
+   */
+  static async addToQueue(data: CreateContentPostRequest & { platform: string }): Promise<{ post: ContentPost; occurrence: ZonedSlotOccurrence }> {
+    const occurrence = await PostingSlotService.findNextFreeSlot(data.platform);
+    if (!occurrence) {
+      throw new Error(`No free ${data.platform} posting slot in the next ${QUEUE_HORIZON_DAYS} days`);
+    }
+
+    const post = await ContentService.createPost({
+      ...data,
+      status: 'scheduled',
+      scheduled_date: occurrence.date.toISOString(),
+      scheduled_timezone: occurrence.timeZone
+    });
+
+    return { post, occurrence };
+  }
+
+  /**
+   * Move an existing draft into the next free slot of its platform
+   */
+  static async queuePost(post: ContentPost): Promise<{ post: ContentPost; occurrence: ZonedSlotOccurrence }> {
+    const platform = post.platform || 'LinkedIn';
+    const occurrence = await PostingSlotService.findNextFreeSlot(platform);
+    if (!occurrence) {
+      throw new Error(`No free ${platform} posting slot in the next ${QUEUE_HORIZON_DAYS} days`);
+    }
+
+    const updated = await ContentService.updatePost(post.id, {
+      status: 'scheduled',
+      platform,
+      scheduled_date: occurrence.date.toISOString(),
+      scheduled_timezone: occurrence.timeZone
+    });
+
+    return { post: updated, occurrence };
+  }
+
+  /**
+   * Bulk version of queuePost: each post takes the next free slot of its platform, in the order given
+   * Posts whose platform has no free slot left in the queue horizon come back in `unscheduled`.
+   */
+  static async queuePosts(posts: ContentPost[]): Promise<{ scheduled: ContentPost[]; unscheduled: ContentPost[] }> {
+    const now = new Date();
+    const [slots, scheduled, timeZone] = await Promise.all([
+      PostingSlotService.listSlots(),
+      ContentService.getScheduledPosts(now, addDays(now, QUEUE_HORIZON_DAYS)),
+      WorkspaceSettingsService.resolveTimeZone()
+    ]);
+
+    const queuedIds = new Set(posts.map(post => post.id));
+    // Selected posts give up their current slots; each assignment then occupies its new one
+    const taken = scheduled.filter(post => !queuedIds.has(post.id));
+    const assignments: BulkScheduleAssignment[] = [];
+    const unscheduled: ContentPost[] = [];
+
+    for (const post of posts) {
+      const platform = post.platform || 'LinkedIn';
+      const occurrence = findNextFreeSlot(slots, taken, platform, timeZone, now);
+      if (!occurrence) {
+        unscheduled.push(post);
+        continue;
+      }
+
+      const assignment = {
+        id: post.id,
+        platform,
+        scheduled_date: occurrence.date.toISOString(),
+        scheduled_timezone: timeZone
+      };
+      assignments.push(assignment);
+      taken.push({ ...post, ...assignment, status: 'scheduled' });
+    }
+
+    const updated = assignments.length > 0 ? await ContentService.schedulePosts(assignments) : [];
+    return { scheduled: updated, unscheduled };
+  }
+}
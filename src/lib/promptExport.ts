@@ -0,0 +1,132 @@
+/**
+ * Turn a system/user prompt pair into ready-to-run API requests
+ * API keys are never embedded; headers reference environment variables so the cURL output
+ * can be pasted into a shell as-is.
+ */
+
+export type ExportProvider = "openai" | "gemini" | "anthropic";
+
+export interface ExportParameters {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  webSearch: boolean;
+}
+
+export interface ApiRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+export interface ExportProviderInfo {
+  label: string;
+  apiKeyVariable: string;
+  // Shown next to the web search switch; tool support differs per provider
+  webSearchNote: string;
+  defaults: ExportParameters;
+}
+
+export const EXPORT_PROVIDERS: Record<ExportProvider, ExportProviderInfo> = {
+  openai: {
+    label: "OpenAI",
+    apiKeyVariable: "OPENAI_API_KEY",
+    webSearchNote: "Adds web_search_options; requires a search model such as gpt-4o-search-preview",
+    defaults: { model: "gpt-4.1", temperature: 0.7, maxTokens: 2048, webSearch: false },
+  },
+  gemini: {
+    label: "Gemini",
+    apiKeyVariable: "GEMINI_API_KEY",
+    webSearchNote: "Adds the google_search grounding tool",
+    defaults: { model: "gemini-2.5-pro", temperature: 0.7, maxTokens: 2048, webSearch: true },
+  },
+  anthropic: {
+    label: "Anthropic",
+    apiKeyVariable: "ANTHROPIC_API_KEY",
+    webSearchNote: "Adds the web_search server tool",
+    defaults: { model: "claude-sonnet-4-20250514", temperature: 0.7, maxTokens: 2048, webSearch: false },
+  },
+};
+
+export const EXPORT_PROVIDER_KEYS = Object.keys(EXPORT_PROVIDERS) as ExportProvider[];
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/**
+ * Build the request for one provider's native API
+ */
+export function buildApiRequest(
+  provider: ExportProvider,
+  prompts: { systemPrompt: string; userPrompt: string },
+  params: ExportParameters
+): ApiRequest {
+  const apiKey = `$${EXPORT_PROVIDERS[provider].apiKeyVariable}`;
+
+  switch (provider) {
+    case "openai":
+      return {
+        url: "https://api.openai.com/v1/chat/completions",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+        body: {
+          model: params.model,
+          messages: [
+            { role: "system", content: prompts.systemPrompt },
+            { role: "user", content: prompts.userPrompt },
+          ],
+          temperature: params.temperature,
+          max_tokens: params.maxTokens,
+          ...(params.webSearch ? { web_search_options: {} } : {}),
+        },
+      };
+
+    case "gemini":
+      return {
+        url: `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(params.model)}:generateContent`,
+        headers: { "Content-Type": "application/json", "x-goog-api-key": apiKey },
+        body: {
+          systemInstruction: { parts: [{ text: prompts.systemPrompt }] },
+          contents: [{ role: "user", parts: [{ text: prompts.userPrompt }] }],
+          generationConfig: {
+            temperature: params.temperature,
+            maxOutputTokens: params.maxTokens,
+          },
+          ...(params.webSearch ? { tools: [{ google_search: {} }] } : {}),
+        },
+      };
+
+    case "anthropic":
+      return {
+        url: "https://api.anthropic.com/v1/messages",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": apiKey,
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        body: {
+          model: params.model,
+          max_tokens: params.maxTokens,
+          temperature: params.temperature,
+          system: prompts.systemPrompt,
+          messages: [{ role: "user", content: prompts.userPrompt }],
+          ...(params.webSearch ? { tools: [{ type: "web_search_20250305", name: "web_search", max_uses: 5 }] } : {}),
+        },
+      };
+  }
+}
+
+// Single-quote for POSIX shells: close the quote, emit an escaped quote, reopen
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+
+/**
+ * cURL command for a request; headers that reference $VARIABLES are double-quoted so the shell expands them
+ */
+export function toCurl(request: ApiRequest): string {
+  const headers = Object.entries(request.headers).map(([name, value]) =>
+    value.includes("$") ? `  -H "${name}: ${value}"` : `  -H ${shellQuote(`${name}: ${value}`)}`
+  );
+  return [
+    `curl ${shellQuote(request.url)}`,
+    ...headers,
+    `  -d ${shellQuote(JSON.stringify(request.body, null, 2))}`,
+  ].join(" \\\n");
+}
@@ -0,0 +1,82 @@
+import { supabase } from "@/integrations/supabase/client";
+import { CreatePromptTemplateRequest, PromptTemplate, PromptTemplateKey } from "@/types/promptTemplate";
+import { extractVariables } from "@/lib/promptTemplates";
+
+export class PromptTemplateService {
+  static async listVersions(key: PromptTemplateKey): Promise<PromptTemplate[]> {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('template_key', key)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch prompt template versions: ${error.message}`);
+    }
+
+    return (data || []) as PromptTemplate[];
+  }
+
+  static async getActiveTemplates(): Promise<Partial<Record<PromptTemplateKey, PromptTemplate>>> {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('is_active', true);
+
+    if (error) {
+      throw new Error(`Failed to fetch active prompt templates: ${error.message}`);
+    }
+
+    return Object.fromEntries(
+      ((data || []) as PromptTemplate[]).map(template => [template.template_key, template])
+    );
+  }
+
+  /**
+   * Versions are immutable, so saving always creates the next version number for the key
+   */
+  static async createVersion(request: CreatePromptTemplateRequest): Promise<PromptTemplate> {
+    const { data: latest, error: latestError } = await supabase
+      .from('prompt_templates')
+      .select('version')
+      .eq('template_key', request.template_key)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw new Error(`Failed to create prompt template version: ${latestError.message}`);
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert([{
+        ...request,
+        version: (latest?.version ?? 0) + 1,
+        required_variables: extractVariables(request.body),
+        is_active: false
+      }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create prompt template version: ${error.message}`);
+    }
+
+    return data as PromptTemplate;
+  }
+
+  /**
+   * Make a version the one used for generation; null reverts the key to the built-in default
+   */
+  static async activateVersion(key: PromptTemplateKey, version: number | null): Promise<void> {
+    const { error } = await supabase.rpc('activate_prompt_template', {
+      target_key: key,
+      target_version: version
+    });
+
+    if (error) {
+      throw new Error(`Failed to activate prompt template: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Variable interpolation for prompt templates
+ * Variables are written as {{name}}. Anything else inside double braces, such as the n8n
+ * expression {{ $json.transcript }}, is not a variable and passes through untouched.
+ */
+
+export type TemplateValues = Record<string, string | number | null | undefined>;
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+export class TemplateVariableError extends Error {
+  readonly missing: string[];
+
+  constructor(missing: string[]) {
+    super(`Missing value for template ${missing.length === 1 ? "variable" : "variables"}: ${missing.join(", ")}`);
+    this.name = "TemplateVariableError";
+    this.missing = missing;
+  }
+}
+
+export const isTemplateVariableError = (error: unknown): error is TemplateVariableError => error instanceof TemplateVariableError;
+
+/**
+ * Unique variable names referenced by a template, in order of first use
+ */
+export function extractVariables(body: string): string[] {
+  return [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]))];
+}
+
+/**
+ * Variables the template uses that are not in the allowed list (typos, or variables the app never supplies)
+ */
+export function findUnknownVariables(body: string, allowed: string[]): string[] {
+  return extractVariables(body).filter(name => !allowed.includes(name));
+}
+
+const isMissing = (value: TemplateValues[string]) => value === undefined || value === null || String(value).trim() === "";
+
+/**
+ * Replace every {{variable}} with its value; throws TemplateVariableError listing every
+ * referenced variable that has no value, so nothing is sent with a hole in it
+ */
+export function interpolate(body: string, values: TemplateValues): string {
+  const missing = extractVariables(body).filter(name => isMissing(values[name]));
+  if (missing.length > 0) {
+    throw new TemplateVariableError(missing);
+  }
+  return body.replace(VARIABLE_PATTERN, (_, name: string) => String(values[name]));
+}
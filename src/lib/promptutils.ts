@@ -1,8 +1,14 @@
 /**
  * Prompt utilities for generating LinkedIn post prompts
- * These prompts are extracted from the n8n workflow
+ * The built-in templates below are extracted from the n8n workflow; an active version in the
+ * prompt_templates table overrides the built-in one for its key.
  */
 
+import { interpolate, type TemplateValues } from "./promptTemplates";
+import { PromptTemplateService } from "./promptTemplateService";
+import { formatTranscript, formatVideoDetails, N8N_TRANSCRIPT_EXPRESSION, type Transcript } from "./transcripts";
+import type { PromptTemplateKey } from "@/types/promptTemplate";
+
 export interface PromptInputs {
   category: string;
   topic: string;
@@ -14,6 +20,76 @@ export interface GeneratedPrompts {
   systemPrompt: string;
   userPrompt: string;
   model: "OpenAI GPT-4.1" | "Google Gemini";
+  // Registry version used for each prompt; null means the built-in default
+  templateVersions: { system: number | null; user: number | null };
+}
+
+// "n8n" leaves the transcript as the workflow's expression; "rendered" fills in a fetched transcript
+export type PromptOutputMode = "n8n" | "rendered";
+
+export interface GeneratePromptsOptions {
+  output?: PromptOutputMode;
+  transcript?: Transcript;
+}
+
+/**
+ * Formatting rules shared by the system prompts and the post linter
+ * Changing a number here changes both what the model is asked for and what gets checked.
+ */
+export const CATEGORY_WORD_RANGES: Record<string, { min: number; max: number }> = {
+  "Storytelling/Thought Leadership/Authority": { min: 150, max: 300 },
+  "Lead Magnets & YT Video-based content": { min: 100, max: 200 },
+  "Case studies/Testimonials/Results": { min: 150, max: 250 },
+  "Skool Community/Educational": { min: 200, max: 300 },
+};
+
+// Lead magnet posts are held to this category's rules
+export const LEAD_MAGNET_CATEGORY = "Lead Magnets & YT Video-based content";
+
+export const HASHTAG_RANGE = { min: 3, max: 5 };
+export const EMOJI_RANGE = { min: 1, max: 3 };
+export const MAX_SENTENCES_PER_LINE = 2;
+
+const lengthRule = (category: string) =>
+  `${CATEGORY_WORD_RANGES[category].min}-${CATEGORY_WORD_RANGES[category].max} words`;
+
+/**
+ * Variables every template can use: the form inputs plus the formatting rules above
+ */
+export const TEMPLATE_VARIABLES = [
+  "category",
+  "topic",
+  "tone",
+  "hashtagRange",
+  "emojiRange",
+  "maxSentencesPerLine",
+  "storytellingLength",
+  "leadMagnetLength",
+  "caseStudyLength",
+  "educationalLength",
+  "videoDetails",
+  "transcript",
+];
+
+export function buildTemplateValues(inputs: PromptInputs, options: GeneratePromptsOptions = {}): TemplateValues {
+  const { output = "n8n", transcript } = options;
+  const isRendered = output === "rendered";
+
+  return {
+    category: inputs.category,
+    topic: inputs.topic,
+    tone: inputs.tone,
+    hashtagRange: `${HASHTAG_RANGE.min}-${HASHTAG_RANGE.max}`,
+    emojiRange: `${EMOJI_RANGE.min}-${EMOJI_RANGE.max}`,
+    maxSentencesPerLine: MAX_SENTENCES_PER_LINE,
+    storytellingLength: lengthRule("Storytelling/Thought Leadership/Authority"),
+    leadMagnetLength: lengthRule("Lead Magnets & YT Video-based content"),
+    caseStudyLength: lengthRule("Case studies/Testimonials/Results"),
+    educationalLength: lengthRule("Skool Community/Educational"),
+    videoDetails: formatVideoDetails(transcript?.metadata ?? { url: inputs.topic }),
+    // Left undefined when rendering without a transcript so interpolation reports it as missing
+    transcript: isRendered ? (transcript ? formatTranscript(transcript) : undefined) : N8N_TRANSCRIPT_EXPRESSION,
+  };
 }
 
 /**
@@ -28,7 +104,7 @@ const TEXT_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist specia
    - Position the author as an expert/thought leader
    - Use "I/We" narrative, share unique perspectives
    - Include a compelling hook, story arc, and takeaway
-   - Length: 150-300 words
+   - Length: {{storytellingLength}}
 
 2. **Lead Magnets & YT Video-based content**:
    - Promote free resources, guides, or video content
@@ -36,7 +112,7 @@ const TEXT_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist specia
    - Include clear CTA (comment, DM, link in comments)
    - Build curiosity without giving everything away
    - Use bullet points for key benefits
-   - Length: 100-200 words
+   - Length: {{leadMagnetLength}}
 
 3. **Case studies/Testimonials/Results**:
    - Showcase client success stories or personal achievements
@@ -44,7 +120,7 @@ const TEXT_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist specia
    - Before/after structure works well
    - Include social proof and credibility markers
    - End with how others can achieve similar results
-   - Length: 150-250 words
+   - Length: {{caseStudyLength}}
 
 4. **Skool Community/Educational**:
    - Teaching moments, how-to content, frameworks
@@ -52,7 +128,7 @@ const TEXT_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist specia
    - Use numbered lists or step-by-step format
    - Provide immediate actionable value
    - Encourage community discussion
-   - Length: 200-300 words
+   - Length: {{educationalLength}}
 
 **TONE GUIDELINES:**
 
@@ -64,9 +140,9 @@ const TEXT_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist specia
 
 **FORMATTING RULES:**
 - Start with a compelling hook (first 2 lines are crucial)
-- Use line breaks every 1-2 sentences for readability
-- Include 3-5 relevant hashtags at the end
-- Use emojis sparingly but effectively (1-3 per post)
+- Use line breaks every 1-{{maxSentencesPerLine}} sentences for readability
+- Include {{hashtagRange}} relevant hashtags at the end
+- Use emojis sparingly but effectively ({{emojiRange}} per post)
 - Add white space between paragraphs
 - Include a clear CTA when appropriate
 - DO NOT USE markdown in post content.
@@ -86,7 +162,7 @@ const URL_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist special
    - Position the author as an expert/thought leader
    - Use "I/We" narrative, share unique perspectives
    - Include a compelling hook, story arc, and takeaway
-   - Length: 150-300 words
+   - Length: {{storytellingLength}}
 
 2. **Lead Magnets & YT Video-based content**:
    - Promote free resources, guides, or video content
@@ -94,7 +170,7 @@ const URL_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist special
    - Include clear CTA (comment, DM, link in comments)
    - Build curiosity without giving everything away
    - Use bullet points for key benefits
-   - Length: 100-200 words
+   - Length: {{leadMagnetLength}}
 
 3. **Case studies/Testimonials/Results**:
    - Showcase client success stories or personal achievements
@@ -102,7 +178,7 @@ const URL_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist special
    - Before/after structure works well
    - Include social proof and credibility markers
    - End with how others can achieve similar results
-   - Length: 150-250 words
+   - Length: {{caseStudyLength}}
 
 4. **Skool Community/Educational**:
    - Teaching moments, how-to content, frameworks
@@ -110,7 +186,7 @@ const URL_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist special
    - Use numbered lists or step-by-step format
    - Provide immediate actionable value
    - Encourage community discussion
-   - Length: 200-300 words
+   - Length: {{educationalLength}}
 
 **TONE GUIDELINES:**
 - **Authoritative**: Confident, expert voice. Use industry terminology. Make definitive statements backed by experience/data.
@@ -131,9 +207,9 @@ const URL_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist special
 
 **FORMATTING RULES:**
 - Start with a compelling hook (first 2 lines are crucial)
-- Use line breaks every 1-2 sentences for readability
-- Include 3-5 relevant hashtags at the end
-- Use emojis sparingly but effectively (1-3 per post)
+- Use line breaks every 1-{{maxSentencesPerLine}} sentences for readability
+- Include {{hashtagRange}} relevant hashtags at the end
+- Use emojis sparingly but effectively ({{emojiRange}} per post)
 - Add white space between paragraphs
 - Include a clear CTA when appropriate
 - DO NOT USE markdown in post content
@@ -142,49 +218,47 @@ const URL_SYSTEM_PROMPT = `You are an expert LinkedIn content strategist special
 Highly reccommended to search the web using search web tool to get the latest information about the topic.`;
 
 /**
- * Generate user prompt for text-based posts
+ * User prompt for text-based posts
  */
-function generateTextUserPrompt(inputs: PromptInputs): string {
-  return `Create a LinkedIn post with the following specifications:
+const TEXT_USER_PROMPT = `Create a LinkedIn post with the following specifications:
 
-Category: ${inputs.category}
-Topic/Idea: ${inputs.topic}
-Tone: ${inputs.tone}
+Category: {{category}}
+Topic/Idea: {{topic}}
+Tone: {{tone}}
 
-First, analyze the topic and search for current, relevant information about: ${inputs.topic}
+First, analyze the topic and search for current, relevant information about: {{topic}}
 
 Based on your research and the category requirements, craft a LinkedIn post that:
-1. Aligns perfectly with the ${inputs.category} category guidelines
-2. Maintains a consistent ${inputs.tone} tone throughout
+1. Aligns perfectly with the {{category}} category guidelines
+2. Maintains a consistent {{tone}} tone throughout
 3. Incorporates relevant, up-to-date information about the topic
 4. Follows LinkedIn best practices for engagement
 5. Includes appropriate hashtags related to the topic and industry
 
 Generate the post now.`;
-}
 
 /**
- * Generate user prompt for URL/video-based posts
+ * User prompt for URL/video-based posts
  */
-function generateUrlUserPrompt(inputs: PromptInputs): string {
-  return `Create an impactful LinkedIn post with strong hook based on the following YouTube video:
+const URL_USER_PROMPT = `Create an impactful LinkedIn post with strong hook based on the following YouTube video:
 
 **VIDEO DETAILS:**
-Video Transcript: "{{ $json.transcript.toJsonString() }}"
+{{videoDetails}}
+Video Transcript: "{{transcript}}"
 
 **POST SPECIFICATIONS:**
-Category: "${inputs.category}"
-Tone: "${inputs.tone}"
+Category: "{{category}}"
+Tone: "{{tone}}"
 
 **YOUR TASK:**
 1. Analyze the video transcript to identify the most compelling insights, stories, or valuable information
-2. Select the most engaging moment or concept that aligns with the ${inputs.category} category
+2. Select the most engaging moment or concept that aligns with the {{category}} category
 3. Create a LinkedIn post that:
    - Hooks readers with an intriguing insight from the video
    - Teases the value without giving everything away
-   - Maintains a ${inputs.tone} tone throughout
+   - Maintains a {{tone}} tone throughout
    - Encourages viewers to watch the full video
-   - Follows the specific guidelines for ${inputs.category} posts
+   - Follows the specific guidelines for {{category}} posts
 
 **SPECIFIC REQUIREMENTS BY CATEGORY:**
 
@@ -209,23 +283,69 @@ For "Skool Community/Educational":
 - Encourage discussion about the topic
 
 Generate the post now, making sure to create curiosity about the video while providing standalone value in the post itself.`;
+
+export interface PromptTemplateDefinition {
+  label: string;
+  description: string;
+  defaultBody: string;
 }
 
+export const PROMPT_TEMPLATE_DEFINITIONS: Record<PromptTemplateKey, PromptTemplateDefinition> = {
+  text_system: {
+    label: "Text post - system",
+    description: "System prompt for posts generated from a text topic (OpenAI)",
+    defaultBody: TEXT_SYSTEM_PROMPT,
+  },
+  text_user: {
+    label: "Text post - user",
+    description: "User prompt for posts generated from a text topic (OpenAI)",
+    defaultBody: TEXT_USER_PROMPT,
+  },
+  url_system: {
+    label: "Video post - system",
+    description: "System prompt for posts generated from a YouTube URL (Gemini)",
+    defaultBody: URL_SYSTEM_PROMPT,
+  },
+  url_user: {
+    label: "Video post - user",
+    description: "User prompt for posts generated from a YouTube URL (Gemini)",
+    defaultBody: URL_USER_PROMPT,
+  },
+};
+
+export const PROMPT_TEMPLATE_KEYS = Object.keys(PROMPT_TEMPLATE_DEFINITIONS) as PromptTemplateKey[];
+
 /**
- * Generate prompts based on input type
+ * Generate prompts based on input type, using the active registry version of each template
+ * Falls back to the built-in templates if the registry cannot be reached.
  */
-export function generatePrompts(inputs: PromptInputs): GeneratedPrompts {
-  if (inputs.topicType === "url") {
-    return {
-      systemPrompt: URL_SYSTEM_PROMPT,
-      userPrompt: generateUrlUserPrompt(inputs),
-      model: "Google Gemini"
-    };
-  } else {
-    return {
-      systemPrompt: TEXT_SYSTEM_PROMPT,
-      userPrompt: generateTextUserPrompt(inputs),
-      model: "OpenAI GPT-4.1"
-    };
+export async function generatePrompts(inputs: PromptInputs, options: GeneratePromptsOptions = {}): Promise<GeneratedPrompts> {
+  const systemKey: PromptTemplateKey = inputs.topicType === "url" ? "url_system" : "text_system";
+  const userKey: PromptTemplateKey = inputs.topicType === "url" ? "url_user" : "text_user";
+
+  let active: Awaited<ReturnType<typeof PromptTemplateService.getActiveTemplates>> = {};
+  try {
+    active = await PromptTemplateService.getActiveTemplates();
+  } catch (error) {
+    console.warn("Using built-in prompt templates:", error);
   }
+
+  const values = buildTemplateValues(inputs, options);
+  const system = active[systemKey];
+  const user = active[userKey];
+
+  // Registry versions forked before {{transcript}} existed still carry the raw n8n expression
+  const render = (body: string) => {
+    const text = interpolate(body, values);
+    return options.output === "rendered" && options.transcript
+      ? text.split(N8N_TRANSCRIPT_EXPRESSION).join(String(values.transcript))
+      : text;
+  };
+
+  return {
+    systemPrompt: render(system?.body ?? PROMPT_TEMPLATE_DEFINITIONS[systemKey].defaultBody),
+    userPrompt: render(user?.body ?? PROMPT_TEMPLATE_DEFINITIONS[userKey].defaultBody),
+    model: inputs.topicType === "url" ? "Google Gemini" : "OpenAI GPT-4.1",
+    templateVersions: { system: system?.version ?? null, user: user?.version ?? null },
+  };
 }
@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PostLibraryFilters, SavedView } from "@/types/savedView";
+
+const OWNER_KEY_STORAGE = 'content-hub:saved-views-owner';
+
+// Until there is sign-in, each browser is its own user; the key is created on first use
+function getOwnerKey(): string {
+  let key = localStorage.getItem(OWNER_KEY_STORAGE);
+  if (!key) {
+    key = crypto.randomUUID();
+    localStorage.setItem(OWNER_KEY_STORAGE, key);
+  }
+  return key;
+}
+
+export class SavedViewService {
+  static async listViews(): Promise<SavedView[]> {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .select('*')
+      .eq('owner_key', getOwnerKey())
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch saved views: ${error.message}`);
+    }
+
+    return (data || []) as SavedView[];
+  }
+
+  /**
+   * Save the filters under a name, replacing any view of the same name
+   */
+  static async saveView(name: string, filters: PostLibraryFilters): Promise<SavedView> {
+    const { data, error } = await supabase
+      .from('saved_views')
+      .upsert({ owner_key: getOwnerKey(), name: name.trim(), filters }, { onConflict: 'owner_key,name' })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save view: ${error.message}`);
+    }
+
+    return data as SavedView;
+  }
+
+  static async deleteView(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('saved_views')
+      .delete()
+      .eq('id', id)
+      .eq('owner_key', getOwnerKey());
+
+    if (error) {
+      throw new Error(`Failed to delete saved view: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Search query syntax for the Post Library
+ * Translates what users type in the search box into a Postgres to_tsquery expression:
+ *
+ *   growth hacking     -> both words (AND)
+ *   "cold outreach"    -> exact phrase
+ *   automat*           -> prefix match
+ *   -webinar           -> exclude posts containing the word
+ *   linkedin OR twitter -> either word
+ */
+
+export const SEARCH_SYNTAX_HELP = [
+  { example: 'growth hacking', description: 'Posts containing both words' },
+  { example: '"cold outreach"', description: 'Exact phrase' },
+  { example: 'automat*', description: 'Words starting with "automat"' },
+  { example: '-webinar', description: 'Exclude posts containing "webinar"' },
+  { example: 'linkedin OR twitter', description: 'Either word' },
+];
+
+// Marker characters the search_content_posts function wraps around matches
+export const HIGHLIGHT_START = '⟦';
+export const HIGHLIGHT_END = '⟧';
+
+const TOKEN_PATTERN = /(-?)"([^"]*)"|(\S+)/g;
+
+/**
+ * Split a term into lexeme-safe words, dropping tsquery operators and punctuation
+ */
+function toWords(term: string): string[] {
+  return term
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Convert search box input into a to_tsquery expression.
+ * Returns null when the input has no searchable words.
+ */
+export function toTsQuery(input: string): string | null {
+  const clauses: string[] = [];
+  let joinWithOr = false;
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, phraseNegation, phrase, rawTerm] = match;
+
+    if (rawTerm === 'OR') {
+      joinWithOr = clauses.length > 0;
+      continue;
+    }
+
+    let clause: string | null = null;
+
+    if (phrase !== undefined) {
+      const words = toWords(phrase);
+      if (words.length > 0) {
+        const expression = words.join(' <-> ');
+        clause = phraseNegation ? `!(${expression})` : words.length > 1 ? `(${expression})` : expression;
+      }
+    } else {
+      const negated = rawTerm.startsWith('-') && rawTerm.length > 1;
+      const term = negated ? rawTerm.slice(1) : rawTerm;
+      const isPrefix = term.endsWith('*');
+      const words = toWords(term);
+
+      if (words.length > 0) {
+        if (isPrefix) {
+          words[words.length - 1] += ':*';
+        }
+        const expression = words.length > 1 ? `(${words.join(' <-> ')})` : words[0];
+        clause = negated ? `!${expression}` : expression;
+      }
+    }
+
+    if (!clause) continue;
+
+    if (clauses.length > 0) {
+      clauses.push(joinWithOr ? '|' : '&');
+    }
+    clauses.push(clause);
+    joinWithOr = false;
+  }
+
+  return clauses.length > 0 ? clauses.join(' ') : null;
+}
@@ -0,0 +1,164 @@
+/**
+ * Near-duplicate detection for post content
+ * Posts are compared as sets of word shingles (overlapping three-word runs) using Jaccard
+ * similarity. Checking one draft against the library compares the sets directly; the library
+ * report finds candidate pairs with MinHash and locality-sensitive hashing so it doesn't have to
+ * compare every pair, then confirms each candidate with the exact similarity.
+ */
+
+export const SHINGLE_SIZE = 3;
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.5;
+
+// 40 bands of 3 rows: pairs at 40% similarity become candidates ~93% of the time, at 60% ~99.9%
+const LSH_BANDS = 40;
+const LSH_ROWS = 3;
+const SIGNATURE_SIZE = LSH_BANDS * LSH_ROWS;
+
+export interface SimilarityInput {
+  id?: string;
+  content: string;
+}
+
+export interface SimilarityMatch<T> {
+  post: T;
+  similarity: number; // Jaccard similarity of the shingle sets, 0–1
+}
+
+export interface NearDuplicatePair<T> {
+  first: T;
+  second: T;
+  similarity: number;
+}
+
+// Case, punctuation and spacing don't make two posts different
+export const normalizeForSimilarity = (text: string): string =>
+  text.toLowerCase().replace(/[^\p{L}\p{N}#@\s]+/gu, " ").replace(/\s+/g, " ").trim();
+
+// FNV-1a, 32-bit
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Murmur3 finaliser; XOR-ing in a different seed gives each signature row its own hash function
+function mixHash(value: number, seed: number): number {
+  let h = (value ^ seed) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, index) => hashString(`minhash-${index}`));
+
+export function shingleSet(text: string, size = SHINGLE_SIZE): Set<number> {
+  const words = normalizeForSimilarity(text).split(" ").filter(Boolean);
+  const shingles = new Set<number>();
+  if (words.length === 0) return shingles;
+  // Posts shorter than one shingle still compare as a whole
+  if (words.length < size) {
+    shingles.add(hashString(words.join(" ")));
+    return shingles;
+  }
+  for (let i = 0; i <= words.length - size; i++) {
+    shingles.add(hashString(words.slice(i, i + size).join(" ")));
+  }
+  return shingles;
+}
+
+export function jaccardSimilarity(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let intersection = 0;
+  smaller.forEach(value => {
+    if (larger.has(value)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+}
+
+export function minHashSignature(shingles: Set<number>): Uint32Array {
+  const signature = new Uint32Array(SIGNATURE_SIZE).fill(0xffffffff);
+  shingles.forEach(shingle => {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const hash = mixHash(shingle, SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  });
+  return signature;
+}
+
+export function textSimilarity(a: string, b: string): number {
+  return jaccardSimilarity(shingleSet(a), shingleSet(b));
+}
+
+// A post with its shingles computed once, so a draft can be compared against it on every keystroke
+export interface ShingledPost<T> {
+  post: T;
+  shingles: Set<number>;
+}
+
+export const shinglePosts = <T extends SimilarityInput>(posts: T[]): ShingledPost<T>[] =>
+  posts.map(post => ({ post, shingles: shingleSet(post.content) }));
+
+/**
+ * Library posts similar to a draft, most similar first; the draft's own row is skipped when it has an id
+ */
+export function findSimilarPosts<T extends SimilarityInput>(
+  candidate: SimilarityInput,
+  library: ShingledPost<T>[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): SimilarityMatch<T>[] {
+  const candidateShingles = shingleSet(candidate.content);
+  if (candidateShingles.size === 0) return [];
+
+  return library
+    .filter(({ post }) => !candidate.id || post.id !== candidate.id)
+    .map(({ post, shingles }) => ({ post, similarity: jaccardSimilarity(candidateShingles, shingles) }))
+    .filter(match => match.similarity >= threshold)
+    .sort((a, b) => b.similarity - a.similarity);
+}
+
+/**
+ * Every pair of posts at or above the threshold, most similar first
+ */
+export function findNearDuplicatePairs<T extends SimilarityInput>(
+  posts: T[],
+  threshold = DEFAULT_SIMILARITY_THRESHOLD
+): NearDuplicatePair<T>[] {
+  const shingles = posts.map(post => shingleSet(post.content));
+  const buckets = new Map<string, number[]>();
+
+  shingles.forEach((set, index) => {
+    if (set.size === 0) return;
+    const signature = minHashSignature(set);
+    for (let band = 0; band < LSH_BANDS; band++) {
+      const rows = signature.subarray(band * LSH_ROWS, (band + 1) * LSH_ROWS);
+      const key = `${band}:${rows.join(",")}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  // Posts sharing any band are candidates; the exact similarity decides
+  const checked = new Set<string>();
+  const pairs: NearDuplicatePair<T>[] = [];
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]}:${bucket[j]}`;
+        if (checked.has(key)) continue;
+        checked.add(key);
+        const similarity = jaccardSimilarity(shingles[bucket[i]], shingles[bucket[j]]);
+        if (similarity >= threshold) {
+          pairs.push({ first: posts[bucket[i]], second: posts[bucket[j]], similarity });
+        }
+      }
+    }
+  });
+
+  return pairs.sort((a, b) => b.similarity - a.similarity);
+}
@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+import { SaveTagRequest, Tag, TagWithUsage, UpdateTagRequest } from "@/types/tag";
+
+/**
+ * Posts store tag names in content_posts.tags; the tags table holds each name's colour and
+ * description. The database registers new names as posts are saved and keeps every post on the
+ * registered spelling, so renames and merges go through functions that rewrite the posts too.
+ */
+export class TagService {
+  static async listTags(): Promise<TagWithUsage[]> {
+    const { data, error } = await supabase.rpc('list_tags_with_usage');
+
+    if (error) {
+      throw new Error(`Failed to fetch tags: ${error.message}`);
+    }
+
+    return (data || []).map(tag => ({ ...tag, post_count: Number(tag.post_count) })) as TagWithUsage[];
+  }
+
+  static async createTag(request: SaveTagRequest): Promise<Tag> {
+    const { data, error } = await supabase
+      .from('tags')
+      .insert([{ ...request, name: request.name.trim() }])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create tag: ${error.message}`);
+    }
+
+    return data as Tag;
+  }
+
+  /**
+   * Colour and description only; names change through renameTag so posts follow
+   */
+  static async updateTag(id: string, updates: UpdateTagRequest): Promise<Tag> {
+    const { data, error } = await supabase
+      .from('tags')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update tag: ${error.message}`);
+    }
+
+    return data as Tag;
+  }
+
+  /**
+   * Returns the number of posts rewritten
+   */
+  static async renameTag(id: string, newName: string): Promise<number> {
+    const { data, error } = await supabase.rpc('rename_tag', { target_id: id, new_name: newName.trim() });
+
+    if (error) {
+      throw new Error(`Failed to rename tag: ${error.message}`);
+    }
+
+    return data ?? 0;
+  }
+
+  /**
+   * Fold the source tags into the target on every post and delete them; returns the number of posts rewritten
+   */
+  static async mergeTags(sourceIds: string[], targetId: string): Promise<number> {
+    const { data, error } = await supabase.rpc('merge_tags', { source_ids: sourceIds, target_id: targetId });
+
+    if (error) {
+      throw new Error(`Failed to merge tags: ${error.message}`);
+    }
+
+    return data ?? 0;
+  }
+
+  /**
+   * Remove the tag from every post and delete it; returns the number of posts rewritten
+   */
+  static async deleteTag(id: string): Promise<number> {
+    const { data, error } = await supabase.rpc('delete_tag', { target_id: id });
+
+    if (error) {
+      throw new Error(`Failed to delete tag: ${error.message}`);
+    }
+
+    return data ?? 0;
+  }
+}
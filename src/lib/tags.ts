@@ -0,0 +1,75 @@
+/**
+ * Tag name handling shared by the tag inputs, the tag manager and the library tag cloud
+ * The database is the authority on spelling (it maps every name to its registered form when a
+ * post is saved); these helpers mirror that in the UI so what the user picks is what gets stored.
+ */
+
+import { TagWithUsage } from "@/types/tag";
+
+export const TAG_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899', '#64748b'];
+
+const SUGGESTION_LIMIT = 8;
+const CLOUD_SIZES = ['text-xs', 'text-sm', 'text-base', 'text-lg', 'text-xl'];
+
+// Commas separate tags everywhere tags are typed as text, so they can't be part of a name
+export const normalizeTagName = (name: string): string => name.replace(/,/g, ' ').replace(/\s+/g, ' ').trim();
+
+// "AI", "ai" and "A.I." share a key: likely the same tag spelled differently
+export const tagSimilarityKey = (name: string): string => name.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+export function findTag<T extends { name: string }>(tags: T[], name: string): T | undefined {
+  const key = normalizeTagName(name).toLowerCase();
+  return tags.find(tag => tag.name.toLowerCase() === key);
+}
+
+/**
+ * Add a typed name to a post's tags using the registered spelling; unchanged if the post already has it
+ */
+export function addTagName(current: string[], name: string, known: { name: string }[]): string[] {
+  const normalized = normalizeTagName(name);
+  if (!normalized || current.some(tag => tag.toLowerCase() === normalized.toLowerCase())) return current;
+  return [...current, findTag(known, normalized)?.name ?? normalized];
+}
+
+/**
+ * Autocomplete: names starting with the query before names containing it, more used tags first
+ */
+export function suggestTags(known: TagWithUsage[], query: string, exclude: string[] = []): TagWithUsage[] {
+  const needle = normalizeTagName(query).toLowerCase();
+  const excluded = new Set(exclude.map(tag => tag.toLowerCase()));
+  return known
+    .filter(tag => !excluded.has(tag.name.toLowerCase()))
+    .map(tag => ({ tag, index: tag.name.toLowerCase().indexOf(needle) }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) =>
+      Number(a.index > 0) - Number(b.index > 0) ||
+      b.tag.post_count - a.tag.post_count ||
+      a.tag.name.localeCompare(b.tag.name)
+    )
+    .slice(0, SUGGESTION_LIMIT)
+    .map(({ tag }) => tag);
+}
+
+/**
+ * Groups of two or more tags that differ only in case or punctuation, most used first in each group
+ */
+export function findSimilarTagGroups(tags: TagWithUsage[]): TagWithUsage[][] {
+  const groups = new Map<string, TagWithUsage[]>();
+  tags.forEach(tag => {
+    const key = tagSimilarityKey(tag.name);
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) ?? []), tag]);
+  });
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort((a, b) => b.post_count - a.post_count));
+}
+
+/**
+ * Font size class for a tag cloud entry, on a log scale so one heavily used tag doesn't flatten the rest
+ */
+export function tagCloudSize(count: number, maxCount: number): string {
+  if (maxCount <= 1) return CLOUD_SIZES[1];
+  const step = Math.round((Math.log(Math.max(count, 1)) / Math.log(maxCount)) * (CLOUD_SIZES.length - 1));
+  return CLOUD_SIZES[Math.min(Math.max(step, 0), CLOUD_SIZES.length - 1)];
+}
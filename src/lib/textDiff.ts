@@ -0,0 +1,99 @@
+/**
+ * Word-level text diff
+ * Tokens are words and the whitespace between them, so line breaks survive in the output.
+ */
+
+export interface DiffPart {
+  type: "equal" | "added" | "removed";
+  value: string;
+}
+
+// Above this many LCS cells, fall back to a whole-block replacement to bound memory
+const MAX_LCS_CELLS = 4_000_000;
+
+const tokenize = (text: string): string[] => text.match(/\s+|[^\s]+/g) || [];
+
+const pushPart = (parts: DiffPart[], type: DiffPart["type"], value: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+};
+
+/**
+ * Diff two texts word by word using a longest-common-subsequence table
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  // Common prefix and suffix never need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  if (start > 0) pushPart(parts, "equal", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    if (midA.length) pushPart(parts, "removed", midA.join(""));
+    if (midB.length) pushPart(parts, "added", midB.join(""));
+  } else {
+    // lcs[i][j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, "equal", midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        pushPart(parts, "removed", midA[i++]);
+      } else {
+        pushPart(parts, "added", midB[j++]);
+      }
+    }
+    while (i < midA.length) pushPart(parts, "removed", midA[i++]);
+    while (j < midB.length) pushPart(parts, "added", midB[j++]);
+  }
+
+  if (endA < a.length) pushPart(parts, "equal", a.slice(endA).join(""));
+
+  return parts;
+}
+
+/**
+ * Count added and removed words (whitespace tokens excluded)
+ */
+export function diffStats(parts: DiffPart[]): { added: number; removed: number } {
+  const countWords = (value: string) => tokenize(value).filter(token => token.trim()).length;
+  return parts.reduce(
+    (stats, part) => {
+      if (part.type === "added") stats.added += countWords(part.value);
+      if (part.type === "removed") stats.removed += countWords(part.value);
+      return stats;
+    },
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,189 @@
+/**
+ * IANA timezone helpers built on Intl, so schedules mean the same instant for everyone
+ * Dates are stored as UTC instants plus the zone they were scheduled in. For display and
+ * date-fns arithmetic the calendar works with "zoned" dates: Date objects whose local fields
+ * (getHours, getDate, ...) show the wall-clock time in the chosen zone. Convert back with
+ * fromZonedDate before saving; never store a zoned date.
+ */
+
+import { format } from "date-fns";
+
+export interface WallClockTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hours: number;
+  minutes: number;
+}
+
+// Shown first in timezone pickers; the full list follows
+export const COMMON_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/Denver",
+  "America/Chicago",
+  "America/New_York",
+  "America/Sao_Paulo",
+  "Europe/London",
+  "Europe/Berlin",
+  "Europe/Paris",
+  "Africa/Johannesburg",
+  "Asia/Dubai",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Asia/Tokyo",
+  "Australia/Sydney",
+];
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Every zone the browser knows, common ones first
+ */
+export function listTimeZones(): string[] {
+  const intl = Intl as unknown as { supportedValuesOf?: (key: "timeZone") => string[] };
+  const all = intl.supportedValuesOf?.("timeZone") ?? [];
+  return Array.from(new Set([...COMMON_TIME_ZONES, ...all]));
+}
+
+/**
+ * Wall-clock fields of an instant in the zone
+ */
+export function getWallClockTime(date: Date, timeZone: string): WallClockTime & { seconds: number } {
+  const parts = Object.fromEntries(
+    getFormatter(timeZone)
+      .formatToParts(date)
+      .filter(part => part.type !== "literal")
+      .map(part => [part.type, Number(part.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hours: parts.hour,
+    minutes: parts.minute,
+    seconds: parts.second,
+  };
+}
+
+/**
+ * Offset of the zone from UTC at that instant, in minutes (positive east of Greenwich)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const wall = getWallClockTime(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes, wall.seconds);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60_000);
+}
+
+/**
+ * The instant a wall-clock time in the zone refers to
+ * Times skipped by a DST jump resolve to the same clock time after the jump (02:30 becomes 03:30);
+ * repeated times resolve to the first occurrence.
+ */
+export function zonedTimeToUtc(time: WallClockTime, timeZone: string): Date {
+  const asUtc = Date.UTC(time.year, time.month - 1, time.day, time.hours, time.minutes);
+  // Zones change offset at most once within a day either side, so these two cover every case
+  const offsetBefore = getTimeZoneOffset(new Date(asUtc - 86_400_000), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(asUtc + 86_400_000), timeZone);
+
+  const matches = [asUtc - offsetBefore * 60_000, asUtc - offsetAfter * 60_000]
+    .filter(candidate => {
+      const wall = getWallClockTime(new Date(candidate), timeZone);
+      return wall.day === time.day && wall.hours === time.hours && wall.minutes === time.minutes;
+    })
+    .sort((a, b) => a - b);
+
+  // No match means the time was skipped; the pre-jump offset moves it forward by the jump
+  return new Date(matches[0] ?? asUtc - offsetBefore * 60_000);
+}
+
+/**
+ * A Date whose local fields show the instant's wall-clock time in the zone
+ */
+export function toZonedDate(date: Date, timeZone: string): Date {
+  const wall = getWallClockTime(date, timeZone);
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hours, wall.minutes, wall.seconds, date.getMilliseconds());
+}
+
+/**
+ * Inverse of toZonedDate: read the local fields as a wall-clock time in the zone
+ */
+export function fromZonedDate(zoned: Date, timeZone: string): Date {
+  const instant = zonedTimeToUtc(
+    {
+      year: zoned.getFullYear(),
+      month: zoned.getMonth() + 1,
+      day: zoned.getDate(),
+      hours: zoned.getHours(),
+      minutes: zoned.getMinutes(),
+    },
+    timeZone
+  );
+  return new Date(instant.getTime() + zoned.getSeconds() * 1000 + zoned.getMilliseconds());
+}
+
+/**
+ * Combine a picked calendar day (local midnight from the date picker) and an "HH:mm" time in the zone
+ */
+export function combineDateAndTime(day: Date, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(":").map(Number);
+  return zonedTimeToUtc(
+    { year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate(), hours: hours || 0, minutes: minutes || 0 },
+    timeZone
+  );
+}
+
+/**
+ * date-fns format, in the zone instead of the browser's
+ */
+export function formatInTimeZone(date: Date, timeZone: string, pattern: string): string {
+  return format(toZonedDate(date, timeZone), pattern);
+}
+
+/**
+ * Short label such as "GMT+2" for the zone at that instant
+ */
+export function getTimeZoneAbbreviation(timeZone: string, date: Date = new Date()): string {
+  const part = new Intl.DateTimeFormat("en-US", { timeZone, timeZoneName: "short" })
+    .formatToParts(date)
+    .find(item => item.type === "timeZoneName");
+  return part?.value ?? timeZone;
+}
+
+/**
+ * "October 21st, 2026 at 9:00 AM GMT+2": how schedules read in toasts and dialogs
+ */
+export function formatScheduledTime(date: Date, timeZone: string): string {
+  return `${formatInTimeZone(date, timeZone, "PPP 'at' p")} ${getTimeZoneAbbreviation(timeZone, date)}`;
+}
@@ -0,0 +1,231 @@
+/**
+ * Transcript providers for URL/video-based prompts
+ * A provider turns a video URL (plus whatever the user supplied) into a transcript with
+ * timestamps and video metadata, ready to be interpolated into the user prompt.
+ */
+
+import type { PromptOutputMode } from "./promptutils";
+
+export interface TranscriptSegment {
+  start: number | null; // Seconds from the start of the video; null when the source has no timestamps
+  text: string;
+}
+
+export interface VideoMetadata {
+  url: string;
+  videoId?: string;
+  title?: string;
+  channel?: string;
+  durationSeconds?: number;
+}
+
+export interface Transcript {
+  segments: TranscriptSegment[];
+  metadata: VideoMetadata;
+  providerId: TranscriptProviderId;
+}
+
+export interface TranscriptRequest {
+  url: string;
+  // Pasted text or the contents of an uploaded caption file (.srt, .vtt, .txt)
+  rawText?: string;
+  title?: string;
+  channel?: string;
+  signal?: AbortSignal;
+}
+
+export type TranscriptProviderId = "local" | "youtube";
+
+export interface TranscriptProvider {
+  id: TranscriptProviderId;
+  label: string;
+  description: string;
+  // Whether the provider needs the user to paste or upload the transcript
+  needsRawText: boolean;
+  fetchTranscript: (request: TranscriptRequest) => Promise<Transcript>;
+}
+
+// What the Create Prompt form collects to build a transcript request
+export interface TranscriptSource {
+  output: PromptOutputMode;
+  providerId: TranscriptProviderId;
+  rawText: string;
+  title: string;
+  channel: string;
+}
+
+export const DEFAULT_TRANSCRIPT_SOURCE: TranscriptSource = {
+  output: "n8n",
+  providerId: "local",
+  rawText: "",
+  title: "",
+  channel: "",
+};
+
+export type TranscriptErrorCode = "invalid_input" | "unsupported";
+
+export class TranscriptError extends Error {
+  readonly code: TranscriptErrorCode;
+
+  constructor(code: TranscriptErrorCode, message: string) {
+    super(message);
+    this.name = "TranscriptError";
+    this.code = code;
+  }
+}
+
+export const isTranscriptError = (error: unknown): error is TranscriptError => error instanceof TranscriptError;
+
+// The expression the n8n workflow substitutes with the transcript it fetched
+export const N8N_TRANSCRIPT_EXPRESSION = "{{ $json.transcript.toJsonString() }}";
+
+/**
+ * Extract the video id from the usual YouTube URL shapes (watch, youtu.be, shorts, embed, live)
+ */
+export function parseYouTubeVideoId(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^(www\.|m\.)/, "");
+    if (host === "youtu.be") return parsed.pathname.slice(1).split("/")[0] || null;
+    if (host === "youtube.com" || host === "music.youtube.com") {
+      if (parsed.searchParams.get("v")) return parsed.searchParams.get("v");
+      const match = parsed.pathname.match(/^\/(?:shorts|embed|live)\/([^/?#]+)/);
+      return match ? match[1] : null;
+    }
+  } catch {
+    // Not a URL
+  }
+  return null;
+}
+
+/**
+ * "01:02:03,500" / "02:03.5" / "2:03" to seconds
+ */
+const parseTimestamp = (value: string): number => {
+  const parts = value.replace(",", ".").split(":").map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  const h = Math.floor(whole / 3600);
+  const m = Math.floor((whole % 3600) / 60);
+  const s = String(whole % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+const CUE_TIMING = /^(\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?\s*-->\s*(\d{1,2}:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?/;
+const INLINE_TIMESTAMP = /^\[?((?:\d{1,2}:)?\d{1,2}:\d{2})\]?\s*[-–]?\s*(.*)$/;
+
+/**
+ * Parse SRT and WebVTT caption files, or plain text with optional "[mm:ss]" line prefixes
+ */
+export function parseTranscriptText(raw: string): TranscriptSegment[] {
+  const lines = raw.replace(/\r\n?/g, "\n").split("\n");
+  const isCaptionFile = lines.some(line => CUE_TIMING.test(line.trim()));
+
+  if (isCaptionFile) {
+    const segments: TranscriptSegment[] = [];
+    let current: TranscriptSegment | null = null;
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (CUE_TIMING.test(trimmed)) {
+        current = { start: parseTimestamp(trimmed.split("-->")[0].trim()), text: "" };
+        segments.push(current);
+      } else if (!trimmed) {
+        current = null;
+      } else if (current) {
+        // Drop VTT voice/styling tags
+        const text = trimmed.replace(/<[^>]+>/g, "");
+        current.text = current.text ? `${current.text} ${text}` : text;
+      }
+    }
+    // Auto-generated captions repeat the previous line; keep one copy
+    return segments.filter((segment, index) => segment.text && segment.text !== segments[index - 1]?.text);
+  }
+
+  return lines
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      const match = line.match(INLINE_TIMESTAMP);
+      return match && match[2]
+        ? { start: parseTimestamp(match[1]), text: match[2] }
+        : { start: null, text: line };
+    });
+}
+
+/**
+ * Transcript text as it goes into the prompt: one "[m:ss] text" line per segment when timestamps exist
+ */
+export function formatTranscript(transcript: Transcript): string {
+  const hasTimestamps = transcript.segments.some(segment => segment.start !== null);
+  if (!hasTimestamps) return transcript.segments.map(segment => segment.text).join(" ");
+  return transcript.segments
+    .map(segment => (segment.start === null ? segment.text : `[${formatTimestamp(segment.start)}] ${segment.text}`))
+    .join("\n");
+}
+
+export function formatVideoDetails(metadata: VideoMetadata): string {
+  return [
+    `Video URL: ${metadata.url}`,
+    metadata.title && `Video Title: "${metadata.title}"`,
+    metadata.channel && `Channel: ${metadata.channel}`,
+    metadata.durationSeconds !== undefined && `Duration: ${formatTimestamp(metadata.durationSeconds)}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+const buildMetadata = (request: TranscriptRequest, segments: TranscriptSegment[]): VideoMetadata => {
+  const lastStart = segments.reduce<number | undefined>(
+    (latest, segment) => (segment.start !== null && (latest === undefined || segment.start > latest) ? segment.start : latest),
+    undefined
+  );
+  return {
+    url: request.url,
+    videoId: parseYouTubeVideoId(request.url) ?? undefined,
+    title: request.title?.trim() || undefined,
+    channel: request.channel?.trim() || undefined,
+    // Without real metadata the last cue is the best estimate of the length
+    durationSeconds: lastStart,
+  };
+};
+
+export const localTranscriptProvider: TranscriptProvider = {
+  id: "local",
+  label: "Paste or upload",
+  description: "Paste the transcript or upload a caption file (.srt, .vtt, .txt)",
+  needsRawText: true,
+  fetchTranscript: async (request) => {
+    const segments = parseTranscriptText(request.rawText || "");
+    if (segments.length === 0) {
+      throw new TranscriptError("invalid_input", "Paste a transcript or upload a caption file first");
+    }
+    return { segments, metadata: buildMetadata(request, segments), providerId: "local" };
+  },
+};
+
+/**
+ * Placeholder until transcripts can be fetched server-side; YouTube does not allow it from the browser
+ */
+export const youtubeTranscriptProvider: TranscriptProvider = {
+  id: "youtube",
+  label: "YouTube (automatic)",
+  description: "Fetch captions straight from YouTube",
+  needsRawText: false,
+  fetchTranscript: async (request) => {
+    if (!parseYouTubeVideoId(request.url)) {
+      throw new TranscriptError("invalid_input", "The content URL is not a YouTube video");
+    }
+    throw new TranscriptError(
+      "unsupported",
+      "Automatic YouTube transcripts are not available yet. Paste the transcript or upload a caption file instead."
+    );
+  },
+};
+
+export const TRANSCRIPT_PROVIDERS: Record<TranscriptProviderId, TranscriptProvider> = {
+  local: localTranscriptProvider,
+  youtube: youtubeTranscriptProvider,
+};
@@ -0,0 +1,80 @@
+import { supabase } from "@/integrations/supabase/client";
+import { getBrowserTimeZone } from "@/lib/timezones";
+
+// workspace_settings has a single row until there are multiple workspaces
+const WORKSPACE_ID = 'default';
+
+// Matches the workspace_settings.trash_retention_days column default
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export class WorkspaceSettingsService {
+  /**
+   * The workspace scheduling timezone, or null when it was never set
+   */
+  static async getTimeZone(): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('workspace_settings')
+      .select('timezone')
+      .eq('id', WORKSPACE_ID)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch workspace settings: ${error.message}`);
+    }
+
+    return data?.timezone ?? null;
+  }
+
+  /**
+   * The zone schedules default to: the workspace setting, else the browser's zone
+   */
+  static async resolveTimeZone(): Promise<string> {
+    return (await WorkspaceSettingsService.getTimeZone()) ?? getBrowserTimeZone();
+  }
+
+  static async setTimeZone(timeZone: string): Promise<void> {
+    const { error } = await supabase
+      .from('workspace_settings')
+      .upsert({ id: WORKSPACE_ID, timezone: timeZone });
+
+    if (error) {
+      throw new Error(`Failed to update workspace timezone: ${error.message}`);
+    }
+  }
+
+  static async getTrashRetentionDays(): Promise<number> {
+    const { data, error } = await supabase
+      .from('workspace_settings')
+      .select('trash_retention_days')
+      .eq('id', WORKSPACE_ID)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch workspace settings: ${error.message}`);
+    }
+
+    return data?.trash_retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
+  static async setTrashRetentionDays(days: number): Promise<void> {
+    const { data, error } = await supabase
+      .from('workspace_settings')
+      .update({ trash_retention_days: days })
+      .eq('id', WORKSPACE_ID)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update trash retention: ${error.message}`);
+    }
+
+    if (!data || data.length === 0) {
+      // No settings row yet; create it with the zone schedules already resolve to rather than the UTC column default
+      const { error: insertError } = await supabase
+        .from('workspace_settings')
+        .insert({ id: WORKSPACE_ID, timezone: getBrowserTimeZone(), trash_retention_days: days });
+      if (insertError) {
+        throw new Error(`Failed to update trash retention: ${insertError.message}`);
+      }
+    }
+  }
+}
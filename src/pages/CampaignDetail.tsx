@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ArrowLeft, Calendar as CalendarIcon, Edit, Eye, Library, Loader2, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CampaignDialog } from "@/components/CampaignDialog";
+import { CampaignMiniCalendar } from "@/components/CampaignMiniCalendar";
+import { CampaignProgress } from "@/components/CampaignProgress";
+import PostDetailModal from "@/components/PostDetailModal";
+import { useToast } from "@/hooks/use-toast";
+import { CAMPAIGNS_QUERY_KEY } from "@/hooks/use-campaigns";
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone";
+import { CampaignService } from "@/lib/campaignService";
+import {
+  CAMPAIGN_PHASE_BADGES,
+  CAMPAIGN_STATUS_STYLES,
+  campaignPhase,
+  campaignPostDate,
+  countPostsByStatus,
+  formatCampaignRange,
+  isOffTargetPlatform,
+  isOutsideCampaign,
+} from "@/lib/campaigns";
+import { toZonedDate } from "@/lib/timezones";
+import { cn } from "@/lib/utils";
+import { ContentPost } from "@/types/content";
+
+export default function CampaignDetail() {
+  const { campaignId = "" } = useParams();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [selectedPost, setSelectedPost] = useState<ContentPost | null>(null);
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { timeZone } = useWorkspaceTimeZone();
+  const zonedToday = toZonedDate(new Date(), timeZone);
+
+  const { data: campaign, isLoading } = useQuery({
+    queryKey: ["campaign", campaignId],
+    queryFn: () => CampaignService.getCampaign(campaignId),
+  });
+
+  const { data: posts = [], isLoading: isLoadingPosts } = useQuery({
+    queryKey: ["campaign-posts", campaignId],
+    queryFn: () => CampaignService.getCampaignPosts(campaignId),
+    enabled: !!campaign,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["campaign", campaignId] });
+    queryClient.invalidateQueries({ queryKey: ["campaign-posts", campaignId] });
+    queryClient.invalidateQueries({ queryKey: CAMPAIGNS_QUERY_KEY });
+  };
+
+  const handleDelete = async () => {
+    if (!campaign) return;
+    if (!confirm(`Delete the campaign "${campaign.name}"? Its posts stay in the library.`)) return;
+    try {
+      await CampaignService.deleteCampaign(campaign.id);
+      queryClient.invalidateQueries({ queryKey: CAMPAIGNS_QUERY_KEY });
+      toast({ title: "Campaign deleted", description: `"${campaign.name}" was deleted; its posts are still in the library.` });
+      navigate("/campaigns");
+    } catch (error) {
+      console.error("Error deleting campaign:", error);
+      toast({ title: "Error", description: "Failed to delete campaign.", variant: "destructive" });
+    }
+  };
+
+  const handleRemovePost = async (post: ContentPost) => {
+    try {
+      await CampaignService.assignPosts([post.id], null);
+      toast({ title: "Removed from campaign", description: `"${post.title || "Untitled Post"}" is no longer part of this campaign.` });
+      refresh();
+    } catch (error) {
+      console.error("Error removing post from campaign:", error);
+      toast({ title: "Error", description: "Failed to remove post from campaign.", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="max-w-7xl mx-auto p-4 lg:p-8 text-center space-y-4">
+        <h1 className="text-2xl font-semibold">Campaign not found</h1>
+        <p className="text-muted-foreground">It may have been deleted.</p>
+        <Button variant="outline" asChild>
+          <Link to="/campaigns">Back to campaigns</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const phase = CAMPAIGN_PHASE_BADGES[campaignPhase(campaign, zonedToday)];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-red-500/5 p-4 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <Link to="/campaigns" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary">
+          <ArrowLeft className="h-4 w-4" />
+          All campaigns
+        </Link>
+
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl md:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-red-400 to-red-600">
+                {campaign.name}
+              </h1>
+              <Badge variant={phase.variant}>{phase.label}</Badge>
+            </div>
+            <p className="text-muted-foreground">{formatCampaignRange(campaign)}</p>
+            {campaign.target_platforms.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {campaign.target_platforms.map(platform => (
+                  <Badge key={platform} variant="outline">{platform}</Badge>
+                ))}
+              </div>
+            )}
+            {campaign.goal && <p className="max-w-3xl whitespace-pre-wrap">{campaign.goal}</p>}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" asChild className="gap-2">
+              <Link to={`/post-library?campaign=${campaign.id}`}>
+                <Library className="h-4 w-4" />
+                Open in Post Library
+              </Link>
+            </Button>
+            <Button variant="outline" asChild className="gap-2">
+              <Link to={`/content-calendar?campaign=${campaign.id}`}>
+                <CalendarIcon className="h-4 w-4" />
+                Calendar
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={() => setIsEditOpen(true)} className="gap-2">
+              <Edit className="h-4 w-4" />
+              Edit
+            </Button>
+            <Button variant="outline" onClick={handleDelete} className="gap-2 text-destructive hover:text-destructive">
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          </div>
+        </div>
+
+        <Card className="border-0 bg-card/50 backdrop-blur-sm shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-lg">Progress</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CampaignProgress counts={countPostsByStatus(posts)} />
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 bg-card/50 backdrop-blur-sm shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-lg">Schedule</CardTitle>
+            <CardDescription>Campaign days are shaded; each dot is a post. Click one to open it.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CampaignMiniCalendar
+              campaign={campaign}
+              posts={posts}
+              timeZone={timeZone}
+              zonedToday={zonedToday}
+              onViewPost={setSelectedPost}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="border-0 bg-card/50 backdrop-blur-sm shadow-lg">
+          <CardHeader>
+            <CardTitle className="text-lg">Posts</CardTitle>
+            <CardDescription>Add posts from the Post Library: select them and choose a campaign.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoadingPosts ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : posts.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No posts in this campaign yet.</p>
+            ) : (
+              <div className="divide-y rounded-lg border text-sm">
+                {posts.map(post => {
+                  const date = campaignPostDate(post, timeZone);
+                  const warnings = [
+                    date && isOutsideCampaign(campaign, date) && "Outside the campaign dates",
+                    isOffTargetPlatform(campaign, post) && `${post.platform} isn't a target platform`,
+                  ].filter(Boolean) as string[];
+                  return (
+                    <div key={post.id} className="flex items-center gap-3 px-3 py-2">
+                      <span className={cn("h-2 w-2 flex-shrink-0 rounded-full", CAMPAIGN_STATUS_STYLES[post.status].className)} />
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate font-medium">{post.title || "Untitled Post"}</div>
+                        <div className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                          <span>{CAMPAIGN_STATUS_STYLES[post.status].label}</span>
+                          <span>{date ? format(date, "EEE, MMM d · h:mm a") : "Not scheduled"}</span>
+                          {post.platform && <span className="capitalize">{post.platform}</span>}
+                          {warnings.map(warning => (
+                            <span key={warning} className="flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                              <AlertTriangle className="h-3 w-3" />
+                              {warning}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setSelectedPost(post)} aria-label="View post">
+                        <Eye className="h-3.5 w-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => handleRemovePost(post)} aria-label="Remove from campaign">
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <CampaignDialog open={isEditOpen} onOpenChange={setIsEditOpen} campaign={campaign} onSaved={refresh} />
+
+      <PostDetailModal
+        post={selectedPost}
+        isOpen={!!selectedPost}
+        onClose={() => setSelectedPost(null)}
+        onUpdate={refresh}
+        onDelete={refresh}
+      />
+    </div>
+  );
+}
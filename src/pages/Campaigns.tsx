@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Flag, Loader2, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { CampaignDialog } from "@/components/CampaignDialog";
+import { CampaignProgress } from "@/components/CampaignProgress";
+import { useCampaigns } from "@/hooks/use-campaigns";
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone";
+import { CAMPAIGN_PHASE_BADGES, campaignPhase, formatCampaignRange } from "@/lib/campaigns";
+import { toZonedDate } from "@/lib/timezones";
+
+export default function Campaigns() {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const { campaigns, isLoading, refreshCampaigns } = useCampaigns();
+  const { timeZone } = useWorkspaceTimeZone();
+  const navigate = useNavigate();
+  const zonedToday = toZonedDate(new Date(), timeZone);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-red-500/5 p-4 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <div className="inline-flex items-center gap-2 px-4 py-2 bg-primary/10 text-primary rounded-full text-sm font-medium mb-4">
+              <Flag className="h-4 w-4" />
+              Campaigns
+            </div>
+            <h1 className="text-3xl md:text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-red-400 to-red-600 mb-2 animate-pulse-glow">
+              Campaigns
+            </h1>
+            <p className="text-lg text-muted-foreground">
+              Group the posts of a multi-week push and follow them from draft to published
+            </p>
+          </div>
+          <Button onClick={() => setIsCreateOpen(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New campaign
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : campaigns.length === 0 ? (
+          <Card className="border-0 bg-card/50 backdrop-blur-sm shadow-lg">
+            <CardContent className="p-12 text-center">
+              <Flag className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-lg font-semibold mb-2">No campaigns yet</h3>
+              <p className="text-muted-foreground mb-4">
+                Create a campaign, then add posts to it from the Post Library.
+              </p>
+              <Button onClick={() => setIsCreateOpen(true)} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New campaign
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+            {campaigns.map(campaign => {
+              const phase = CAMPAIGN_PHASE_BADGES[campaignPhase(campaign, zonedToday)];
+              return (
+                <Link key={campaign.id} to={`/campaigns/${campaign.id}`} className="group">
+                  <Card className="h-full futuristic-border glow-hover border-0 bg-card/50 backdrop-blur-sm shadow-lg transition-colors group-hover:bg-card/80">
+                    <CardHeader className="space-y-2">
+                      <div className="flex items-start justify-between gap-2">
+                        <CardTitle className="text-lg leading-tight">{campaign.name}</CardTitle>
+                        <Badge variant={phase.variant}>{phase.label}</Badge>
+                      </div>
+                      <CardDescription>{formatCampaignRange(campaign)}</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {campaign.goal && <p className="text-sm text-muted-foreground line-clamp-2">{campaign.goal}</p>}
+                      {campaign.target_platforms.length > 0 && (
+                        <div className="flex flex-wrap gap-1">
+                          {campaign.target_platforms.map(platform => (
+                            <Badge key={platform} variant="outline" className="text-xs">{platform}</Badge>
+                          ))}
+                        </div>
+                      )}
+                      <CampaignProgress counts={campaign.status_counts} showLegend={false} />
+                    </CardContent>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <CampaignDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onSaved={(campaign) => {
+          refreshCampaigns();
+          navigate(`/campaigns/${campaign.id}`);
+        }}
+      />
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
+import { format, startOfDay } from "date-fns";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Copy, Calendar, Edit, Loader2, Settings, CheckCircle, Clock, Sparkles, Send, Save, BookOpen, Eye } from "lucide-react";
-import { format } from "date-fns";
+import { Copy, Calendar, Edit, Loader2, Settings, CheckCircle, Clock, Sparkles, Send, Save, BookOpen, Eye, ListPlus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -19,6 +20,22 @@ import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
 import { ContentService } from "@/lib/contentService";
+import { POST_CATEGORIES, POST_TONES } from "@/lib/postOptions";
+import { PostingSlotService } from "@/lib/postingSlotService";
+import { combineDateAndTime, formatScheduledTime, toZonedDate } from "@/lib/timezones";
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone";
+import { useCadenceCheck } from "@/hooks/use-cadence-check";
+import { useSimilarPosts } from "@/hooks/use-similar-posts";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import { CadenceWarnings } from "@/components/CadenceWarnings";
+import { SimilarPostsWarning } from "@/components/SimilarPostsWarning";
+import { TagInput } from "@/components/TagInput";
+import { describeGenerationError, generationClient, isGenerationError, MAX_VARIANTS, type PostVariant, type TopicSuggestion } from "@/lib/generationClient";
+import { VariantSelection } from "@/types/content";
+import { VariantComparison } from "@/components/VariantComparison";
+import { PostPreview } from "@/components/PostPreview";
+import { PostLintPanel } from "@/components/PostLintPanel";
+import { LintedText } from "@/components/LintedText";
 
 // URL formatting utility function
 const formatUrl = (url: string) => {
@@ -55,22 +72,24 @@ const formSchema = z.object({
 
 type FormData = z.infer<typeof formSchema>;
 
-const categories = ['Storytelling/Thought Leadership/Authority', 'Lead Magnets & YT Video-based content', 'Case studies/Testimonials/Results', 'Skool Community/Educational'];
-const tones = ['Authoritative', 'Descriptive', 'Casual', 'Narrative', 'Humorous'];
-
 export default function CreatePost() {
   const [generatedPost, setGeneratedPost] = useState("");
   const [isGenerating, setIsGenerating] = useState(false);
+  const [variantCount, setVariantCount] = useState(1);
+  const [variants, setVariants] = useState<PostVariant[]>([]);
+  const [variantSelection, setVariantSelection] = useState<VariantSelection | null>(null);
   const [isResubmitting, setIsResubmitting] = useState(false);
   const [changeRequest, setChangeRequest] = useState("");
   const [selectedDate, setSelectedDate] = useState<Date>();
   const [calendarOpen, setCalendarOpen] = useState(false);
   const [editMode, setEditMode] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
   const [editedPost, setEditedPost] = useState("");
   
   // Ask AI feature state
   const [askAiInput, setAskAiInput] = useState("");
-  const [aiSuggestions, setAiSuggestions] = useState<Array<{title: string, topic: string, tone: string}>>([]);
+  const [aiSuggestions, setAiSuggestions] = useState<TopicSuggestion[]>([]);
   const [isLoadingAiSuggestions, setIsLoadingAiSuggestions] = useState(false);
   const [showSuggestionDropdown, setShowSuggestionDropdown] = useState(false);
 
@@ -79,26 +98,73 @@ export default function CreatePost() {
   const [scheduleDialogOpen, setScheduleDialogOpen] = useState(false);
   const [postTitle, setPostTitle] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
-  const [customTag, setCustomTag] = useState("");
   const [postPlatform, setPostPlatform] = useState("LinkedIn");
   const [isSaving, setIsSaving] = useState(false);
   const [isScheduling, setIsScheduling] = useState(false);
   const [selectedTime, setSelectedTime] = useState("12:00");
+  const [isQueueing, setIsQueueing] = useState(false);
+  // Unset until the user picks one, so the workspace default applies
+  const [scheduleTimeZone, setScheduleTimeZone] = useState<string | null>(null);
+  const { timeZone: workspaceTimeZone } = useWorkspaceTimeZone();
+  const postTimeZone = scheduleTimeZone ?? workspaceTimeZone;
   
-  const webhookUrl = import.meta.env.VITE_WEBHOOK_URL;
-  const askAiWebhookUrl = import.meta.env.VITE_ASK_AI_WEBHOOK_URL;
-  
-  // Debug: Log webhook URLs to console
-  console.log("🔍 Debug Info:");
-  console.log("Main Webhook URL:", webhookUrl);
-  console.log("Ask AI Webhook URL:", askAiWebhookUrl);
-  console.log("Environment check:", {
-    NODE_ENV: import.meta.env.NODE_ENV,
-    MODE: import.meta.env.MODE,
-    DEV: import.meta.env.DEV
-  });
+  // In-flight generation requests, cancelled when superseded or when the page unmounts
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const suggestionsAbortRef = useRef<AbortController | null>(null);
 
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Shown in the schedule dialog so "Add to Queue" is predictable
+  const { data: nextFreeSlot, isLoading: isLoadingNextSlot } = useQuery({
+    queryKey: ["next-free-slot", postPlatform],
+    queryFn: () => PostingSlotService.findNextFreeSlot(postPlatform),
+    enabled: scheduleDialogOpen
+  });
+
+  // Warn about cadence rules while a date is picked in the schedule dialog
+  const { check: cadenceCheck } = useCadenceCheck(
+    scheduleDialogOpen && selectedDate
+      ? { platform: postPlatform, date: combineDateAndTime(selectedDate, selectedTime, postTimeZone) }
+      : null
+  );
+
+  // Flag near-duplicates of the post being saved or scheduled
+  const draftContent = editMode ? editedPost : generatedPost;
+  const { matches: similarPosts } = useSimilarPosts(
+    saveDialogOpen || scheduleDialogOpen ? { content: draftContent } : null
+  );
+
+  const applySuggestedTime = (date: Date) => {
+    const zoned = toZonedDate(date, postTimeZone);
+    setSelectedDate(startOfDay(zoned));
+    setSelectedTime(format(zoned, "HH:mm"));
+  };
+
+  useEffect(() => () => {
+    generationAbortRef.current?.abort();
+    suggestionsAbortRef.current?.abort();
+  }, []);
+
+  const startRequest = (ref: React.MutableRefObject<AbortController | null>) => {
+    ref.current?.abort();
+    const controller = new AbortController();
+    ref.current = controller;
+    return controller.signal;
+  };
+
+  const showGenerationError = (error: unknown) => {
+    // Cancellation is user- or navigation-initiated, nothing to report
+    if (isGenerationError(error) && error.code === "aborted") return;
+    toast({
+      ...describeGenerationError(error),
+      variant: "destructive"
+    });
+  };
+
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
   
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -141,26 +207,12 @@ export default function CreatePost() {
   };
 
   const onSubmit = async (data: FormData) => {
-    console.log("🚀 Form submission started");
-    console.log("Form data:", data);
-    console.log("Webhook URL being used:", webhookUrl);
-    
-    // Check if webhook URL is defined
-    if (!webhookUrl) {
-      console.error("❌ Webhook URL is not defined!");
-      toast({
-        title: "Configuration Error",
-        description: "Webhook URL is not configured. Please check your environment variables.",
-        variant: "destructive"
-      });
-      return;
-    }
-
     let processedTopic = data.topic;
-    let finalTopicType = data.topicType;
+    let finalTopicType: "text" | "url" = "text";
     
     if (data.topicType === "url") {
       processedTopic = formatUrl(data.topic);
+      finalTopicType = "url";
       if (!isValidUrl(data.topic)) {
         toast({
           title: "Invalid URL",
@@ -169,79 +221,67 @@ export default function CreatePost() {
         });
         return;
       }
-    } else if (data.topicType === "askai") {
-      // Treat "askai" as "text" for the final submission since fields are auto-filled
-      finalTopicType = "text";
     }
+    // "askai" is submitted as "text" since its fields are auto-filled from the suggestion
     
     setIsGenerating(true);
     try {
-      const requestPayload = {
-        action: "generate",
+      const request = {
         category: data.category,
         topic: processedTopic,
         topicType: finalTopicType,
         tone: data.tone
       };
-      
-      console.log("📤 Sending request to webhook:");
-      console.log("URL:", webhookUrl);
-      console.log("Payload:", requestPayload);
-      
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify(requestPayload)
-      });
-      
-      console.log("📥 Response received:");
-      console.log("Status:", response.status);
-      console.log("Status Text:", response.statusText);
-      console.log("Headers:", Object.fromEntries(response.headers.entries()));
-      
-      if (!response.ok) {
-        console.error("❌ Response not OK:", {
-          status: response.status,
-          statusText: response.statusText,
-          url: response.url
-        });
-        throw new Error("Failed to generate post");
-      }
-      
-      const result = await response.json();
-      console.log("✅ Parsed response:", result);
-      
-      setGeneratedPost(result.content || "Generated post content will appear here...");
-      setEditedPost(result.content || "");
+      const signal = startRequest(generationAbortRef);
+      const results = variantCount > 1
+        ? await generationClient.generatePostVariants(request, variantCount, { signal })
+        : [await generationClient.generatePost(request, { signal })];
+
+      // Start from the first variant so there is always something to edit, save or refine
+      setVariants(results.length > 1 ? results : []);
+      setVariantSelection(null);
+      setGeneratedPost(results[0].content);
+      setEditedPost(results[0].content);
       toast({
-        title: "Post Generated Successfully!",
-        description: "Your LinkedIn post is ready to review"
+        title: results.length > 1 ? `${results.length} Variants Generated!` : "Post Generated Successfully!",
+        description: results.length > 1
+          ? "Compare the variants below and pick or merge your favourite"
+          : "Your LinkedIn post is ready to review"
       });
     } catch (error) {
-      console.error("❌ Error generating post:", error);
-      console.error("Error details:", {
-        name: error.name,
-        message: error.message,
-        stack: error.stack,
-        cause: error.cause
-      });
-      
-      // Additional network debugging
-      toast({
-        title: "Generation Failed",
-        description: "Failed to generate post. Please check your webhook URL and try again.",
-        variant: "destructive"
-      });
+      console.error("Error generating post:", error);
+      showGenerationError(error);
     } finally {
       setIsGenerating(false);
     }
   };
 
+  const handleLintFix = (content: string) => {
+    setEditedPost(content);
+    if (!editMode) setGeneratedPost(content);
+  };
+
+  const handleVariantSelect = (content: string, selection: VariantSelection) => {
+    setGeneratedPost(content);
+    setEditedPost(content);
+    setVariantSelection(selection);
+    setEditMode(false);
+  };
+
+  // Records which variant won so we can learn which styles perform best
+  const variantSourceData = () => {
+    if (variants.length < 2) return {};
+    return {
+      variantSelection: variantSelection ?? {
+        variantCount: variants.length,
+        angles: variants.map((variant, index) => variant.angle || `Variant ${index + 1}`),
+        chosenVariant: null,
+        explicit: false
+      }
+    };
+  };
+
   const handleResubmit = async () => {
-    console.log("🔄 Resubmit started");
-    
     if (!changeRequest.trim()) {
       toast({
         title: "Change Request Required",
@@ -251,47 +291,16 @@ export default function CreatePost() {
       return;
     }
     
-    if (!webhookUrl) {
-      console.error("❌ Webhook URL is not defined for resubmit!");
-      toast({
-        title: "Configuration Error",
-        description: "Webhook URL is not configured. Please check your environment variables.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
     setIsResubmitting(true);
     try {
-      const requestPayload = {
-        action: "regenerate",
+      const result = await generationClient.regeneratePost({
         originalRequest: form.getValues(),
         generatedContent: generatedPost,
         changeRequest: changeRequest
-      };
-      
-      const response = await fetch(webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify(requestPayload)
-      });
+      }, { signal: startRequest(generationAbortRef) });
       
-      console.log("📥 Resubmit response:", {
-        status: response.status,
-        statusText: response.statusText
-      });
-      
-      if (!response.ok) {
-        throw new Error("Failed to resubmit");
-      }
-      
-      const result = await response.json();
-      console.log("✅ Resubmit result:", result);
-      
-      setGeneratedPost(result.content || "Updated post content will appear here...");
-      setEditedPost(result.content || "");
+      setGeneratedPost(result.content);
+      setEditedPost(result.content);
       setChangeRequest("");
       toast({
         title: "Post Updated Successfully!",
@@ -299,11 +308,7 @@ export default function CreatePost() {
       });
     } catch (error) {
       console.error("Error resubmitting:", error);
-      toast({
-        title: "Update Failed",
-        description: "Failed to update post. Please try again.",
-        variant: "destructive"
-      });
+      showGenerationError(error);
     } finally {
       setIsResubmitting(false);
     }
@@ -337,19 +342,6 @@ export default function CreatePost() {
     return title.trim().replace(/\n/g, " ").replace(/\s+/g, " ");
   };
 
-  // Add custom tag function
-  const addCustomTag = () => {
-    if (customTag.trim() && !selectedTags.includes(customTag.trim())) {
-      setSelectedTags([...selectedTags, customTag.trim()]);
-      setCustomTag("");
-    }
-  };
-
-  // Remove tag function
-  const removeTag = (tagToRemove: string) => {
-    setSelectedTags(selectedTags.filter(tag => tag !== tagToRemove));
-  };
-
   // Handle saving to library
   const handleSaveToLibrary = async () => {
     if (!postTitle.trim()) {
@@ -371,7 +363,8 @@ export default function CreatePost() {
         topic: formData.topic,
         topicType: formData.topicType,
         tone: formData.tone,
-        originalContent: generatedPost
+        originalContent: generatedPost,
+        ...variantSourceData()
       };
 
       await ContentService.createPost({
@@ -434,13 +427,12 @@ export default function CreatePost() {
         topic: formData.topic,
         topicType: formData.topicType,
         tone: formData.tone,
-        originalContent: generatedPost
+        originalContent: generatedPost,
+        ...variantSourceData()
       };
 
-      // Combine date and time
-      const [hours, minutes] = selectedTime.split(':');
-      const scheduledDateTime = new Date(selectedDate);
-      scheduledDateTime.setHours(parseInt(hours), parseInt(minutes));
+      // The picked day and time are wall-clock values in the chosen zone
+      const scheduledDateTime = combineDateAndTime(selectedDate, selectedTime, postTimeZone);
 
       await ContentService.createPost({
         title: postTitle,
@@ -448,6 +440,7 @@ export default function CreatePost() {
         content_type: 'create_post',
         status: 'scheduled',
         scheduled_date: scheduledDateTime.toISOString(),
+        scheduled_timezone: postTimeZone,
         source_data: sourceData,
         original_content: generatedPost,
         platform: postPlatform,
@@ -456,7 +449,7 @@ export default function CreatePost() {
 
       toast({
         title: "Post Scheduled!",
-        description: `Your post has been scheduled for ${format(scheduledDateTime, "PPP 'at' p")}`
+        description: `Your post has been scheduled for ${formatScheduledTime(scheduledDateTime, postTimeZone)}`
       });
       
       setScheduleDialogOpen(false);
@@ -473,14 +466,69 @@ export default function CreatePost() {
     }
   };
 
-  // Reset save form
+  // Schedule into the next free recurring slot for the platform
+  const handleAddToQueue = async () => {
+    if (!postTitle.trim()) {
+      toast({
+        title: "Title Required",
+        description: "Please enter a title for your post",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsQueueing(true);
+    try {
+      const formData = form.getValues();
+      const content = editMode ? editedPost : generatedPost;
+
+      const { occurrence } = await PostingSlotService.addToQueue({
+        title: postTitle,
+        content: content,
+        content_type: 'create_post',
+        source_data: {
+          category: formData.category,
+          topic: formData.topic,
+          topicType: formData.topicType,
+          tone: formData.tone,
+          originalContent: generatedPost,
+          ...variantSourceData()
+        },
+        original_content: generatedPost,
+        platform: postPlatform,
+        tags: selectedTags
+      });
+
+      toast({
+        title: "Added to Queue!",
+        description: `Your post takes the ${postPlatform} slot on ${formatScheduledTime(occurrence.date, occurrence.timeZone)}`
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["next-free-slot"] });
+      setScheduleDialogOpen(false);
+      resetSaveForm();
+    } catch (error) {
+      console.error("Error adding post to queue:", error);
+      toast({
+        title: "Queue Failed",
+        description: error instanceof Error ? error.message : "Failed to add post to the queue. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
+  // Reset save form; the variants belong to the post just saved, so the next one must not inherit them
   const resetSaveForm = () => {
+    setVariants([]);
+    setVariantSelection(null);
     setPostTitle("");
     setSelectedTags([]);
-    setCustomTag("");
     setPostPlatform("LinkedIn");
     setSelectedDate(undefined);
     setSelectedTime("12:00");
+    setScheduleTimeZone(null);
   };
 
   // Auto-generate title when dialogs open
@@ -515,8 +563,6 @@ export default function CreatePost() {
 
   // Ask AI functionality
   const handleAskAI = async () => {
-    console.log("🤖 Ask AI started");
-    
     if (!askAiInput.trim()) {
       toast({
         title: "Input Required",
@@ -535,44 +581,14 @@ export default function CreatePost() {
       });
       return;
     }
-
-    if (!askAiWebhookUrl) {
-      console.error("❌ Ask AI Webhook URL is not defined!");
-      toast({
-        title: "Configuration Error",
-        description: "Ask AI Webhook URL is not configured. Please check your environment variables.",
-        variant: "destructive"
-      });
-      return;
-    }
     
     setIsLoadingAiSuggestions(true);
     try {
-      const response = await fetch(askAiWebhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          action: "suggest_topics",
-          category: category,
-          description: askAiInput
-        })
-      });
-
-      if (!response.ok) {
-        console.error("❌ Ask AI response not OK:", {
-          status: response.status,
-          statusText: response.statusText
-        });
-        throw new Error("Failed to get AI suggestions");
-      }
+      const suggestions = await generationClient.suggestTopics({
+        category: category,
+        description: askAiInput
+      }, { signal: startRequest(suggestionsAbortRef) });
 
-      const result = await response.json();
-      console.log("AI webhook response:", result); // Debug log
-      // Parse the simplified webhook response structure: {"ideas": [...]}
-      const suggestions = result?.ideas || [];
-      console.log("Extracted suggestions:", suggestions); // Debug log
       setAiSuggestions(suggestions);
       setShowSuggestionDropdown(true);
       
@@ -581,18 +597,14 @@ export default function CreatePost() {
         description: "Select a suggestion to auto-fill your form"
       });
     } catch (error) {
-      console.error("❌ Error getting AI suggestions:", error);
-      toast({
-        title: "AI Request Failed",
-        description: "Failed to get AI suggestions. Please try again.",
-        variant: "destructive"
-      });
+      console.error("Error getting AI suggestions:", error);
+      showGenerationError(error);
     } finally {
       setIsLoadingAiSuggestions(false);
     }
   };
 
-  const handleSuggestionSelect = (suggestion: {title: string, topic: string, tone: string}) => {
+  const handleSuggestionSelect = (suggestion: TopicSuggestion) => {
     // Auto-fill the form fields but stay in "Ask AI" mode
     form.setValue("topic", suggestion.topic);
     form.setValue("tone", suggestion.tone);
@@ -606,6 +618,7 @@ export default function CreatePost() {
   };
 
   const topicType = form.watch("topicType");
+  const category = form.watch("category");
 
   // Clear fields when switching input methods
   useEffect(() => {
@@ -621,6 +634,8 @@ export default function CreatePost() {
     // Clear generated content for all input method switches
     setGeneratedPost("");
     setEditedPost("");
+    setVariants([]);
+    setVariantSelection(null);
     setEditMode(false);
     setChangeRequest("");
     setSelectedDate(undefined);
@@ -674,7 +689,7 @@ export default function CreatePost() {
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent className="bg-popover backdrop-blur-md border shadow-lg futuristic-border">
-                              {categories.map(category => (
+                              {POST_CATEGORIES.map(category => (
                                 <SelectItem key={category} value={category} className="py-3">
                                   <div className="text-sm">
                                     {category}
@@ -868,7 +883,7 @@ export default function CreatePost() {
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent className="bg-popover backdrop-blur-md border shadow-lg futuristic-border">
-                              {tones.map(tone => (
+                              {POST_TONES.map(tone => (
                                 <SelectItem key={tone} value={tone} className="py-3">
                                   {tone}
                                 </SelectItem>
@@ -880,6 +895,23 @@ export default function CreatePost() {
                       )}
                     />
 
+                    {/* Variant Count */}
+                    <div className="space-y-2">
+                      <Label className="text-base font-medium">Variants</Label>
+                      <Select value={String(variantCount)} onValueChange={(value) => setVariantCount(Number(value))}>
+                        <SelectTrigger className="h-12 futuristic-border">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-popover backdrop-blur-md border shadow-lg futuristic-border">
+                          {Array.from({ length: MAX_VARIANTS }, (_, index) => index + 1).map(count => (
+                            <SelectItem key={count} value={String(count)} className="py-3">
+                              {count === 1 ? "Single post" : `${count} variants to compare`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
                     {/* Create Button */}
                     <Button
                       type="submit"
@@ -899,6 +931,17 @@ export default function CreatePost() {
                         </>
                       )}
                     </Button>
+
+                    {(isGenerating || isResubmitting) && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={cancelGeneration}
+                        className="w-full"
+                      >
+                        Cancel
+                      </Button>
+                    )}
                   </form>
                 </Form>
               </CardContent>
@@ -907,6 +950,14 @@ export default function CreatePost() {
 
           {/* Right Panel - Content Display */}
           <div className="lg:col-span-2 space-y-6">
+            {variants.length > 1 && (
+              <VariantComparison
+                variants={variants}
+                selection={variantSelection}
+                onSelect={handleVariantSelect}
+              />
+            )}
+
             {/* Generated Post Display */}
             <Card className="futuristic-border glow-hover backdrop-blur-sm shadow-xl border-0 bg-card/50">
               <CardHeader>
@@ -930,6 +981,17 @@ export default function CreatePost() {
                           Editing
                         </Badge>
                       )}
+                      {!editMode && (
+                        <Button
+                          variant={showPreview ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setShowPreview(!showPreview)}
+                          className="gap-2 shadow-sm futuristic-border glow-hover"
+                        >
+                          <Eye className="h-4 w-4" />
+                          {showPreview ? "Text" : "Preview"}
+                        </Button>
+                      )}
                       <Button variant="outline" size="sm" onClick={copyToClipboard} className="gap-2 shadow-sm futuristic-border glow-hover">
                         <Copy className="h-4 w-4" />
                         Copy
@@ -949,15 +1011,20 @@ export default function CreatePost() {
                     <div className="space-y-4">
                       {editMode ? (
                         <Textarea
+                          ref={editorRef}
                           value={editedPost}
                           onChange={(e) => setEditedPost(e.target.value)}
                           className="min-h-[350px] border-none bg-transparent p-0 text-base leading-relaxed resize-none focus-visible:ring-0 shadow-none relative z-10"
                           placeholder="Edit your post content here..."
                         />
+                      ) : showPreview ? (
+                        <PostPreview content={generatedPost} platform={postPlatform} className="relative z-10" />
                       ) : (
-                        <div className="whitespace-pre-wrap text-base leading-relaxed text-foreground relative z-10">
-                          {generatedPost}
-                        </div>
+                        <LintedText
+                          content={generatedPost}
+                          category={category}
+                          className="text-base leading-relaxed text-foreground relative z-10"
+                        />
                       )}
                     </div>
                   ) : (
@@ -988,6 +1055,15 @@ export default function CreatePost() {
                     </div>
                   )}
                 </div>
+                {generatedPost && (
+                  <PostLintPanel
+                    content={editMode ? editedPost : generatedPost}
+                    category={category}
+                    onApplyFix={handleLintFix}
+                    textareaRef={editMode ? editorRef : undefined}
+                    className="mt-4"
+                  />
+                )}
               </CardContent>
             </Card>
 
@@ -1035,6 +1111,8 @@ export default function CreatePost() {
                           className="futuristic-border"
                         />
                       </div>
+
+                      <SimilarPostsWarning matches={similarPosts} content={draftContent} />
                       
                       <div className="space-y-2">
                         <Label htmlFor="post-platform">Platform</Label>
@@ -1053,37 +1131,7 @@ export default function CreatePost() {
 
                       <div className="space-y-2">
                         <Label>Tags</Label>
-                        <div className="flex gap-2">
-                          <Input
-                            value={customTag}
-                            onChange={(e) => setCustomTag(e.target.value)}
-                            placeholder="Add a tag"
-                            className="futuristic-border"
-                            onKeyPress={(e) => {
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                addCustomTag();
-                              }
-                            }}
-                          />
-                          <Button type="button" variant="outline" onClick={addCustomTag} className="futuristic-border glow-hover">
-                            Add
-                          </Button>
-                        </div>
-                        {selectedTags.length > 0 && (
-                          <div className="flex flex-wrap gap-2 mt-2">
-                            {selectedTags.map((tag) => (
-                              <Badge
-                                key={tag}
-                                variant="secondary"
-                                className="cursor-pointer"
-                                onClick={() => removeTag(tag)}
-                              >
-                                {tag} ×
-                              </Badge>
-                            ))}
-                          </div>
-                        )}
+                        <TagInput value={selectedTags} onChange={setSelectedTags} />
                       </div>
                     </div>
                     <DialogFooter className="gap-2">
@@ -1167,6 +1215,16 @@ export default function CreatePost() {
                         </div>
                       </div>
 
+                      <div className="space-y-2">
+                        <Label htmlFor="schedule-timezone">Time Zone</Label>
+                        <TimeZoneSelect
+                          id="schedule-timezone"
+                          value={postTimeZone}
+                          onValueChange={setScheduleTimeZone}
+                          className="futuristic-border"
+                        />
+                      </div>
+
                       <div className="space-y-2">
                         <Label>Select Date</Label>
                         <CalendarComponent
@@ -1178,54 +1236,52 @@ export default function CreatePost() {
                         />
                       </div>
 
+                      <div className="p-3 rounded-lg border border-dashed text-sm text-muted-foreground flex items-center gap-2">
+                        <ListPlus className="h-4 w-4 text-primary flex-shrink-0" />
+                        {isLoadingNextSlot ? (
+                          <span>Looking for the next free {postPlatform} slot...</span>
+                        ) : nextFreeSlot ? (
+                          <span>Next free {postPlatform} slot: {formatScheduledTime(nextFreeSlot.date, nextFreeSlot.timeZone)}</span>
+                        ) : (
+                          <span>No free {postPlatform} slots. Add posting slots from the Content Calendar.</span>
+                        )}
+                      </div>
+
                       {selectedDate && (
                         <div className="p-4 bg-muted/50 rounded-lg futuristic-border">
                           <div className="flex items-center gap-2 text-sm">
                             <Clock className="h-4 w-4 text-primary animate-pulse" />
-                            <span>Scheduled for: {format(selectedDate, "PPP")} at {selectedTime}</span>
+                            <span>Scheduled for: {formatScheduledTime(combineDateAndTime(selectedDate, selectedTime, postTimeZone), postTimeZone)}</span>
                           </div>
                         </div>
                       )}
 
+                      <CadenceWarnings check={cadenceCheck} timeZone={postTimeZone} onPickSuggestion={applySuggestedTime} />
+
+                      <SimilarPostsWarning matches={similarPosts} content={draftContent} />
+
                       <div className="space-y-2">
                         <Label>Tags</Label>
-                        <div className="flex gap-2">
-                          <Input
-                            value={customTag}
-                            onChange={(e) => setCustomTag(e.target.value)}
-                            placeholder="Add a tag"
-                            className="futuristic-border"
-                            onKeyPress={(e) => {
-                              if (e.key === 'Enter') {
-                                e.preventDefault();
-                                addCustomTag();
-                              }
-                            }}
-                          />
-                          <Button type="button" variant="outline" onClick={addCustomTag} className="futuristic-border glow-hover">
-                            Add
-                          </Button>
-                        </div>
-                        {selectedTags.length > 0 && (
-                          <div className="flex flex-wrap gap-2 mt-2">
-                            {selectedTags.map((tag) => (
-                              <Badge
-                                key={tag}
-                                variant="secondary"
-                                className="cursor-pointer"
-                                onClick={() => removeTag(tag)}
-                              >
-                                {tag} ×
-                              </Badge>
-                            ))}
-                          </div>
-                        )}
+                        <TagInput value={selectedTags} onChange={setSelectedTags} />
                       </div>
                     </div>
                     <DialogFooter className="gap-2 flex-shrink-0 border-t pt-4">
                       <Button variant="outline" onClick={() => setScheduleDialogOpen(false)} className="futuristic-border glow-hover">
                         Cancel
                       </Button>
+                      <Button
+                        variant="outline"
+                        onClick={handleAddToQueue}
+                        disabled={isQueueing || !postTitle.trim() || !nextFreeSlot}
+                        className="futuristic-border glow-hover"
+                      >
+                        {isQueueing ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <ListPlus className="mr-2 h-4 w-4" />
+                        )}
+                        Add to Queue
+                      </Button>
                       <Button onClick={handleSchedulePost} disabled={isScheduling || !postTitle.trim() || !selectedDate} className="futuristic-border glow-hover">
                         {isScheduling ? (
                           <>
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -14,7 +14,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { Badge } from "@/components/ui/badge";
 import { cn } from "@/lib/utils";
-import { generatePrompts, type PromptInputs } from "@/lib/promptutils";
+import { generatePrompts, type GeneratedPrompts, type PromptInputs } from "@/lib/promptutils";
+import { isTemplateVariableError } from "@/lib/promptTemplates";
+import { DEFAULT_TRANSCRIPT_SOURCE, isTranscriptError, TRANSCRIPT_PROVIDERS, type Transcript, type TranscriptSource } from "@/lib/transcripts";
+import { TranscriptSourceFields } from "@/components/TranscriptSourceFields";
+import { PromptExportPanel } from "@/components/PromptExportPanel";
+import { describeGenerationError, generationClient, isGenerationError, type TopicSuggestion } from "@/lib/generationClient";
 
 const formatUrl = (url: string) => {
   let formatted = url.trim().replace(/\s+/g, '');
@@ -50,22 +55,28 @@ type FormData = z.infer<typeof formSchema>;
 const categories = ['Storytelling/Thought Leadership/Authority', 'Lead Magnets & YT Video-based content', 'Case studies/Testimonials/Results', 'Skool Community/Educational'];
 const tones = ['Authoritative', 'Descriptive', 'Casual', 'Narrative', 'Humorous'];
 
+const describeTemplateVersions = ({ system, user }: GeneratedPrompts["templateVersions"]) =>
+  system === null && user === null
+    ? "built-in templates"
+    : `templates: system ${system === null ? "built-in" : `v${system}`}, user ${user === null ? "built-in" : `v${user}`}`;
+
 export default function CreatePrompt() {
   const [systemPrompt, setSystemPrompt] = useState("");
   const [userPrompt, setUserPrompt] = useState("");
+  const [promptModel, setPromptModel] = useState<GeneratedPrompts["model"]>("OpenAI GPT-4.1");
   const [isGenerating, setIsGenerating] = useState(false);
+  const [transcriptSource, setTranscriptSource] = useState<TranscriptSource>(DEFAULT_TRANSCRIPT_SOURCE);
   const [askAiInput, setAskAiInput] = useState("");
-  const [aiSuggestions, setAiSuggestions] = useState<Array<{title: string, topic: string, tone: string}>>([]);
+  const [aiSuggestions, setAiSuggestions] = useState<TopicSuggestion[]>([]);
   const [isLoadingAiSuggestions, setIsLoadingAiSuggestions] = useState(false);
   const [showSuggestionDropdown, setShowSuggestionDropdown] = useState(false);
 
-  const askAiWebhookUrl = import.meta.env.VITE_ASK_AI_WEBHOOK_URL;
-
-  console.log("🔍 Debug Info:");
-  console.log("Ask AI Webhook URL:", askAiWebhookUrl);
+  const suggestionsAbortRef = useRef<AbortController | null>(null);
 
   const { toast } = useToast();
 
+  useEffect(() => () => suggestionsAbortRef.current?.abort(), []);
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -138,22 +149,40 @@ export default function CreatePrompt() {
 
       console.log("📝 Generating prompts with inputs:", promptInputs);
 
-      const generatedPrompts = generatePrompts(promptInputs);
+      let transcript: Transcript | undefined;
+      if (finalTopicType === "url" && transcriptSource.output === "rendered") {
+        transcript = await TRANSCRIPT_PROVIDERS[transcriptSource.providerId].fetchTranscript({
+          url: processedTopic,
+          rawText: transcriptSource.rawText,
+          title: transcriptSource.title,
+          channel: transcriptSource.channel
+        });
+      }
+
+      const generatedPrompts = await generatePrompts(promptInputs, {
+        output: finalTopicType === "url" ? transcriptSource.output : "n8n",
+        transcript
+      });
       console.log("✅ Prompts generated:", generatedPrompts);
 
       setSystemPrompt(generatedPrompts.systemPrompt);
       setUserPrompt(generatedPrompts.userPrompt);
+      setPromptModel(generatedPrompts.model);
 
       toast({
         title: "Prompts Generated Successfully!",
-        description: `System and user prompts are ready to review (Model: ${generatedPrompts.model})`
+        description: `System and user prompts are ready to review (Model: ${generatedPrompts.model}, ${describeTemplateVersions(generatedPrompts.templateVersions)})`
       });
     } catch (error) {
       console.error("❌ Error generating prompts:", error);
 
       toast({
         title: "Generation Failed",
-        description: "Failed to generate prompts. Please try again.",
+        description: isTranscriptError(error)
+          ? error.message
+          : isTemplateVariableError(error)
+            ? `The active prompt template is invalid. ${error.message}`
+            : "Failed to generate prompts. Please try again.",
         variant: "destructive"
       });
     } finally {
@@ -199,42 +228,17 @@ export default function CreatePrompt() {
       return;
     }
 
-    if (!askAiWebhookUrl) {
-      console.error("❌ Ask AI Webhook URL is not defined!");
-      toast({
-        title: "Configuration Error",
-        description: "Ask AI Webhook URL is not configured. Please check your environment variables.",
-        variant: "destructive"
-      });
-      return;
-    }
+    suggestionsAbortRef.current?.abort();
+    const controller = new AbortController();
+    suggestionsAbortRef.current = controller;
 
     setIsLoadingAiSuggestions(true);
     try {
-      const response = await fetch(askAiWebhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          action: "suggest_topics",
-          category: category,
-          description: askAiInput
-        })
-      });
+      const suggestions = await generationClient.suggestTopics({
+        category: category,
+        description: askAiInput
+      }, { signal: controller.signal });
 
-      if (!response.ok) {
-        console.error("❌ Ask AI response not OK:", {
-          status: response.status,
-          statusText: response.statusText
-        });
-        throw new Error("Failed to get AI suggestions");
-      }
-
-      const result = await response.json();
-      console.log("AI webhook response:", result);
-      const suggestions = result?.ideas || [];
-      console.log("Extracted suggestions:", suggestions);
       setAiSuggestions(suggestions);
       setShowSuggestionDropdown(true);
 
@@ -244,9 +248,9 @@ export default function CreatePrompt() {
       });
     } catch (error) {
       console.error("❌ Error getting AI suggestions:", error);
+      if (isGenerationError(error) && error.code === "aborted") return;
       toast({
-        title: "AI Request Failed",
-        description: "Failed to get AI suggestions. Please try again.",
+        ...describeGenerationError(error),
         variant: "destructive"
       });
     } finally {
@@ -254,7 +258,7 @@ export default function CreatePrompt() {
     }
   };
 
-  const handleSuggestionSelect = (suggestion: {title: string, topic: string, tone: string}) => {
+  const handleSuggestionSelect = (suggestion: TopicSuggestion) => {
     form.setValue("topic", suggestion.topic);
     form.setValue("tone", suggestion.tone);
 
@@ -497,6 +501,10 @@ export default function CreatePrompt() {
                       }}
                     />
 
+                    {topicType === "url" && (
+                      <TranscriptSourceFields value={transcriptSource} onChange={setTranscriptSource} />
+                    )}
+
                     <FormField
                       control={form.control}
                       name="tone"
@@ -586,6 +594,14 @@ export default function CreatePrompt() {
                       readOnly
                       className="min-h-[500px] resize-none futuristic-border bg-muted/30 font-mono text-sm"
                     />
+                    <div className="pt-6 space-y-3">
+                      <Label className="text-base font-semibold text-primary">Export as API Request</Label>
+                      <PromptExportPanel
+                        systemPrompt={systemPrompt}
+                        userPrompt={userPrompt}
+                        defaultProvider={promptModel === "Google Gemini" ? "gemini" : "openai"}
+                      />
+                    </div>
                   </div>
                 ) : (
                   <div className="flex flex-col items-center justify-center min-h-[500px] text-center space-y-6">
@@ -1,5 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,14 +12,27 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { Calendar, Copy, Edit3, Loader2, Sparkles, Save, RotateCcw, Clock } from "lucide-react";
+import { Calendar, Copy, Edit3, Eye, Loader2, Sparkles, Save, RotateCcw, Clock, ListPlus } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { cn } from "@/lib/utils";
-import { format } from "date-fns";
+import { format, startOfDay } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { ContentService } from "@/lib/contentService";
+import { PostingSlotService } from "@/lib/postingSlotService";
+import { combineDateAndTime, formatScheduledTime, toZonedDate } from "@/lib/timezones";
+import { useWorkspaceTimeZone } from "@/hooks/use-workspace-timezone";
+import { useCadenceCheck } from "@/hooks/use-cadence-check";
+import { useSimilarPosts } from "@/hooks/use-similar-posts";
+import { TimeZoneSelect } from "@/components/TimeZoneSelect";
+import { CadenceWarnings } from "@/components/CadenceWarnings";
+import { SimilarPostsWarning } from "@/components/SimilarPostsWarning";
+import { describeGenerationError, generationClient, isGenerationError } from "@/lib/generationClient";
+import { PostPreview } from "@/components/PostPreview";
+import { PostLintPanel } from "@/components/PostLintPanel";
+import { LintedText } from "@/components/LintedText";
+import { LEAD_MAGNET_CATEGORY } from "@/lib/promptutils";
 
 // Form schema for lead magnet generation
 const formSchema = z.object({
@@ -57,6 +71,8 @@ export default function LeadMagnet() {
   const [generatedPost, setGeneratedPost] = useState<string>("");
   const [isLoading, setIsLoading] = useState(false);
   const [editMode, setEditMode] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const editorRef = useRef<HTMLTextAreaElement>(null);
   const [editedContent, setEditedContent] = useState("");
   const [changeRequest, setChangeRequest] = useState("");
   const [isRegenerating, setIsRegenerating] = useState(false);
@@ -71,9 +87,58 @@ export default function LeadMagnet() {
   const [scheduledTime, setScheduledTime] = useState("");
   const [isSaving, setIsSaving] = useState(false);
   const [isScheduling, setIsScheduling] = useState(false);
+  const [isQueueing, setIsQueueing] = useState(false);
+  const [scheduleTimeZone, setScheduleTimeZone] = useState<string | null>(null);
+  const { timeZone: workspaceTimeZone } = useWorkspaceTimeZone();
+  const postTimeZone = scheduleTimeZone ?? workspaceTimeZone;
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
-  const leadMagnetWebhookUrl = import.meta.env.VITE_LEAD_MAGNET_WEBHOOK_URL;
+  const { data: nextFreeSlot, isLoading: isLoadingNextSlot } = useQuery({
+    queryKey: ["next-free-slot", selectedPlatform],
+    queryFn: () => PostingSlotService.findNextFreeSlot(selectedPlatform),
+    enabled: scheduleDialogOpen
+  });
+
+  // Warn about cadence rules once both a date and a time are picked
+  const { check: cadenceCheck } = useCadenceCheck(
+    scheduleDialogOpen && scheduledDate && scheduledTime
+      ? { platform: selectedPlatform, date: combineDateAndTime(scheduledDate, scheduledTime, postTimeZone) }
+      : null
+  );
+
+  // Flag near-duplicates of the post being saved or scheduled
+  const draftContent = editMode ? editedContent : generatedPost;
+  const { matches: similarPosts } = useSimilarPosts(
+    saveDialogOpen || scheduleDialogOpen ? { content: draftContent } : null
+  );
+
+  const applySuggestedTime = (date: Date) => {
+    const zoned = toZonedDate(date, postTimeZone);
+    setScheduledDate(startOfDay(zoned));
+    setScheduledTime(format(zoned, "HH:mm"));
+  };
+
+  // In-flight generation request, cancelled when superseded or when the page unmounts
+  const generationAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => generationAbortRef.current?.abort(), []);
+
+  const startGenerationRequest = () => {
+    generationAbortRef.current?.abort();
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
+    return controller.signal;
+  };
+
+  const showGenerationError = (error: unknown) => {
+    // Cancellation is user- or navigation-initiated, nothing to report
+    if (isGenerationError(error) && error.code === "aborted") return;
+    toast({
+      ...describeGenerationError(error),
+      variant: "destructive",
+    });
+  };
 
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
@@ -102,8 +167,7 @@ export default function LeadMagnet() {
   const onSubmit = async (data: FormData) => {
     setIsLoading(true);
     try {
-      const webhookData = {
-        action: "generate_leadmagnet",
+      const result = await generationClient.generateLeadMagnet({
         resourceType: data.resourceType,
         resourceOutline: data.resourceOutline,
         engagementOptions: {
@@ -113,43 +177,17 @@ export default function LeadMagnet() {
           comment: data.engagementOptions.comment,
           commentKeyword: data.engagementOptions.comment ? data.commentKeyword : undefined,
         }
-      };
-
-      console.log("Sending webhook data:", webhookData);
-      
-      if (!leadMagnetWebhookUrl) {
-        throw new Error("Lead magnet webhook URL not configured");
-      }
-
-      const response = await fetch(
-        leadMagnetWebhookUrl,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(webhookData),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      }, { signal: startGenerationRequest() });
 
-      const result = await response.json();
-      setGeneratedPost(result.content || "Generated content will appear here...");
-      setEditedContent(result.content || "");
+      setGeneratedPost(result.content);
+      setEditedContent(result.content);
       toast({
         title: "Success!",
         description: "Lead magnet post generated successfully.",
       });
     } catch (error) {
       console.error("Error generating lead magnet post:", error);
-      toast({
-        title: "Error",
-        description: "Failed to generate lead magnet post. Please try again.",
-        variant: "destructive",
-      });
+      showGenerationError(error);
     } finally {
       setIsLoading(false);
     }
@@ -168,8 +206,7 @@ export default function LeadMagnet() {
     setIsRegenerating(true);
     try {
       const formData = form.getValues();
-      const webhookData = {
-        action: "refine_leadmagnet",
+      const result = await generationClient.refineLeadMagnet({
         resourceType: formData.resourceType,
         resourceOutline: formData.resourceOutline,
         engagementOptions: {
@@ -181,30 +218,10 @@ export default function LeadMagnet() {
         },
         originalPost: generatedPost,
         changeRequest: changeRequest,
-      };
-
-      if (!leadMagnetWebhookUrl) {
-        throw new Error("Lead magnet webhook URL not configured");
-      }
-
-      const response = await fetch(
-        leadMagnetWebhookUrl,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(webhookData),
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+      }, { signal: startGenerationRequest() });
 
-      const result = await response.json();
-      setGeneratedPost(result.content || "Updated content will appear here...");
-      setEditedContent(result.content || "");
+      setGeneratedPost(result.content);
+      setEditedContent(result.content);
       setChangeRequest("");
       toast({
         title: "Success!",
@@ -212,11 +229,7 @@ export default function LeadMagnet() {
       });
     } catch (error) {
       console.error("Error refining post:", error);
-      toast({
-        title: "Error",
-        description: "Failed to refine the post. Please try again.",
-        variant: "destructive",
-      });
+      showGenerationError(error);
     } finally {
       setIsRegenerating(false);
     }
@@ -250,6 +263,11 @@ export default function LeadMagnet() {
     }
   };
 
+  const handleLintFix = (content: string) => {
+    setEditedContent(content);
+    if (!editMode) setGeneratedPost(content);
+  };
+
   const handleEditToggle = () => {
     if (editMode) {
       setGeneratedPost(editedContent);
@@ -350,9 +368,7 @@ export default function LeadMagnet() {
         commentKeyword: formData.commentKeyword
       };
 
-      const [hours, minutes] = scheduledTime.split(':');
-      const scheduledDateTime = new Date(scheduledDate);
-      scheduledDateTime.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+      const scheduledDateTime = combineDateAndTime(scheduledDate, scheduledTime, postTimeZone);
 
       await ContentService.createPost({
         title: postTitle,
@@ -362,12 +378,13 @@ export default function LeadMagnet() {
         tags: selectedTags,
         status: 'scheduled',
         scheduled_date: scheduledDateTime.toISOString(),
+        scheduled_timezone: postTimeZone,
         source_data: sourceData
       });
 
       toast({
         title: "Success!",
-        description: `Post scheduled for ${format(scheduledDateTime, "PPP 'at' p")}`,
+        description: `Post scheduled for ${formatScheduledTime(scheduledDateTime, postTimeZone)}`,
       });
       
       setScheduleDialogOpen(false);
@@ -386,6 +403,56 @@ export default function LeadMagnet() {
     }
   };
 
+  const handleAddToQueue = async () => {
+    if (!postTitle.trim()) {
+      toast({
+        title: "Error",
+        description: "Please enter a title for the post.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsQueueing(true);
+    try {
+      const content = editMode ? editedContent : generatedPost;
+      const formData = form.getValues();
+
+      const { occurrence } = await PostingSlotService.addToQueue({
+        title: postTitle,
+        content: content,
+        content_type: 'lead_magnet',
+        platform: selectedPlatform,
+        tags: selectedTags,
+        source_data: {
+          resourceType: formData.resourceType,
+          resourceOutline: formData.resourceOutline,
+          engagementOptions: formData.engagementOptions,
+          commentKeyword: formData.commentKeyword
+        }
+      });
+
+      toast({
+        title: "Added to queue!",
+        description: `Post scheduled for the ${occurrence.slot.platform} slot on ${formatScheduledTime(occurrence.date, occurrence.timeZone)}`,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["next-free-slot"] });
+      setScheduleDialogOpen(false);
+      setPostTitle("");
+      setSelectedTags([]);
+    } catch (error) {
+      console.error("Error adding post to queue:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to add post to the queue.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsQueueing(false);
+    }
+  };
+
   const addCustomTag = () => {
     if (customTag.trim() && !selectedTags.includes(customTag.trim())) {
       setSelectedTags([...selectedTags, customTag.trim()]);
@@ -582,6 +649,17 @@ export default function LeadMagnet() {
                         </>
                       )}
                     </Button>
+
+                    {(isLoading || isRegenerating) && (
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        onClick={() => generationAbortRef.current?.abort()}
+                        className="w-full"
+                      >
+                        Cancel
+                      </Button>
+                    )}
                   </form>
                 </Form>
               </CardContent>
@@ -605,6 +683,17 @@ export default function LeadMagnet() {
                         <Sparkles className="h-3 w-3 mr-1" />
                         AI Generated
                       </Badge>
+                      {!editMode && (
+                        <Button
+                          variant={showPreview ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => setShowPreview(!showPreview)}
+                          className="gap-2 shadow-sm"
+                        >
+                          <Eye className="h-3 w-3" />
+                          {showPreview ? "Text" : "Preview"}
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -619,17 +708,29 @@ export default function LeadMagnet() {
                   <CardContent>
                     {editMode ? (
                       <Textarea
+                        ref={editorRef}
                         value={editedContent}
                         onChange={(e) => setEditedContent(e.target.value)}
                         className="min-h-[300px] p-4 text-base leading-relaxed"
                       />
+                    ) : showPreview ? (
+                      <PostPreview content={generatedPost} platform={selectedPlatform} />
                     ) : (
                       <div className="bg-muted/30 rounded-lg p-4 min-h-[300px]">
-                        <pre className="text-base leading-relaxed whitespace-pre-wrap font-sans">
-                          {generatedPost}
-                        </pre>
+                        <LintedText
+                          content={generatedPost}
+                          category={LEAD_MAGNET_CATEGORY}
+                          className="text-base leading-relaxed"
+                        />
                       </div>
                     )}
+                    <PostLintPanel
+                      content={editMode ? editedContent : generatedPost}
+                      category={LEAD_MAGNET_CATEGORY}
+                      onApplyFix={handleLintFix}
+                      textareaRef={editMode ? editorRef : undefined}
+                      className="mt-4"
+                    />
                   </CardContent>
                 </Card>
 
@@ -688,6 +789,8 @@ export default function LeadMagnet() {
                               placeholder="Enter a title for your post"
                             />
                           </div>
+
+                          <SimilarPostsWarning matches={similarPosts} content={draftContent} />
                           
                           <div className="space-y-2">
                             <Label htmlFor="platform">Platform</Label>
@@ -828,6 +931,15 @@ export default function LeadMagnet() {
                             </div>
                           </div>
 
+                          <div className="space-y-2">
+                            <Label htmlFor="schedule-timezone">Time Zone</Label>
+                            <TimeZoneSelect id="schedule-timezone" value={postTimeZone} onValueChange={setScheduleTimeZone} />
+                          </div>
+
+                          <CadenceWarnings check={cadenceCheck} timeZone={postTimeZone} onPickSuggestion={applySuggestedTime} />
+
+                          <SimilarPostsWarning matches={similarPosts} content={draftContent} />
+
                           <div className="space-y-2">
                             <Label htmlFor="schedule-title">Post Title</Label>
                             <Input
@@ -887,6 +999,17 @@ export default function LeadMagnet() {
                             )}
                           </div>
 
+                          <div className="p-3 rounded-lg border border-dashed text-sm text-muted-foreground flex items-center gap-2">
+                            <ListPlus className="h-4 w-4 text-primary flex-shrink-0" />
+                            {isLoadingNextSlot ? (
+                              <span>Looking for the next free slot...</span>
+                            ) : nextFreeSlot ? (
+                              <span>Next free {nextFreeSlot.slot.platform} slot: {formatScheduledTime(nextFreeSlot.date, nextFreeSlot.timeZone)}</span>
+                            ) : (
+                              <span>No free slots for this platform. Add posting slots from the Content Calendar.</span>
+                            )}
+                          </div>
+
                           <div className="flex gap-3 pt-4">
                             <Button
                               variant="outline"
@@ -895,6 +1018,19 @@ export default function LeadMagnet() {
                             >
                               Cancel
                             </Button>
+                            <Button
+                              variant="outline"
+                              onClick={handleAddToQueue}
+                              disabled={isQueueing || !nextFreeSlot}
+                              className="flex-1"
+                            >
+                              {isQueueing ? (
+                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                              ) : (
+                                <ListPlus className="mr-2 h-4 w-4" />
+                              )}
+                              Add to Queue
+                            </Button>
                             <Button
                               onClick={handleSchedulePost}
                               disabled={isScheduling}
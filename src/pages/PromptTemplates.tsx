@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { CheckCircle, FileCode, GitBranch, GitCompare, Loader2, Save, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { TextDiffView } from "@/components/TextDiffView";
+import { PromptTemplateService } from "@/lib/promptTemplateService";
+import { extractVariables, findUnknownVariables } from "@/lib/promptTemplates";
+import { PROMPT_TEMPLATE_DEFINITIONS, PROMPT_TEMPLATE_KEYS, TEMPLATE_VARIABLES } from "@/lib/promptutils";
+import { PromptTemplateKey } from "@/types/promptTemplate";
+
+// Version 0 stands for the built-in default shipped with the app
+const BUILT_IN_VERSION = 0;
+
+interface Draft {
+  body: string;
+  description: string;
+  forkedFrom: number;
+}
+
+const versionLabel = (version: number) => (version === BUILT_IN_VERSION ? "Built-in" : `v${version}`);
+
+export default function PromptTemplates() {
+  const [templateKey, setTemplateKey] = useState<PromptTemplateKey>("text_system");
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isActivating, setIsActivating] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const definition = PROMPT_TEMPLATE_DEFINITIONS[templateKey];
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["prompt-templates", templateKey],
+    queryFn: () => PromptTemplateService.listVersions(templateKey),
+  });
+
+  const activeVersion = versions.find(version => version.is_active)?.version ?? BUILT_IN_VERSION;
+  const shownVersion = selectedVersion ?? activeVersion;
+
+  const bodyOf = (version: number) =>
+    version === BUILT_IN_VERSION
+      ? definition.defaultBody
+      : versions.find(item => item.version === version)?.body ?? "";
+
+  useEffect(() => {
+    setSelectedVersion(null);
+    setCompareVersion(null);
+    setDraft(null);
+  }, [templateKey]);
+
+  const currentBody = draft ? draft.body : bodyOf(shownVersion);
+  const usedVariables = useMemo(() => extractVariables(currentBody), [currentBody]);
+  const unknownVariables = useMemo(() => findUnknownVariables(currentBody, TEMPLATE_VARIABLES), [currentBody]);
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["prompt-templates", templateKey] });
+
+  const handleFork = () => {
+    setDraft({ body: bodyOf(shownVersion), description: "", forkedFrom: shownVersion });
+    setCompareVersion(shownVersion);
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+    if (unknownVariables.length > 0) {
+      toast({
+        title: "Unknown Variables",
+        description: `Remove or rename: ${unknownVariables.join(", ")}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await PromptTemplateService.createVersion({
+        template_key: templateKey,
+        body: draft.body,
+        description: draft.description.trim() || undefined,
+        forked_from_version: draft.forkedFrom === BUILT_IN_VERSION ? undefined : draft.forkedFrom
+      });
+      await refresh();
+      setDraft(null);
+      setSelectedVersion(created.version);
+      toast({
+        title: `Saved ${versionLabel(created.version)}`,
+        description: "Activate it to use it for generation"
+      });
+    } catch (error) {
+      console.error("Error saving template version:", error);
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save template version",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleActivate = async () => {
+    setIsActivating(true);
+    try {
+      await PromptTemplateService.activateVersion(templateKey, shownVersion === BUILT_IN_VERSION ? null : shownVersion);
+      await refresh();
+      setSelectedVersion(null);
+      toast({
+        title: "Template Activated",
+        description: `${definition.label} now uses ${versionLabel(shownVersion)}`
+      });
+    } catch (error) {
+      console.error("Error activating template version:", error);
+      toast({
+        title: "Activation Failed",
+        description: error instanceof Error ? error.message : "Failed to activate template version",
+        variant: "destructive"
+      });
+    } finally {
+      setIsActivating(false);
+    }
+  };
+
+  const versionOptions = [...versions.map(version => version.version), BUILT_IN_VERSION];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-green-500/5 data-grid bg-noise p-4 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="mb-8">
+          <div className="inline-flex items-center gap-2 px-4 py-2 bg-primary/10 text-primary rounded-full text-sm font-medium animate-data-pulse">
+            <FileCode className="h-4 w-4" />
+            Prompt Registry
+          </div>
+          <h1 className="text-4xl lg:text-5xl font-bold tracking-tight bg-gradient-to-r from-green-400 to-green-600 bg-clip-text text-transparent animate-pulse-glow">
+            Prompt Templates
+          </h1>
+          <p className="text-xl text-muted-foreground max-w-2xl">
+            Version the system and user prompts used for generation. The active version is used immediately, no deploy needed.
+          </p>
+        </div>
+
+        <Tabs value={templateKey} onValueChange={(value) => setTemplateKey(value as PromptTemplateKey)}>
+          <TabsList className="flex-wrap h-auto">
+            {PROMPT_TEMPLATE_KEYS.map(key => (
+              <TabsTrigger key={key} value={key}>{PROMPT_TEMPLATE_DEFINITIONS[key].label}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="grid lg:grid-cols-3 gap-8">
+          <Card className="futuristic-border backdrop-blur-sm shadow-xl border-0 bg-card/50 lg:col-span-1">
+            <CardHeader>
+              <CardTitle className="text-lg">Versions</CardTitle>
+              <CardDescription>{definition.description}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                [...versions, null].map(version => {
+                  const number = version?.version ?? BUILT_IN_VERSION;
+                  return (
+                    <button
+                      key={number}
+                      type="button"
+                      onClick={() => {
+                        setSelectedVersion(number);
+                        setDraft(null);
+                      }}
+                      className={cn(
+                        "w-full text-left rounded-lg border p-3 transition-colors",
+                        !draft && number === shownVersion ? "border-primary bg-primary/10" : "hover:bg-muted/50"
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{versionLabel(number)}</span>
+                        {number === activeVersion && (
+                          <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Active</Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-2">
+                        {version
+                          ? version.description || `Forked from ${versionLabel(version.forked_from_version ?? BUILT_IN_VERSION)}`
+                          : "Shipped with the app"}
+                      </p>
+                      {version && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {format(new Date(version.created_at), "MMM d, yyyy HH:mm")}
+                        </p>
+                      )}
+                    </button>
+                  );
+                })
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="futuristic-border backdrop-blur-sm shadow-xl border-0 bg-card/50 lg:col-span-2">
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                <div>
+                  <CardTitle className="text-lg">
+                    {draft ? `New version (fork of ${versionLabel(draft.forkedFrom)})` : versionLabel(shownVersion)}
+                  </CardTitle>
+                  <CardDescription>
+                    {draft ? "Edit and save as a new version" : "Versions are read-only; fork to make changes"}
+                  </CardDescription>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {draft ? (
+                    <>
+                      <Button variant="ghost" size="sm" onClick={() => setDraft(null)} className="gap-2">
+                        <X className="h-4 w-4" />
+                        Discard
+                      </Button>
+                      <Button size="sm" onClick={handleSaveDraft} disabled={isSaving || !draft.body.trim()} className="gap-2">
+                        {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                        Save version
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button variant="outline" size="sm" onClick={handleFork} className="gap-2">
+                        <GitBranch className="h-4 w-4" />
+                        Fork
+                      </Button>
+                      <Button
+                        size="sm"
+                        onClick={handleActivate}
+                        disabled={isActivating || shownVersion === activeVersion}
+                        className="gap-2"
+                      >
+                        {isActivating ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle className="h-4 w-4" />}
+                        {shownVersion === activeVersion ? "Active" : "Activate"}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <GitCompare className="h-4 w-4 text-muted-foreground" />
+                <Label className="text-sm text-muted-foreground">Diff against</Label>
+                <Select
+                  value={compareVersion === null ? "none" : String(compareVersion)}
+                  onValueChange={(value) => setCompareVersion(value === "none" ? null : Number(value))}
+                >
+                  <SelectTrigger className="w-40 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No diff</SelectItem>
+                    {versionOptions.map(number => (
+                      <SelectItem key={number} value={String(number)}>{versionLabel(number)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {draft && (
+                <>
+                  <div>
+                    <Label htmlFor="template-description">Change description</Label>
+                    <Input
+                      id="template-description"
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      placeholder="e.g. Shorter hooks for educational posts"
+                    />
+                  </div>
+                  <Textarea
+                    value={draft.body}
+                    onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                    className="min-h-[360px] font-mono text-sm leading-relaxed"
+                  />
+                </>
+              )}
+
+              {compareVersion !== null ? (
+                <TextDiffView before={bodyOf(compareVersion)} after={currentBody} />
+              ) : (
+                !draft && (
+                  <pre className="bg-muted p-4 rounded-lg whitespace-pre-wrap text-sm leading-relaxed font-mono max-h-[60vh] overflow-y-auto">
+                    {currentBody}
+                  </pre>
+                )
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Variables</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {TEMPLATE_VARIABLES.map(name => (
+                    <Badge
+                      key={name}
+                      variant={usedVariables.includes(name) ? "default" : "outline"}
+                      className="font-mono text-xs"
+                    >
+                      {`{{${name}}}`}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Highlighted variables are used by this version and must have a value when prompts are generated.
+                </p>
+                {unknownVariables.length > 0 && (
+                  <p className="text-sm text-destructive">
+                    Unknown variables: {unknownVariables.map(name => `{{${name}}}`).join(", ")}
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
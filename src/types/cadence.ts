@@ -0,0 +1,48 @@
+export interface CadenceRule {
+  id: string;
+  platform: string;
+  min_gap_minutes: number | null; // null = no minimum gap
+  max_posts_per_day: number | null; // null = no daily limit
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveCadenceRuleRequest {
+  platform: string;
+  min_gap_minutes: number | null;
+  max_posts_per_day: number | null;
+}
+
+export interface BlackoutDate {
+  id: string;
+  date: string; // "yyyy-MM-dd", a day in the workspace timezone
+  platform: string | null; // null = every platform
+  label: string | null;
+  created_at: string;
+}
+
+export interface CreateBlackoutDateRequest {
+  date: string;
+  platform?: string | null;
+  label?: string | null;
+}
+
+// The schedule being checked; postId excludes the post itself when it is being moved
+export interface CadenceCandidate {
+  postId?: string;
+  platform: string;
+  date: Date;
+}
+
+export interface CadenceViolation {
+  kind: 'min_gap' | 'max_per_day' | 'blackout';
+  message: string;
+  conflictingPostId?: string;
+}
+
+export interface CadenceCheck {
+  violations: CadenceViolation[];
+  // Nearby times that satisfy every rule, in date order
+  suggestions: Date[];
+  timeZone: string;
+}
@@ -0,0 +1,8 @@
+export interface CalendarFeedToken {
+  id: string;
+  token: string;
+  label?: string;
+  created_at: string;
+  last_accessed_at?: string;
+  revoked_at?: string;
+}
@@ -0,0 +1,28 @@
+import { ContentPost } from "@/types/content";
+
+export interface Campaign {
+  id: string;
+  name: string;
+  goal: string | null;
+  start_date: string; // "yyyy-MM-dd", a day in the workspace timezone; the range includes both ends
+  end_date: string;
+  target_platforms: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+// Counts cover live posts only; trashed posts keep their campaign but aren't counted
+export type CampaignStatusCounts = Record<ContentPost['status'], number>;
+
+export interface CampaignWithProgress extends Campaign {
+  total_posts: number;
+  status_counts: CampaignStatusCounts;
+}
+
+export interface SaveCampaignRequest {
+  name: string;
+  goal?: string | null;
+  start_date: string;
+  end_date: string;
+  target_platforms: string[];
+}
@@ -1,19 +1,43 @@
+export interface EditHistoryEntry {
+  timestamp: string;
+  changes: string;
+  content: string;
+  title?: string;
+  restored_from?: string; // Timestamp of the revision this one restored
+}
+
+// Stored in source_data.variantSelection when a post was picked from several generated variants
+export interface VariantSelection {
+  variantCount: number;
+  angles: string[];
+  chosenVariant: number | null; // null when the post was merged from several variants, or never picked
+  chosenAngle?: string;
+  explicit?: boolean; // false when the post was saved without picking, so it says nothing about which style won
+  mergedFrom?: { variant: number; paragraph: number }[];
+}
+
 export interface ContentPost {
   id: string;
   title?: string;
   content: string;
   content_type: 'create_post' | 'lead_magnet';
-  status: 'draft' | 'scheduled' | 'published' | 'archived';
+  status: 'draft' | 'scheduled' | 'published' | 'failed' | 'archived';
   source_data: Record<string, any>;
   original_content?: string;
-  edit_history: Array<{
-    timestamp: string;
-    changes: string;
-    content: string;
-  }>;
+  edit_history: EditHistoryEntry[];
   scheduled_date?: string;
+  scheduled_timezone?: string; // IANA zone the post was scheduled in
   platform?: string;
   tags?: string[];
+  // Written by the publish-due-posts worker
+  published_at?: string;
+  external_post_id?: string;
+  external_url?: string;
+  publish_attempts?: number;
+  last_publish_error?: string;
+  next_publish_attempt_at?: string;
+  deleted_at?: string; // Set while the post is in the Trash
+  campaign_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -22,15 +46,74 @@ export interface CreateContentPostRequest {
   title?: string;
   content: string;
   content_type: 'create_post' | 'lead_magnet';
-  status?: 'draft' | 'scheduled' | 'published' | 'archived';
+  status?: ContentPost['status'];
   source_data: Record<string, any>;
   original_content?: string;
   scheduled_date?: string;
+  scheduled_timezone?: string;
   platform?: string;
   tags?: string[];
+  campaign_id?: string | null;
+}
+
+// Imports may carry history and creation time over from another workspace's JSON export
+export interface ImportContentPostRequest extends CreateContentPostRequest {
+  edit_history?: EditHistoryEntry[];
+  created_at?: string;
 }
 
 export interface UpdateContentPostRequest extends Partial<ContentPost> {
   id?: never; // Prevent updating ID
   created_at?: never; // Prevent updating created_at
-}
\ No newline at end of file
+}
+// scheduled_date sorting lists unscheduled posts last, whichever the direction
+export type PostSortKey = 'created_at' | 'updated_at' | 'deleted_at' | 'scheduled_date';
+
+export interface ListPostsParams {
+  status?: ContentPost['status'];
+  content_type?: ContentPost['content_type'];
+  platform?: string;
+  tags?: string[];
+  tagMatch?: 'all' | 'any'; // Defaults to 'all'
+  // ISO instants; the After bound is inclusive and the Before bound exclusive
+  createdAfter?: string;
+  createdBefore?: string;
+  scheduledAfter?: string;
+  scheduledBefore?: string;
+  // Matched against source_data
+  category?: string;
+  tone?: string;
+  campaignId?: string;
+  search?: string;
+  trashed?: boolean; // List the Trash instead of live posts
+  sortBy?: PostSortKey;
+  sortDirection?: 'asc' | 'desc';
+  pageSize?: number;
+  cursor?: string | null;
+}
+
+export interface PostPage {
+  posts: ContentPost[];
+  nextCursor: string | null;
+  totalCount: number | null; // Only counted on the first page
+  highlights?: Record<string, string>; // Search snippets keyed by post id
+}
+
+export interface PostSearchHit {
+  post: ContentPost;
+  rank: number;
+  snippet: string;
+}
+
+export interface PostSearchResult {
+  hits: PostSearchHit[];
+  totalCount: number;
+}
+
+// One post's slot in a bulk schedule
+export interface BulkScheduleAssignment {
+  id: string;
+  platform: string;
+  scheduled_date: string;
+  scheduled_timezone: string;
+}
@@ -0,0 +1,25 @@
+export interface PostingSlot {
+  id: string;
+  platform: string;
+  day_of_week: number; // 0 = Sunday, matching Date.getDay()
+  time_of_day: string; // "HH:mm:ss" wall-clock time
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CreatePostingSlotRequest {
+  platform: string;
+  day_of_week: number;
+  time_of_day: string;
+}
+
+// One concrete date a recurring slot falls on
+export interface SlotOccurrence {
+  slot: PostingSlot;
+  date: Date;
+}
+
+// An occurrence together with the workspace zone it was computed in
+export interface ZonedSlotOccurrence extends SlotOccurrence {
+  timeZone: string;
+}
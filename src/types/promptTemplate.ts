@@ -0,0 +1,20 @@
+export type PromptTemplateKey = 'text_system' | 'text_user' | 'url_system' | 'url_user';
+
+export interface PromptTemplate {
+  id: string;
+  template_key: PromptTemplateKey;
+  version: number;
+  body: string;
+  description?: string;
+  required_variables: string[];
+  forked_from_version?: number; // Unset when forked from the built-in default
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface CreatePromptTemplateRequest {
+  template_key: PromptTemplateKey;
+  body: string;
+  description?: string;
+  forked_from_version?: number;
+}
@@ -0,0 +1,29 @@
+import { ContentPost } from "@/types/content";
+
+// Post Library filter state as it appears in the URL and in saved views; dates are yyyy-MM-dd
+export interface PostLibraryFilters {
+  search?: string;
+  status?: ContentPost['status'];
+  content_type?: ContentPost['content_type'];
+  platform?: string;
+  tags?: string[];
+  tagMatch?: 'all' | 'any';
+  createdFrom?: string;
+  createdTo?: string;
+  scheduledFrom?: string;
+  scheduledTo?: string;
+  category?: string;
+  tone?: string;
+  campaign?: string; // Campaign id
+  sort?: string; // "<PostSortKey>:<asc|desc>"
+  trash?: boolean;
+}
+
+export interface SavedView {
+  id: string;
+  owner_key: string;
+  name: string;
+  filters: PostLibraryFilters;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,24 @@
+export interface Tag {
+  id: string;
+  name: string;
+  color: string | null; // "#rrggbb"; null = default badge colour
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Usage counts only live posts; trashed posts keep their tags but aren't counted
+export interface TagWithUsage extends Tag {
+  post_count: number;
+}
+
+export interface SaveTagRequest {
+  name: string;
+  color?: string | null;
+  description?: string | null;
+}
+
+export interface UpdateTagRequest {
+  color?: string | null;
+  description?: string | null;
+}
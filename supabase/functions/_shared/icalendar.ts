@@ -0,0 +1,143 @@
+/**
+ * iCalendar (RFC 5545) serialisation for the posting schedule
+ * Shared by the app's .ics download and the ics-feed edge function, so it must stay free of
+ * imports: the app bundles it with Vite and the edge function runs it on Deno.
+ */
+
+export interface ICalEvent {
+  uid: string;
+  start: Date;
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  url?: string;
+  categories?: string[];
+  lastModified?: Date;
+}
+
+export interface ICalendarOptions {
+  name: string;
+  description?: string;
+  // Suggested refresh interval for subscribed calendars
+  refreshMinutes?: number;
+  now?: Date;
+}
+
+// The subset of a content post the calendar needs; both the app and the edge function map rows to it
+export interface ScheduledPostLike {
+  id: string;
+  title?: string | null;
+  content: string;
+  platform?: string | null;
+  scheduled_date?: string | null;
+  updated_at?: string | null;
+}
+
+export const ICAL_PRODUCT_ID = "-//Content Hub//Posting Schedule//EN";
+export const ICAL_CONTENT_TYPE = "text/calendar; charset=utf-8";
+
+// Posts are instants, but calendar apps need a block to draw
+const POST_EVENT_MINUTES = 30;
+const DESCRIPTION_PREVIEW_LENGTH = 280;
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/**
+ * Escape TEXT values: backslash, semicolon, comma and newlines
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold content lines longer than 75 octets, never splitting a multi-byte character
+ */
+export function foldICalLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+/**
+ * UTC date-time form, e.g. 20261021T070000Z
+ */
+export function formatICalDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+export function postToICalEvent(post: ScheduledPostLike, appUrl?: string): ICalEvent | null {
+  if (!post.scheduled_date) return null;
+
+  const title = post.title?.trim() || "Untitled post";
+  const url = appUrl ? `${appUrl.replace(/\/$/, "")}/content-calendar?post=${encodeURIComponent(post.id)}` : undefined;
+  const preview = post.content.length > DESCRIPTION_PREVIEW_LENGTH
+    ? `${post.content.slice(0, DESCRIPTION_PREVIEW_LENGTH).trimEnd()}…`
+    : post.content;
+
+  return {
+    uid: `${post.id}@content-hub`,
+    start: new Date(post.scheduled_date),
+    durationMinutes: POST_EVENT_MINUTES,
+    summary: post.platform ? `[${post.platform}] ${title}` : title,
+    description: url ? `${preview}\n\nOpen in Content Hub: ${url}` : preview,
+    url,
+    categories: post.platform ? [post.platform] : undefined,
+    lastModified: post.updated_at ? new Date(post.updated_at) : undefined,
+  };
+}
+
+export function buildICalendar(events: ICalEvent[], options: ICalendarOptions): string {
+  const stamp = formatICalDate(options.now ?? new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${ICAL_PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(options.name)}`,
+    ...(options.description ? [`X-WR-CALDESC:${escapeICalText(options.description)}`] : []),
+    ...(options.refreshMinutes
+      ? [`REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`, `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`]
+      : []),
+  ];
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatICalDate(event.start)}`,
+      `DTEND:${formatICalDate(new Date(event.start.getTime() + event.durationMinutes * 60_000))}`,
+      `SUMMARY:${escapeICalText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeICalText(event.description)}`] : []),
+      ...(event.url ? [`URL:${event.url}`] : []),
+      ...(event.categories?.length ? [`CATEGORIES:${event.categories.map(escapeICalText).join(",")}`] : []),
+      ...(event.lastModified ? [`LAST-MODIFIED:${formatICalDate(event.lastModified)}`] : []),
+      "END:VEVENT"
+    );
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+}
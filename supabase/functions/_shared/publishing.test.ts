@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  createFakePublisher,
+  getRetryDelayMs,
+  MAX_PUBLISH_ATTEMPTS,
+  outcomeToUpdate,
+  publishPost,
+  PublisherRegistry,
+  type PublishablePost,
+} from "./publishing.ts";
+
+const NOW = new Date("2026-10-19T10:00:00.000Z");
+
+const duePost = (overrides: Partial<PublishablePost> = {}): PublishablePost => ({
+  id: "post-1",
+  title: "Launch day",
+  content: "We shipped it.",
+  platform: "LinkedIn",
+  scheduled_date: "2026-10-19T09:59:00.000Z",
+  publish_attempts: 0,
+  ...overrides,
+});
+
+const registryWith = (...publishers: ReturnType<typeof createFakePublisher>[]) => {
+  const registry = new PublisherRegistry();
+  publishers.forEach(publisher => registry.register(publisher));
+  return registry;
+};
+
+describe("publishPost with the fake publisher", () => {
+  it("publishes and records the external post", async () => {
+    const outcome = await publishPost(duePost(), registryWith(createFakePublisher("linkedin")), NOW);
+
+    expect(outcome).toEqual({
+      status: "published",
+      externalId: "fake-linkedin-post-1",
+      url: "https://example.com/linkedin/posts/fake-linkedin-post-1",
+      attempts: 1,
+    });
+    expect(outcomeToUpdate(outcome, NOW)).toEqual({
+      status: "published",
+      publish_attempts: 1,
+      publishing_started_at: null,
+      published_at: NOW.toISOString(),
+      external_post_id: "fake-linkedin-post-1",
+      external_url: "https://example.com/linkedin/posts/fake-linkedin-post-1",
+      last_publish_error: null,
+      next_publish_attempt_at: null,
+    });
+  });
+
+  it("retries transient failures with backoff, then fails after the last attempt", async () => {
+    const registry = registryWith(createFakePublisher("linkedin", { failuresBeforeSuccess: MAX_PUBLISH_ATTEMPTS }));
+    let post = duePost();
+
+    for (let attempt = 1; attempt < MAX_PUBLISH_ATTEMPTS; attempt++) {
+      const outcome = await publishPost(post, registry, NOW);
+      expect(outcome).toMatchObject({ status: "retry", attempts: attempt });
+
+      const update = outcomeToUpdate(outcome, NOW);
+      expect(update).not.toHaveProperty("status");
+      expect(update).toMatchObject({
+        publish_attempts: attempt,
+        publishing_started_at: null,
+        last_publish_error: "Fake linkedin publisher is temporarily unavailable",
+        next_publish_attempt_at: new Date(NOW.getTime() + getRetryDelayMs(attempt)).toISOString(),
+      });
+      post = { ...post, publish_attempts: update.publish_attempts as number };
+    }
+
+    const last = await publishPost(post, registry, NOW);
+    expect(last).toEqual({
+      status: "failed",
+      error: "Fake linkedin publisher is temporarily unavailable",
+      attempts: MAX_PUBLISH_ATTEMPTS,
+    });
+    expect(outcomeToUpdate(last, NOW)).toMatchObject({
+      status: "failed",
+      publish_attempts: MAX_PUBLISH_ATTEMPTS,
+      publishing_started_at: null,
+      next_publish_attempt_at: null,
+    });
+  });
+
+  it("waits one minute, then five, between attempts", () => {
+    expect(getRetryDelayMs(1)).toBe(60_000);
+    expect(getRetryDelayMs(2)).toBe(300_000);
+    expect(getRetryDelayMs(5)).toBe(300_000);
+  });
+
+  it("fails straight away on a non-retryable error", async () => {
+    const outcome = await publishPost(duePost(), registryWith(createFakePublisher("linkedin", { rejectAll: true })), NOW);
+
+    expect(outcome).toEqual({ status: "failed", error: "Fake linkedin publisher rejected the post", attempts: 1 });
+    expect(outcomeToUpdate(outcome, NOW)).toMatchObject({ status: "failed", publishing_started_at: null });
+  });
+
+  it("fails posts whose platform has no publisher", async () => {
+    const registry = registryWith(createFakePublisher("twitter"));
+
+    expect(await publishPost(duePost(), registry, NOW)).toEqual({
+      status: "failed",
+      error: "No publisher is configured for LinkedIn",
+      attempts: 1,
+    });
+    expect(await publishPost(duePost({ platform: null }), registry, NOW)).toEqual({
+      status: "failed",
+      error: "The post has no platform",
+      attempts: 1,
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Platform publishing for the publish-due-posts worker
+ * Publishers are pluggable: each platform registers an implementation of PlatformPublisher, and
+ * the worker only decides what happens to the post afterwards (published, retry later, failed).
+ * Free of imports like icalendar.ts, so publishing.test.ts drives it with the fake publisher
+ * under Vitest.
+ */
+
+// The subset of a content post a publisher needs
+export interface PublishablePost {
+  id: string;
+  title?: string | null;
+  content: string;
+  platform?: string | null;
+  scheduled_date?: string | null;
+  publish_attempts?: number | null;
+}
+
+export interface PublishResult {
+  externalId: string;
+  url?: string;
+}
+
+export interface PlatformPublisher {
+  // Lowercase platform name as stored on content_posts.platform
+  platform: string;
+  publish(post: PublishablePost): Promise<PublishResult>;
+}
+
+/**
+ * Thrown by publishers; retryable errors (rate limits, timeouts, 5xx) are tried again with backoff,
+ * anything else fails the post straight away
+ */
+export class PublishError extends Error {
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = "PublishError";
+    this.retryable = retryable;
+  }
+}
+
+export type PublishOutcome =
+  | { status: "published"; externalId: string; url?: string; attempts: number }
+  | { status: "retry"; error: string; attempts: number; nextAttemptAt: Date }
+  | { status: "failed"; error: string; attempts: number };
+
+export const MAX_PUBLISH_ATTEMPTS = 3;
+// Wait before the 2nd and 3rd attempts; raising MAX_PUBLISH_ATTEMPTS reuses the last delay
+const RETRY_DELAYS_MINUTES = [1, 5];
+
+export function getRetryDelayMs(attempt: number): number {
+  const index = Math.min(Math.max(attempt, 1), RETRY_DELAYS_MINUTES.length) - 1;
+  return RETRY_DELAYS_MINUTES[index] * 60_000;
+}
+
+export class PublisherRegistry {
+  private publishers = new Map<string, PlatformPublisher>();
+
+  register(publisher: PlatformPublisher): this {
+    this.publishers.set(publisher.platform.toLowerCase(), publisher);
+    return this;
+  }
+
+  get(platform: string | null | undefined): PlatformPublisher | undefined {
+    return platform ? this.publishers.get(platform.toLowerCase()) : undefined;
+  }
+}
+
+export interface FakePublisherOptions {
+  // Fail this many calls before succeeding, to walk posts through the retry path
+  failuresBeforeSuccess?: number;
+  // Fail every call with a non-retryable error
+  rejectAll?: boolean;
+}
+
+/**
+ * Publisher that pretends to post: returns a stable fake id and URL without calling any API
+ * Used for local development (PUBLISHER_MODE=fake) and by publishing.test.ts.
+ */
+export function createFakePublisher(platform: string, options: FakePublisherOptions = {}): PlatformPublisher {
+  let failuresLeft = options.failuresBeforeSuccess ?? 0;
+  return {
+    platform,
+    async publish(post) {
+      if (options.rejectAll) {
+        throw new PublishError(`Fake ${platform} publisher rejected the post`, false);
+      }
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new PublishError(`Fake ${platform} publisher is temporarily unavailable`, true);
+      }
+      const externalId = `fake-${platform}-${post.id}`;
+      return { externalId, url: `https://example.com/${platform}/posts/${externalId}` };
+    },
+  };
+}
+
+/**
+ * Dispatch one due post and decide its next state; never throws
+ */
+export async function publishPost(
+  post: PublishablePost,
+  registry: PublisherRegistry,
+  now: Date = new Date()
+): Promise<PublishOutcome> {
+  const attempts = (post.publish_attempts ?? 0) + 1;
+  const publisher = registry.get(post.platform);
+  if (!publisher) {
+    const error = post.platform ? `No publisher is configured for ${post.platform}` : "The post has no platform";
+    return { status: "failed", error, attempts };
+  }
+
+  try {
+    const result = await publisher.publish(post);
+    return { status: "published", externalId: result.externalId, url: result.url, attempts };
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err);
+    // Unknown errors are treated as transient; publishers mark the permanent ones
+    const retryable = err instanceof PublishError ? err.retryable : true;
+    if (retryable && attempts < MAX_PUBLISH_ATTEMPTS) {
+      return { status: "retry", error, attempts, nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(attempts)) };
+    }
+    return { status: "failed", error, attempts };
+  }
+}
+
+/**
+ * content_posts columns to write for an outcome; always releases the worker's lease
+ */
+export function outcomeToUpdate(outcome: PublishOutcome, now: Date = new Date()): Record<string, unknown> {
+  const common = { publish_attempts: outcome.attempts, publishing_started_at: null };
+  switch (outcome.status) {
+    case "published":
+      return {
+        ...common,
+        status: "published",
+        published_at: now.toISOString(),
+        external_post_id: outcome.externalId,
+        external_url: outcome.url ?? null,
+        last_publish_error: null,
+        next_publish_attempt_at: null,
+      };
+    case "retry":
+      return {
+        ...common,
+        last_publish_error: outcome.error,
+        next_publish_attempt_at: outcome.nextAttemptAt.toISOString(),
+      };
+    case "failed":
+      return {
+        ...common,
+        status: "failed",
+        last_publish_error: outcome.error,
+        next_publish_attempt_at: null,
+      };
+  }
+}
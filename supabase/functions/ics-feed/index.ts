@@ -0,0 +1,92 @@
+/**
+ * Live iCalendar feed of scheduled posts for calendar subscriptions
+ * GET /functions/v1/ics-feed?token=<calendar_feed_tokens.token>
+ *
+ * Calendar apps can't send an Authorization header, so deploy without JWT verification:
+ *   supabase functions deploy ics-feed --no-verify-jwt
+ * Set APP_URL (the app's public origin) as a function secret so events link back to the post.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildICalendar, ICAL_CONTENT_TYPE, postToICalEvent, type ICalEvent } from "../_shared/icalendar.ts";
+
+// Window served to subscribers: recent history plus everything planned for the next year
+const FEED_PAST_DAYS = 30;
+const FEED_FUTURE_DAYS = 365;
+const FEED_REFRESH_MINUTES = 60;
+const DAY_MS = 86_400_000;
+
+const textResponse = (status: number, message: string) =>
+  new Response(message, { status, headers: { "Content-Type": "text/plain; charset=utf-8" } });
+
+Deno.serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return textResponse(405, "Method not allowed");
+  }
+
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) {
+    return textResponse(401, "Missing feed token");
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: feed, error: feedError } = await supabase
+    .from("calendar_feed_tokens")
+    .select("id, label")
+    .eq("token", token)
+    .is("revoked_at", null)
+    .maybeSingle();
+
+  if (feedError) {
+    console.error("Failed to look up feed token:", feedError.message);
+    return textResponse(500, "Failed to load the calendar feed");
+  }
+  if (!feed) {
+    // Same answer for unknown and revoked tokens so tokens can't be probed
+    return textResponse(404, "Calendar feed not found");
+  }
+
+  const now = Date.now();
+  const { data: posts, error: postsError } = await supabase
+    .from("content_posts")
+    .select("id, title, content, platform, scheduled_date, updated_at")
+    .eq("status", "scheduled")
+    .is("deleted_at", null)
+    .gte("scheduled_date", new Date(now - FEED_PAST_DAYS * DAY_MS).toISOString())
+    .lte("scheduled_date", new Date(now + FEED_FUTURE_DAYS * DAY_MS).toISOString())
+    .order("scheduled_date", { ascending: true });
+
+  if (postsError) {
+    console.error("Failed to load scheduled posts:", postsError.message);
+    return textResponse(500, "Failed to load the calendar feed");
+  }
+
+  // Best effort; a failed bookkeeping write shouldn't break the subscription
+  supabase
+    .from("calendar_feed_tokens")
+    .update({ last_accessed_at: new Date(now).toISOString() })
+    .eq("id", feed.id)
+    .then(({ error }) => error && console.error("Failed to record feed access:", error.message));
+
+  const appUrl = Deno.env.get("APP_URL") ?? undefined;
+  const events = (posts ?? [])
+    .map(post => postToICalEvent(post, appUrl))
+    .filter((event): event is ICalEvent => event !== null);
+
+  const body = buildICalendar(events, {
+    name: feed.label ? `Content Hub – ${feed.label}` : "Content Hub",
+    description: "Scheduled social posts",
+    refreshMinutes: FEED_REFRESH_MINUTES,
+  });
+
+  return new Response(req.method === "HEAD" ? null : body, {
+    headers: {
+      "Content-Type": ICAL_CONTENT_TYPE,
+      "Content-Disposition": 'inline; filename="content-calendar.ics"',
+      "Cache-Control": `private, max-age=${FEED_REFRESH_MINUTES * 60}`,
+    },
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Background publisher: moves scheduled posts whose time has come to published
+ * POST /functions/v1/publish-due-posts
+ *
+ * Run it every minute with pg_cron and pg_net, authenticating with the service role key:
+ *   select cron.schedule('publish-due-posts', '* * * * *', $$
+ *     select net.http_post(
+ *       url := '<SUPABASE_URL>/functions/v1/publish-due-posts',
+ *       headers := jsonb_build_object('Authorization', 'Bearer <SERVICE_ROLE_KEY>')
+ *     );
+ *   $$);
+ *
+ * Set PUBLISHER_MODE=fake to publish through the fake publisher for every platform while real
+ * platform integrations are not configured. To try the failure handling, FAKE_PUBLISH_FAILURES=n
+ * fails each platform's first n calls in a run (retried later), and PUBLISHER_MODE=fake-reject
+ * fails every post outright.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  createFakePublisher,
+  outcomeToUpdate,
+  publishPost,
+  PublisherRegistry,
+  type PublishablePost,
+} from "../_shared/publishing.ts";
+
+const BATCH_SIZE = 20;
+// A run that takes longer than this is presumed dead and its posts can be claimed again
+const LEASE_SECONDS = 300;
+const KNOWN_PLATFORMS = ["linkedin", "twitter", "facebook", "instagram"];
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+function createRegistry(): PublisherRegistry {
+  const registry = new PublisherRegistry();
+  const mode = Deno.env.get("PUBLISHER_MODE");
+  if (mode === "fake" || mode === "fake-reject") {
+    const failuresBeforeSuccess = Number(Deno.env.get("FAKE_PUBLISH_FAILURES") ?? 0) || 0;
+    KNOWN_PLATFORMS.forEach(platform =>
+      registry.register(createFakePublisher(platform, { failuresBeforeSuccess, rejectAll: mode === "fake-reject" }))
+    );
+  }
+  // Real platform publishers register here as their integrations are added
+  return registry;
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse(405, { error: "Method not allowed" });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: posts, error: claimError } = await supabase.rpc("claim_due_posts", {
+    batch_size: BATCH_SIZE,
+    lease_seconds: LEASE_SECONDS,
+  });
+
+  if (claimError) {
+    console.error("Failed to claim due posts:", claimError.message);
+    return jsonResponse(500, { error: "Failed to claim due posts" });
+  }
+
+  const registry = createRegistry();
+  const summary = { claimed: posts?.length ?? 0, published: 0, retrying: 0, failed: 0 };
+
+  // One at a time keeps platform rate limits simple; batches are small
+  for (const post of (posts ?? []) as PublishablePost[]) {
+    const now = new Date();
+    const outcome = await publishPost(post, registry, now);
+
+    // Only touch posts that are still scheduled for the claimed time, in case someone unscheduled
+    // or rescheduled it mid-run
+    const { error: updateError } = await supabase
+      .from("content_posts")
+      .update(outcomeToUpdate(outcome, now))
+      .eq("id", post.id)
+      .eq("status", "scheduled")
+      .eq("scheduled_date", post.scheduled_date);
+
+    if (updateError) {
+      // The lease expires and a later run retries; the post may then be published twice
+      console.error(`Failed to record publish outcome for ${post.id}:`, updateError.message);
+    }
+
+    if (outcome.status === "published") summary.published++;
+    else if (outcome.status === "retry") summary.retrying++;
+    else summary.failed++;
+
+    if (outcome.status !== "published") {
+      console.warn(`Publishing ${post.id} (attempt ${outcome.attempts}) did not succeed: ${outcome.error}`);
+    }
+  }
+
+  return jsonResponse(200, summary);
+});
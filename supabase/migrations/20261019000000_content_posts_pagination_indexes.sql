@@ -0,0 +1,14 @@
+-- Migration: Pagination indexes for content_posts
+-- Description: Supports keyset pagination on (created_at, id) / (updated_at, id) and tag filters
+-- Created: 2026-10-19
+
+-- Keyset pagination: ORDER BY <sort column>, id with a (<sort column>, id) cursor
+CREATE INDEX IF NOT EXISTS idx_content_posts_created_at_id
+  ON public.content_posts USING BTREE (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_content_posts_updated_at_id
+  ON public.content_posts USING BTREE (updated_at DESC, id DESC);
+
+-- Tag containment filter (tags @> ARRAY[...])
+CREATE INDEX IF NOT EXISTS idx_content_posts_tags
+  ON public.content_posts USING GIN (tags);
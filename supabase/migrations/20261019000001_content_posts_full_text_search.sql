@@ -0,0 +1,57 @@
+-- Migration: Full-text search for content_posts
+-- Description: Adds a weighted tsvector over title/content/tags, a GIN index and a ranked search function
+-- Created: 2026-10-19
+
+-- array_to_string is only STABLE, so generated columns need an IMMUTABLE wrapper
+CREATE OR REPLACE FUNCTION public.immutable_array_to_string(arr TEXT[], sep TEXT)
+RETURNS TEXT AS $$
+  SELECT array_to_string(arr, sep);
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE;
+
+-- Title and tags weigh more than body text when ranking
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(public.immutable_array_to_string(tags, ' '), '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_content_posts_search_vector
+  ON public.content_posts USING GIN (search_vector);
+
+-- Ranked search with highlighted snippets.
+-- search_query is a to_tsquery expression built by the client (see src/lib/searchQuery.ts).
+-- Snippets mark matches with ⟦ and ⟧ so the client can render highlights without injecting HTML.
+CREATE OR REPLACE FUNCTION public.search_content_posts(
+  search_query TEXT,
+  filter_status TEXT DEFAULT NULL,
+  filter_content_type TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (post JSONB, rank REAL, snippet TEXT, total_count BIGINT) AS $$
+  SELECT
+    to_jsonb(p) - 'search_vector' AS post,
+    ts_rank_cd(p.search_vector, q) AS rank,
+    ts_headline(
+      'english',
+      p.content,
+      q,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'
+    ) AS snippet,
+    count(*) OVER () AS total_count
+  FROM public.content_posts p, to_tsquery('english', search_query) q
+  WHERE p.search_vector @@ q
+    AND (filter_status IS NULL OR p.status = filter_status)
+    AND (filter_content_type IS NULL OR p.content_type = filter_content_type)
+    AND (filter_platform IS NULL OR p.platform ILIKE filter_platform)
+    AND (filter_tags IS NULL OR p.tags @> filter_tags)
+  ORDER BY rank DESC, p.created_at DESC, p.id DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.search_content_posts IS 'Ranked full-text search over content_posts with ts_headline snippets';
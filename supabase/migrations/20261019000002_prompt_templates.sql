@@ -0,0 +1,60 @@
+-- Migration: Prompt template registry
+-- Description: Versioned prompt templates so system/user prompts can change without a deploy.
+--              Versions are immutable; editing means forking into a new version. At most one
+--              version per template key is active, and keys without an active version fall back
+--              to the built-in defaults shipped with the app.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  template_key VARCHAR(50) NOT NULL,
+  version INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  description TEXT NULL,
+  required_variables TEXT[] NOT NULL DEFAULT '{}',
+  forked_from_version INTEGER NULL, -- NULL when forked from the built-in default
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT prompt_templates_pkey PRIMARY KEY (id),
+  CONSTRAINT prompt_templates_key_version_unique UNIQUE (template_key, version),
+  CONSTRAINT prompt_templates_version_check CHECK (version > 0)
+);
+
+-- Only one active version per template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_one_active
+  ON public.prompt_templates (template_key)
+  WHERE is_active;
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on prompt_templates"
+  ON public.prompt_templates
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Swap the active version in one statement so there is never a moment with two (or zero by accident)
+-- Passing NULL deactivates every version of the key, reverting to the built-in default
+CREATE OR REPLACE FUNCTION public.activate_prompt_template(target_key TEXT, target_version INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.prompt_templates
+  SET is_active = false
+  WHERE template_key = target_key AND is_active;
+
+  IF target_version IS NOT NULL THEN
+    UPDATE public.prompt_templates
+    SET is_active = true
+    WHERE template_key = target_key AND version = target_version;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Prompt template % version % does not exist', target_key, target_version;
+    END IF;
+  END IF;
+END;
+$$;
+
+COMMENT ON TABLE public.prompt_templates IS 'Versioned system/user prompt templates; the active version of each key is used for generation';
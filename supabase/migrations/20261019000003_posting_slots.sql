@@ -0,0 +1,33 @@
+-- Migration: Recurring posting slots
+-- Description: Weekly posting slots per platform (e.g. LinkedIn Tue/Thu 09:00). "Add to queue"
+--              schedules a post into the next slot occurrence that no scheduled post on the same
+--              platform occupies yet. Slot times are wall-clock times in the workspace timezone
+--              (workspace_settings, added in 20261019000004).
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.posting_slots (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  platform VARCHAR(50) NOT NULL,
+  day_of_week SMALLINT NOT NULL, -- 0 = Sunday, matching Date.getDay()
+  time_of_day TIME NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT posting_slots_pkey PRIMARY KEY (id),
+  CONSTRAINT posting_slots_day_of_week_check CHECK (day_of_week BETWEEN 0 AND 6),
+  CONSTRAINT posting_slots_unique UNIQUE (platform, day_of_week, time_of_day)
+);
+
+CREATE INDEX IF NOT EXISTS idx_posting_slots_platform
+  ON public.posting_slots (platform)
+  WHERE is_active;
+
+ALTER TABLE public.posting_slots ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on posting_slots"
+  ON public.posting_slots
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.posting_slots IS 'Recurring weekly posting slots per platform used by the posting queue';
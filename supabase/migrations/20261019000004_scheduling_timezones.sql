@@ -0,0 +1,37 @@
+-- Migration: Timezone-aware scheduling
+-- Description: scheduled_date stays a UTC instant; scheduled_timezone records the IANA zone the
+--              post was scheduled in so editors elsewhere see and keep the intended wall-clock time.
+--              workspace_settings holds the workspace default zone, which also anchors posting slots.
+-- Created: 2026-10-19
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS scheduled_timezone VARCHAR(64) NULL;
+
+COMMENT ON COLUMN public.content_posts.scheduled_timezone IS 'IANA timezone the post was scheduled in; NULL for posts scheduled before timezones were tracked';
+
+-- Single-row table until there are multiple workspaces
+CREATE TABLE IF NOT EXISTS public.workspace_settings (
+  id VARCHAR(20) NOT NULL DEFAULT 'default',
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT workspace_settings_pkey PRIMARY KEY (id),
+  CONSTRAINT workspace_settings_single_row CHECK (id = 'default')
+);
+
+CREATE TRIGGER update_workspace_settings_updated_at
+  BEFORE UPDATE ON public.workspace_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.workspace_settings ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on workspace_settings"
+  ON public.workspace_settings
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.workspace_settings IS 'Workspace-wide preferences such as the default scheduling timezone';
+COMMENT ON COLUMN public.posting_slots.time_of_day IS 'Wall-clock time in the workspace timezone';
@@ -0,0 +1,27 @@
+-- Migration: Calendar subscription feed tokens
+-- Description: Secret tokens for the ics-feed edge function. Calendar apps can't send auth headers,
+--              so the token in the feed URL is the credential; revoking it disables the URL.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  -- Two UUIDs' worth of randomness, hex encoded, without depending on pgcrypto
+  token VARCHAR(64) NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  label VARCHAR(100) NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  last_accessed_at TIMESTAMP WITH TIME ZONE NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE NULL,
+  CONSTRAINT calendar_feed_tokens_pkey PRIMARY KEY (id),
+  CONSTRAINT calendar_feed_tokens_token_unique UNIQUE (token)
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on calendar_feed_tokens"
+  ON public.calendar_feed_tokens
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.calendar_feed_tokens IS 'Tokens that authorise the ics-feed edge function URL for calendar subscriptions';
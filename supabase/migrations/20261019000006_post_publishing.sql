@@ -0,0 +1,56 @@
+-- Migration: Publishing worker state
+-- Description: The publish-due-posts edge function claims scheduled posts whose time has come,
+--              dispatches them to a platform publisher and records the outcome. Transient errors
+--              are retried with backoff; posts that run out of attempts (or hit a permanent error)
+--              move to the new 'failed' status so they are visible and can be retried by hand.
+-- Created: 2026-10-19
+
+ALTER TABLE public.content_posts
+  DROP CONSTRAINT IF EXISTS content_posts_status_check;
+
+ALTER TABLE public.content_posts
+  ADD CONSTRAINT content_posts_status_check CHECK (
+    status IN ('draft', 'scheduled', 'published', 'failed', 'archived')
+  );
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE NULL,
+  ADD COLUMN IF NOT EXISTS external_post_id TEXT NULL,
+  ADD COLUMN IF NOT EXISTS external_url TEXT NULL,
+  ADD COLUMN IF NOT EXISTS publish_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_publish_error TEXT NULL,
+  ADD COLUMN IF NOT EXISTS next_publish_attempt_at TIMESTAMP WITH TIME ZONE NULL,
+  -- Set while a worker holds the post; a stale value means the worker died and the lease expired
+  ADD COLUMN IF NOT EXISTS publishing_started_at TIMESTAMP WITH TIME ZONE NULL;
+
+-- The worker's query: scheduled posts in time order
+CREATE INDEX IF NOT EXISTS idx_content_posts_due
+  ON public.content_posts (scheduled_date)
+  WHERE status = 'scheduled';
+
+-- Claim up to batch_size due posts for one worker run. SKIP LOCKED lets overlapping runs
+-- (a slow run and the next cron tick) take disjoint batches instead of publishing twice.
+CREATE OR REPLACE FUNCTION public.claim_due_posts(batch_size INTEGER DEFAULT 10, lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.content_posts
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.content_posts AS p
+  SET publishing_started_at = NOW()
+  WHERE p.id IN (
+    SELECT c.id
+    FROM public.content_posts AS c
+    WHERE c.status = 'scheduled'
+      AND c.scheduled_date <= NOW()
+      AND (c.next_publish_attempt_at IS NULL OR c.next_publish_attempt_at <= NOW())
+      AND (c.publishing_started_at IS NULL OR c.publishing_started_at < NOW() - make_interval(secs => lease_seconds))
+    ORDER BY c.scheduled_date
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING p.*;
+END;
+$$;
+
+COMMENT ON FUNCTION public.claim_due_posts(INTEGER, INTEGER) IS 'Lease due scheduled posts to a publishing worker run';
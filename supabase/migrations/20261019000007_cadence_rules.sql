@@ -0,0 +1,54 @@
+-- Migration: Scheduling cadence rules
+-- Description: Per-platform cadence rules (minimum gap between posts, maximum posts per day) and
+--              blackout dates. Scheduling checks a post against them and warns with alternative
+--              slots; the rules never block a save. Days are counted in the workspace timezone.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.cadence_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  platform VARCHAR(50) NOT NULL,
+  min_gap_minutes INTEGER NULL, -- NULL = no minimum gap
+  max_posts_per_day INTEGER NULL, -- NULL = no daily limit
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT cadence_rules_pkey PRIMARY KEY (id),
+  CONSTRAINT cadence_rules_platform_unique UNIQUE (platform),
+  CONSTRAINT cadence_rules_min_gap_check CHECK (min_gap_minutes IS NULL OR min_gap_minutes > 0),
+  CONSTRAINT cadence_rules_max_posts_check CHECK (max_posts_per_day IS NULL OR max_posts_per_day > 0)
+);
+
+CREATE TRIGGER update_cadence_rules_updated_at
+  BEFORE UPDATE ON public.cadence_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.blackout_dates (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  date DATE NOT NULL,
+  platform VARCHAR(50) NULL, -- NULL = every platform
+  label VARCHAR(255) NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT blackout_dates_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blackout_dates_date
+  ON public.blackout_dates (date);
+
+ALTER TABLE public.cadence_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.blackout_dates ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on cadence_rules"
+  ON public.cadence_rules
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow all operations on blackout_dates"
+  ON public.blackout_dates
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.cadence_rules IS 'Per-platform posting cadence checked when posts are scheduled';
+COMMENT ON TABLE public.blackout_dates IS 'Days nothing (or nothing on one platform) should be published';
@@ -0,0 +1,53 @@
+-- Migration: Bulk post actions
+-- Description: Batch operations for the Post Library whose per-post values differ, so each bulk
+--              action still runs as a single request. Uniform changes (status, platform, delete)
+--              use plain filtered updates and need no function.
+-- Created: 2026-10-19
+
+-- Add and remove tags on many posts at once, keeping each post's existing tag order
+CREATE OR REPLACE FUNCTION public.bulk_update_post_tags(
+  post_ids UUID[],
+  add_tags TEXT[] DEFAULT '{}',
+  remove_tags TEXT[] DEFAULT '{}'
+)
+RETURNS SETOF public.content_posts AS $$
+  UPDATE public.content_posts AS p
+  SET tags = (
+    SELECT COALESCE(array_agg(merged.tag ORDER BY merged.position), '{}')
+    FROM (
+      SELECT combined.tag, MIN(combined.position) AS position
+      FROM (
+        SELECT existing.tag, existing.position
+        FROM unnest(COALESCE(p.tags, '{}')) WITH ORDINALITY AS existing(tag, position)
+        UNION ALL
+        -- Added tags go after the existing ones
+        SELECT added.tag, cardinality(COALESCE(p.tags, '{}')) + added.position
+        FROM unnest(add_tags) WITH ORDINALITY AS added(tag, position)
+      ) AS combined
+      WHERE NOT (combined.tag = ANY(remove_tags))
+      GROUP BY combined.tag
+    ) AS merged
+  )
+  WHERE p.id = ANY(post_ids)
+  RETURNING p.*;
+$$ LANGUAGE sql;
+
+-- Schedule many posts at their own times: assignments is [{ id, platform, scheduled_date, scheduled_timezone }]
+-- Publishing state is reset so previously failed posts get a fresh set of attempts
+CREATE OR REPLACE FUNCTION public.bulk_schedule_posts(assignments JSONB)
+RETURNS SETOF public.content_posts AS $$
+  UPDATE public.content_posts AS p
+  SET status = 'scheduled',
+      platform = a.platform,
+      scheduled_date = a.scheduled_date,
+      scheduled_timezone = a.scheduled_timezone,
+      publish_attempts = 0,
+      last_publish_error = NULL,
+      next_publish_attempt_at = NULL
+  FROM jsonb_to_recordset(assignments) AS a(id UUID, platform VARCHAR(50), scheduled_date TIMESTAMPTZ, scheduled_timezone VARCHAR(64))
+  WHERE p.id = a.id
+  RETURNING p.*;
+$$ LANGUAGE sql;
+
+COMMENT ON FUNCTION public.bulk_update_post_tags(UUID[], TEXT[], TEXT[]) IS 'Add and remove tags across several posts in one statement';
+COMMENT ON FUNCTION public.bulk_schedule_posts(JSONB) IS 'Schedule several posts, each at its own time, in one statement';
@@ -0,0 +1,121 @@
+-- Migration: Soft delete with trash
+-- Description: Deleting a post now sets deleted_at instead of removing the row, so it can be restored
+--              from the Trash. Trashed posts are left out of listings, search, the calendar feed and
+--              the publishing worker, and are purged for good once they have been in the Trash longer
+--              than the workspace retention window.
+-- Created: 2026-10-19
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE NULL;
+
+COMMENT ON COLUMN public.content_posts.deleted_at IS 'When the post was moved to the Trash; NULL for live posts';
+
+-- The Trash listing and the purge only ever look at trashed rows
+CREATE INDEX IF NOT EXISTS idx_content_posts_deleted_at
+  ON public.content_posts (deleted_at)
+  WHERE deleted_at IS NOT NULL;
+
+ALTER TABLE public.workspace_settings
+  ADD COLUMN IF NOT EXISTS trash_retention_days INTEGER NOT NULL DEFAULT 30
+  CONSTRAINT workspace_settings_trash_retention_check CHECK (trash_retention_days BETWEEN 1 AND 365);
+
+COMMENT ON COLUMN public.workspace_settings.trash_retention_days IS 'Days a trashed post is kept before it is permanently deleted';
+
+-- Search gains a trash switch; the old signature is dropped so calls don't become ambiguous
+DROP FUNCTION IF EXISTS public.search_content_posts(TEXT, TEXT, TEXT, TEXT, TEXT[], INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_content_posts(
+  search_query TEXT,
+  filter_status TEXT DEFAULT NULL,
+  filter_content_type TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24,
+  result_offset INTEGER DEFAULT 0,
+  filter_trashed BOOLEAN DEFAULT FALSE
+)
+RETURNS TABLE (post JSONB, rank REAL, snippet TEXT, total_count BIGINT) AS $$
+  SELECT
+    to_jsonb(p) - 'search_vector' AS post,
+    ts_rank_cd(p.search_vector, q) AS rank,
+    ts_headline(
+      'english',
+      p.content,
+      q,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'
+    ) AS snippet,
+    count(*) OVER () AS total_count
+  FROM public.content_posts p, to_tsquery('english', search_query) q
+  WHERE p.search_vector @@ q
+    AND (p.deleted_at IS NOT NULL) = filter_trashed
+    AND (filter_status IS NULL OR p.status = filter_status)
+    AND (filter_content_type IS NULL OR p.content_type = filter_content_type)
+    AND (filter_platform IS NULL OR p.platform ILIKE filter_platform)
+    AND (filter_tags IS NULL OR p.tags @> filter_tags)
+  ORDER BY rank DESC, p.created_at DESC, p.id DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.search_content_posts IS 'Ranked full-text search over live (or, with filter_trashed, trashed) content_posts with ts_headline snippets';
+
+-- Same as before, but a post trashed while scheduled is never published
+CREATE OR REPLACE FUNCTION public.claim_due_posts(batch_size INTEGER DEFAULT 10, lease_seconds INTEGER DEFAULT 300)
+RETURNS SETOF public.content_posts
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.content_posts AS p
+  SET publishing_started_at = NOW()
+  WHERE p.id IN (
+    SELECT c.id
+    FROM public.content_posts AS c
+    WHERE c.status = 'scheduled'
+      AND c.deleted_at IS NULL
+      AND c.scheduled_date <= NOW()
+      AND (c.next_publish_attempt_at IS NULL OR c.next_publish_attempt_at <= NOW())
+      AND (c.publishing_started_at IS NULL OR c.publishing_started_at < NOW() - make_interval(secs => lease_seconds))
+    ORDER BY c.scheduled_date
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING p.*;
+END;
+$$;
+
+-- Permanently delete posts that have outlived the retention window; returns how many were removed
+CREATE OR REPLACE FUNCTION public.purge_expired_trash()
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  retention INTEGER;
+  purged INTEGER;
+BEGIN
+  SELECT trash_retention_days INTO retention
+  FROM public.workspace_settings
+  WHERE id = 'default';
+
+  DELETE FROM public.content_posts
+  WHERE deleted_at IS NOT NULL
+    AND deleted_at < NOW() - make_interval(days => COALESCE(retention, 30));
+
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+COMMENT ON FUNCTION public.purge_expired_trash() IS 'Permanently delete trashed posts older than the workspace trash retention';
+
+-- Purge nightly where pg_cron is available; elsewhere run `select public.purge_expired_trash();` on a schedule
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('purge-expired-trash', '15 3 * * *', 'select public.purge_expired_trash()');
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; schedule public.purge_expired_trash() another way';
+  END IF;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Migration: Saved views and advanced Post Library filters
+-- Description: saved_views stores named filter sets for the Post Library. There is no sign-in yet,
+--              so views belong to an owner_key the browser generates and keeps; it becomes the
+--              auth user id once authentication is added. search_content_posts learns the new
+--              filters (any-tag matching, created/scheduled ranges, category and tone) so search
+--              results honour the same filters as plain listings.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.saved_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  owner_key VARCHAR(64) NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT saved_views_pkey PRIMARY KEY (id),
+  -- Saving under an existing name replaces that view
+  CONSTRAINT saved_views_owner_name_unique UNIQUE (owner_key, name),
+  CONSTRAINT saved_views_name_check CHECK (length(trim(name)) > 0)
+);
+
+CREATE TRIGGER update_saved_views_updated_at
+  BEFORE UPDATE ON public.saved_views
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.saved_views ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on saved_views"
+  ON public.saved_views
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+COMMENT ON TABLE public.saved_views IS 'Named Post Library filter sets';
+COMMENT ON COLUMN public.saved_views.owner_key IS 'Browser-generated owner id until authentication is added';
+
+-- Category and tone filters read source_data
+CREATE INDEX IF NOT EXISTS idx_content_posts_source_category
+  ON public.content_posts ((source_data->>'category'));
+
+DROP FUNCTION IF EXISTS public.search_content_posts(TEXT, TEXT, TEXT, TEXT, TEXT[], INTEGER, INTEGER, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.search_content_posts(
+  search_query TEXT,
+  filter_status TEXT DEFAULT NULL,
+  filter_content_type TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24,
+  result_offset INTEGER DEFAULT 0,
+  filter_trashed BOOLEAN DEFAULT FALSE,
+  filter_tags_any BOOLEAN DEFAULT FALSE,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_scheduled_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_scheduled_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_tone TEXT DEFAULT NULL
+)
+RETURNS TABLE (post JSONB, rank REAL, snippet TEXT, total_count BIGINT) AS $$
+  SELECT
+    to_jsonb(p) - 'search_vector' AS post,
+    ts_rank_cd(p.search_vector, q) AS rank,
+    ts_headline(
+      'english',
+      p.content,
+      q,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'
+    ) AS snippet,
+    count(*) OVER () AS total_count
+  FROM public.content_posts p, to_tsquery('english', search_query) q
+  WHERE p.search_vector @@ q
+    AND (p.deleted_at IS NOT NULL) = filter_trashed
+    AND (filter_status IS NULL OR p.status = filter_status)
+    AND (filter_content_type IS NULL OR p.content_type = filter_content_type)
+    AND (filter_platform IS NULL OR p.platform ILIKE filter_platform)
+    AND (filter_tags IS NULL OR (CASE WHEN filter_tags_any THEN p.tags && filter_tags ELSE p.tags @> filter_tags END))
+    AND (filter_created_after IS NULL OR p.created_at >= filter_created_after)
+    AND (filter_created_before IS NULL OR p.created_at < filter_created_before)
+    AND (filter_scheduled_after IS NULL OR p.scheduled_date >= filter_scheduled_after)
+    AND (filter_scheduled_before IS NULL OR p.scheduled_date < filter_scheduled_before)
+    AND (filter_category IS NULL OR p.source_data->>'category' = filter_category)
+    AND (filter_tone IS NULL OR p.source_data->>'tone' = filter_tone)
+  ORDER BY rank DESC, p.created_at DESC, p.id DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION public.search_content_posts IS 'Ranked full-text search over live (or, with filter_trashed, trashed) content_posts with ts_headline snippets';
@@ -0,0 +1,196 @@
+-- Migration: Tag management
+-- Description: A tags table with colours and descriptions next to content_posts.tags, which keeps
+--              storing tag names so existing filters and search are unchanged. Tag names are unique
+--              regardless of case and posts always use the registered spelling, so "AI" and "ai"
+--              can no longer exist side by side. Existing tags are registered under their most used
+--              spelling. Rename, merge and delete rewrite every post carrying the tag.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  color VARCHAR(7) NULL, -- #rrggbb; NULL = default badge colour
+  description TEXT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT tags_pkey PRIMARY KEY (id),
+  CONSTRAINT tags_name_check CHECK (length(trim(name)) > 0),
+  CONSTRAINT tags_color_check CHECK (color IS NULL OR color ~ '^#[0-9a-fA-F]{6}$')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_name_lower
+  ON public.tags (lower(name));
+
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on tags"
+  ON public.tags
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+-- Register existing tags, choosing the most used spelling of each
+INSERT INTO public.tags (name)
+SELECT DISTINCT ON (lower(used.tag)) used.tag
+FROM (
+  SELECT trim(tag) AS tag, count(*) AS uses
+  FROM public.content_posts, unnest(tags) AS tag
+  WHERE trim(tag) <> ''
+  GROUP BY trim(tag)
+) AS used
+ORDER BY lower(used.tag), used.uses DESC, used.tag
+ON CONFLICT DO NOTHING;
+
+-- A post's tags in their registered spelling, without repeats, in the post's order;
+-- names that aren't registered are dropped
+CREATE OR REPLACE FUNCTION public.canonical_tags(input TEXT[])
+RETURNS TEXT[] AS $$
+  SELECT COALESCE(array_agg(canonical.name ORDER BY canonical.position), '{}')
+  FROM (
+    SELECT t.name, MIN(given.position) AS position
+    FROM unnest(COALESCE(input, '{}')) WITH ORDINALITY AS given(tag, position)
+    JOIN public.tags t ON lower(t.name) = lower(trim(given.tag))
+    GROUP BY t.name
+  ) AS canonical;
+$$ LANGUAGE sql STABLE;
+
+UPDATE public.content_posts
+SET tags = public.canonical_tags(tags)
+WHERE cardinality(tags) > 0
+  AND tags IS DISTINCT FROM public.canonical_tags(tags);
+
+-- New tag names typed on a post are registered; every name is stored in its registered spelling
+CREATE OR REPLACE FUNCTION public.normalize_post_tags()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.tags IS NULL OR cardinality(NEW.tags) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.tags (name)
+  SELECT DISTINCT ON (lower(trim(given.tag))) trim(given.tag)
+  FROM unnest(NEW.tags) WITH ORDINALITY AS given(tag, position)
+  WHERE trim(given.tag) <> ''
+  ORDER BY lower(trim(given.tag)), given.position
+  ON CONFLICT ((lower(name))) DO NOTHING;
+
+  NEW.tags = public.canonical_tags(NEW.tags);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER normalize_content_posts_tags
+  BEFORE INSERT OR UPDATE OF tags ON public.content_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.normalize_post_tags();
+
+-- Tags with the number of live (not trashed) posts using each
+CREATE OR REPLACE FUNCTION public.list_tags_with_usage()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  color VARCHAR(7),
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  post_count BIGINT
+) AS $$
+  SELECT t.id, t.name, t.color, t.description, t.created_at, t.updated_at, count(p.id) AS post_count
+  FROM public.tags t
+  LEFT JOIN public.content_posts p
+    ON p.deleted_at IS NULL AND p.tags @> ARRAY[t.name]
+  GROUP BY t.id
+  ORDER BY lower(t.name);
+$$ LANGUAGE sql STABLE;
+
+-- Rename a tag on every post (trashed ones included, so a restore brings back the new name).
+-- Renaming onto another tag's name is refused; that is a merge.
+CREATE OR REPLACE FUNCTION public.rename_tag(target_id UUID, new_name TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  old_name TEXT;
+  updated_count INTEGER;
+BEGIN
+  new_name := trim(new_name);
+  SELECT t.name INTO old_name FROM public.tags t WHERE t.id = target_id;
+  IF old_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.tags t WHERE lower(t.name) = lower(new_name) AND t.id <> target_id) THEN
+    RAISE EXCEPTION 'A tag named "%" already exists; merge the tags instead', new_name;
+  END IF;
+
+  UPDATE public.tags SET name = new_name WHERE id = target_id;
+
+  UPDATE public.content_posts
+  SET tags = array_replace(tags, old_name, new_name)
+  WHERE tags @> ARRAY[old_name];
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Fold tags into one: posts carrying any of them carry the target instead, then the others are removed
+CREATE OR REPLACE FUNCTION public.merge_tags(source_ids UUID[], target_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  target_name TEXT;
+  source_names TEXT[];
+  updated_count INTEGER;
+BEGIN
+  SELECT t.name INTO target_name FROM public.tags t WHERE t.id = target_id;
+  IF target_name IS NULL THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+  SELECT array_agg(t.name) INTO source_names FROM public.tags t WHERE t.id = ANY(source_ids) AND t.id <> target_id;
+  IF source_names IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  -- canonical_tags (via the trigger) drops the repeat when a post already had the target
+  UPDATE public.content_posts AS p
+  SET tags = (
+    SELECT array_agg(CASE WHEN given.tag = ANY(source_names) THEN target_name ELSE given.tag END ORDER BY given.position)
+    FROM unnest(p.tags) WITH ORDINALITY AS given(tag, position)
+  )
+  WHERE p.tags && source_names;
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  DELETE FROM public.tags t WHERE t.id = ANY(source_ids) AND t.id <> target_id;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Remove a tag from every post and delete it
+CREATE OR REPLACE FUNCTION public.delete_tag(target_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  old_name TEXT;
+  updated_count INTEGER;
+BEGIN
+  SELECT t.name INTO old_name FROM public.tags t WHERE t.id = target_id;
+  IF old_name IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  UPDATE public.content_posts
+  SET tags = array_remove(tags, old_name)
+  WHERE tags @> ARRAY[old_name];
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  DELETE FROM public.tags WHERE id = target_id;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE public.tags IS 'Registered post tags; content_posts.tags holds their names';
+COMMENT ON FUNCTION public.list_tags_with_usage() IS 'Tags with the number of live posts using each';
+COMMENT ON FUNCTION public.rename_tag(UUID, TEXT) IS 'Rename a tag and rewrite every post carrying it';
+COMMENT ON FUNCTION public.merge_tags(UUID[], UUID) IS 'Merge tags into one and rewrite every post carrying them';
+COMMENT ON FUNCTION public.delete_tag(UUID) IS 'Delete a tag and remove it from every post';
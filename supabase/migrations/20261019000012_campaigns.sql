@@ -0,0 +1,129 @@
+-- Migration: Campaigns
+-- Description: Campaigns group posts for a multi-week push: a name, a goal, a date range and the
+--              platforms it targets. A post belongs to at most one campaign; deleting a campaign
+--              keeps its posts and just unassigns them. search_content_posts learns a campaign
+--              filter so search results honour it like plain listings.
+-- Created: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  goal TEXT NULL,
+  start_date DATE NOT NULL, -- Days in the workspace timezone, both inclusive
+  end_date DATE NOT NULL,
+  target_platforms TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  CONSTRAINT campaigns_pkey PRIMARY KEY (id),
+  CONSTRAINT campaigns_name_check CHECK (length(trim(name)) > 0),
+  CONSTRAINT campaigns_date_range_check CHECK (end_date >= start_date)
+);
+
+CREATE TRIGGER update_campaigns_updated_at
+  BEFORE UPDATE ON public.campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.campaigns ENABLE ROW LEVEL SECURITY;
+
+-- Allow all operations (since no auth is implemented yet)
+CREATE POLICY "Allow all operations on campaigns"
+  ON public.campaigns
+  FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE public.content_posts
+  ADD COLUMN IF NOT EXISTS campaign_id UUID NULL REFERENCES public.campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_content_posts_campaign_id
+  ON public.content_posts (campaign_id)
+  WHERE campaign_id IS NOT NULL;
+
+-- Campaigns with how many of their live (not trashed) posts are in each status
+CREATE OR REPLACE FUNCTION public.list_campaigns_with_progress()
+RETURNS TABLE (
+  id UUID,
+  name VARCHAR(255),
+  goal TEXT,
+  start_date DATE,
+  end_date DATE,
+  target_platforms TEXT[],
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  total_posts BIGINT,
+  draft_posts BIGINT,
+  scheduled_posts BIGINT,
+  published_posts BIGINT,
+  failed_posts BIGINT,
+  archived_posts BIGINT
+) AS $$
+  SELECT
+    c.id, c.name, c.goal, c.start_date, c.end_date, c.target_platforms, c.created_at, c.updated_at,
+    count(p.id) AS total_posts,
+    count(p.id) FILTER (WHERE p.status = 'draft') AS draft_posts,
+    count(p.id) FILTER (WHERE p.status = 'scheduled') AS scheduled_posts,
+    count(p.id) FILTER (WHERE p.status = 'published') AS published_posts,
+    count(p.id) FILTER (WHERE p.status = 'failed') AS failed_posts,
+    count(p.id) FILTER (WHERE p.status = 'archived') AS archived_posts
+  FROM public.campaigns c
+  LEFT JOIN public.content_posts p
+    ON p.campaign_id = c.id AND p.deleted_at IS NULL
+  GROUP BY c.id
+  ORDER BY c.start_date DESC, c.name;
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS public.search_content_posts(TEXT, TEXT, TEXT, TEXT, TEXT[], INTEGER, INTEGER, BOOLEAN, BOOLEAN, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_content_posts(
+  search_query TEXT,
+  filter_status TEXT DEFAULT NULL,
+  filter_content_type TEXT DEFAULT NULL,
+  filter_platform TEXT DEFAULT NULL,
+  filter_tags TEXT[] DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24,
+  result_offset INTEGER DEFAULT 0,
+  filter_trashed BOOLEAN DEFAULT FALSE,
+  filter_tags_any BOOLEAN DEFAULT FALSE,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_scheduled_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_scheduled_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_category TEXT DEFAULT NULL,
+  filter_tone TEXT DEFAULT NULL,
+  filter_campaign_id UUID DEFAULT NULL
+)
+RETURNS TABLE (post JSONB, rank REAL, snippet TEXT, total_count BIGINT) AS $$
+  SELECT
+    to_jsonb(p) - 'search_vector' AS post,
+    ts_rank_cd(p.search_vector, q) AS rank,
+    ts_headline(
+      'english',
+      p.content,
+      q,
+      'StartSel=⟦, StopSel=⟧, MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "'
+    ) AS snippet,
+    count(*) OVER () AS total_count
+  FROM public.content_posts p, to_tsquery('english', search_query) q
+  WHERE p.search_vector @@ q
+    AND (p.deleted_at IS NOT NULL) = filter_trashed
+    AND (filter_status IS NULL OR p.status = filter_status)
+    AND (filter_content_type IS NULL OR p.content_type = filter_content_type)
+    AND (filter_platform IS NULL OR p.platform ILIKE filter_platform)
+    AND (filter_tags IS NULL OR (CASE WHEN filter_tags_any THEN p.tags && filter_tags ELSE p.tags @> filter_tags END))
+    AND (filter_created_after IS NULL OR p.created_at >= filter_created_after)
+    AND (filter_created_before IS NULL OR p.created_at < filter_created_before)
+    AND (filter_scheduled_after IS NULL OR p.scheduled_date >= filter_scheduled_after)
+    AND (filter_scheduled_before IS NULL OR p.scheduled_date < filter_scheduled_before)
+    AND (filter_category IS NULL OR p.source_data->>'category' = filter_category)
+    AND (filter_tone IS NULL OR p.source_data->>'tone' = filter_tone)
+    AND (filter_campaign_id IS NULL OR p.campaign_id = filter_campaign_id)
+  ORDER BY rank DESC, p.created_at DESC, p.id DESC
+  LIMIT result_limit
+  OFFSET result_offset;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON TABLE public.campaigns IS 'Multi-week content campaigns grouping posts';
+COMMENT ON COLUMN public.content_posts.campaign_id IS 'Campaign the post belongs to, if any';
+COMMENT ON FUNCTION public.list_campaigns_with_progress() IS 'Campaigns with per-status counts of their live posts';
+COMMENT ON FUNCTION public.search_content_posts IS 'Ranked full-text search over live (or, with filter_trashed, trashed) content_posts with ts_headline snippets';
@@ -1,7 +1,8 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
+import { generationMockPlugin, generationMockOptionsFromEnv } from "./mock-server/generationMock";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -13,6 +14,9 @@ export default defineConfig(({ mode }) => ({
     react(),
     mode === 'development' &&
     componentTagger(),
+    // `npm run dev:mock` serves the generation webhooks locally instead of n8n
+    mode === 'mock' &&
+    generationMockPlugin(generationMockOptionsFromEnv(loadEnv(mode, process.cwd(), "MOCK_GENERATION_"))),
   ].filter(Boolean),
   resolve: {
     alias: {